@@ -1,8 +1,48 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import request from 'supertest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import request, { SuperAgentTest } from 'supertest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Express } from 'express';
 import { createApp } from '../app';
+import { PaymentService } from '../paymentService';
+import { loadConfig } from '../config';
+import { DEFAULT_RULE_SET } from '../fraudRules';
+import { WebhookDispatcher, verifyWebhookSignature } from '../webhooks';
+import { Merchants } from '../merchants';
+import { MerchantInput } from '../types';
+import { RateLimit } from '../rateLimiter';
 
-const app = createApp();
+const ADMIN_KEY = 'admin_test_key';
+
+// The shared app sees every charge in this file on the same test token, so velocity rules are switched off here
+const baseConfig = { ...loadConfig(), auth: { adminKey: ADMIN_KEY } };
+const app = createApp({ ...baseConfig, fraud: { ...baseConfig.fraud, velocityWindowMs: 0 } });
+
+// Every route but /health needs an API key, so each app in this file is called as a merchant of its own
+const signIn = async (target: Express, input: MerchantInput = { name: 'Test merchant' }) => {
+  const { keys } = await (target.locals.merchants as Merchants).create(input);
+  return request.agent(target).set('Authorization', `Bearer ${keys[0].key}`);
+};
+
+const asAdmin = (target: Express) => request.agent(target).set('Authorization', `Bearer ${ADMIN_KEY}`);
+
+const VISA = { number: '4242424242424242', expMonth: 12, expYear: 2099, cvc: '123' };
+
+// Charges only take vault tokens; the same card always comes back as the same token
+const tokenize = async (client: SuperAgentTest, card = VISA) =>
+  (await client.post('/tokens').send(card).expect(201)).body.id as string;
+
+let api: SuperAgentTest;
+let source: string;
+
+beforeAll(async () => {
+  api = await signIn(app);
+  source = await tokenize(api);
+});
 
 describe('API Endpoints', () => {
   describe('POST /charge', () => {
@@ -10,11 +50,11 @@ describe('API Endpoints', () => {
       const chargeData = {
         amount: 1000,
         currency: 'USD',
-        source: 'tok_test',
+        source,
         email: 'user@gmail.com'
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/charge')
         .send(chargeData)
         .expect(200);
@@ -31,11 +71,11 @@ describe('API Endpoints', () => {
       const chargeData = {
         amount: 200000,
         currency: 'USD',
-        source: 'tok_test',
+        source,
         email: 'user@test.com'
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/charge')
         .send(chargeData)
         .expect(200);
@@ -49,11 +89,11 @@ describe('API Endpoints', () => {
       const chargeData = {
         amount: 1000,
         currency: 'USD',
-        source: 'tok_test',
+        source,
         email: 'user@example.com'
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/charge')
         .send(chargeData)
         .expect(200);
@@ -66,11 +106,11 @@ describe('API Endpoints', () => {
       const chargeData = {
         amount: 60000,
         currency: 'USD',
-        source: 'tok_test',
+        source,
         email: 'user@example.com'
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/charge')
         .send(chargeData)
         .expect(200);
@@ -80,15 +120,33 @@ describe('API Endpoints', () => {
       expect(response.body.riskScore).toBeLessThan(0.5);
     });
 
+    it('should return declined status when the provider declines', async () => {
+      const chargeData = {
+        amount: 1000,
+        currency: 'USD',
+        source: await tokenize(api, { ...VISA, number: '4000000000000002' }),
+        email: 'user@example.com'
+      };
+
+      const response = await api
+        .post('/charge')
+        .send(chargeData)
+        .expect(200);
+
+      expect(response.body.status).toBe('declined');
+      expect(response.body.provider).toBe('stripe');
+      expect(response.body.declineCode).toBe('card_declined');
+    });
+
     it('should reject invalid amount', async () => {
       const invalidData = {
         amount: -100,
         currency: 'USD',
-        source: 'tok_test',
+        source,
         email: 'user@example.com'
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/charge')
         .send(invalidData)
         .expect(400);
@@ -101,11 +159,11 @@ describe('API Endpoints', () => {
       const invalidData = {
         amount: 1000,
         currency: 'INVALID',
-        source: 'tok_test',
+        source,
         email: 'user@example.com'
       };
 
-      await request(app)
+      await api
         .post('/charge')
         .send(invalidData)
         .expect(400);
@@ -115,11 +173,11 @@ describe('API Endpoints', () => {
       const invalidData = {
         amount: 1000,
         currency: 'USD',
-        source: 'tok_test',
+        source,
         email: 'not-an-email'
       };
 
-      await request(app)
+      await api
         .post('/charge')
         .send(invalidData)
         .expect(400);
@@ -130,7 +188,7 @@ describe('API Endpoints', () => {
         amount: 1000
       };
 
-      await request(app)
+      await api
         .post('/charge')
         .send(invalidData)
         .expect(400);
@@ -140,11 +198,11 @@ describe('API Endpoints', () => {
       const chargeData = {
         amount: 9999999,
         currency: 'USD',
-        source: 'tok_test',
+        source,
         email: 'user@example.com'
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/charge')
         .send(chargeData)
         .expect(200);
@@ -154,21 +212,139 @@ describe('API Endpoints', () => {
     });
   });
 
+  describe('Idempotency-Key', () => {
+    const chargeData = {
+      amount: 1000,
+      currency: 'USD',
+      email: 'idempotent@example.com'
+    };
+
+    it('should replay the original response for the same key and body', async () => {
+      const idempotentApp = createApp(baseConfig);
+      const client = await signIn(idempotentApp);
+      const source = await tokenize(client);
+
+      const first = await client
+        .post('/charge')
+        .set('Idempotency-Key', 'order-1')
+        .send({ ...chargeData, source })
+        .expect(200);
+
+      const second = await client
+        .post('/charge')
+        .set('Idempotency-Key', 'order-1')
+        .send({ ...chargeData, source })
+        .expect(200);
+
+      expect(second.text).toBe(first.text);
+      expect(second.headers['idempotent-replayed']).toBe('true');
+
+      const transactions = await client.get('/transactions');
+      expect(transactions.body.transactions).toHaveLength(1);
+    });
+
+    it('should return 422 when the key is reused with a different body', async () => {
+      const idempotentApp = createApp(baseConfig);
+      const client = await signIn(idempotentApp);
+      const source = await tokenize(client);
+
+      await client
+        .post('/charge')
+        .set('Idempotency-Key', 'order-2')
+        .send({ ...chargeData, source })
+        .expect(200);
+
+      const response = await client
+        .post('/charge')
+        .set('Idempotency-Key', 'order-2')
+        .send({ ...chargeData, source, amount: 2000 })
+        .expect(422);
+
+      expect(response.body).toHaveProperty('error', 'Idempotency key reused');
+    });
+
+    it('should return 409 while a request with the same key is in flight', async () => {
+      const idempotentApp = createApp(baseConfig);
+      const client = await signIn(idempotentApp);
+      const source = await tokenize(client);
+      let finish: () => void = () => {};
+      const spy = vi.spyOn(PaymentService.prototype, 'processCharge').mockImplementationOnce(
+        async function (this: PaymentService, charge) {
+          await new Promise<void>(resolve => { finish = resolve; });
+          spy.mockRestore();
+          return this.processCharge(charge);
+        }
+      );
+
+      const first = client
+        .post('/charge')
+        .set('Idempotency-Key', 'order-3')
+        .send({ ...chargeData, source })
+        .then(response => response);
+      await vi.waitFor(() => expect(spy).toHaveBeenCalled());
+
+      const conflict = await client
+        .post('/charge')
+        .set('Idempotency-Key', 'order-3')
+        .send({ ...chargeData, source })
+        .expect(409);
+      expect(conflict.body).toHaveProperty('error', 'Request in progress');
+
+      finish();
+      expect((await first).status).toBe(200);
+    });
+
+    it('should allow retrying a key whose request failed validation', async () => {
+      const idempotentApp = createApp(baseConfig);
+      const client = await signIn(idempotentApp);
+      const source = await tokenize(client);
+
+      await client
+        .post('/charge')
+        .set('Idempotency-Key', 'order-4')
+        .send({ ...chargeData, source, email: 'not-an-email' })
+        .expect(400);
+
+      await client
+        .post('/charge')
+        .set('Idempotency-Key', 'order-4')
+        .send({ ...chargeData, source })
+        .expect(200);
+    });
+
+    it('should treat the key as new once the ttl has expired', async () => {
+      const shortLivedApp = createApp({ ...baseConfig, idempotency: { ttlMs: 0 } });
+      const client = await signIn(shortLivedApp);
+      const source = await tokenize(client);
+
+      const first = await client
+        .post('/charge')
+        .set('Idempotency-Key', 'order-5')
+        .send({ ...chargeData, source });
+      const second = await client
+        .post('/charge')
+        .set('Idempotency-Key', 'order-5')
+        .send({ ...chargeData, source });
+
+      expect(second.body.transactionId).not.toBe(first.body.transactionId);
+    });
+  });
+
   describe('GET /transactions', () => {
     beforeEach(async () => {
       // Create a transaction first
-      await request(app)
+      await api
         .post('/charge')
         .send({
           amount: 1000,
           currency: 'USD',
-          source: 'tok_test',
+          source,
           email: 'user@example.com'
         });
     });
 
     it('should return transactions list', async () => {
-      const response = await request(app)
+      const response = await api
         .get('/transactions')
         .expect(200);
 
@@ -178,7 +354,7 @@ describe('API Endpoints', () => {
     });
 
     it('should return transaction with correct structure', async () => {
-      const response = await request(app)
+      const response = await api
         .get('/transactions')
         .expect(200);
 
@@ -200,11 +376,80 @@ describe('API Endpoints', () => {
       expect(transaction.response).toHaveProperty('explanation');
     });
 
+    it('should paginate with a cursor', async () => {
+      const pagedApp = createApp(baseConfig);
+      const client = await signIn(pagedApp);
+      for (const amount of [1000, 2000, 3000]) {
+        await client
+          .post('/charge')
+          .send({ amount, currency: 'USD', source: await tokenize(client), email: 'pages@example.com' });
+      }
+
+      const first = await client
+        .get('/transactions?limit=2')
+        .expect(200);
+
+      expect(first.body.transactions).toHaveLength(2);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+
+      const second = await client
+        .get('/transactions')
+        .query({ limit: 2, cursor: first.body.nextCursor })
+        .expect(200);
+
+      expect(second.body.transactions).toHaveLength(1);
+      expect(second.body.nextCursor).toBeNull();
+
+      const ids = [...first.body.transactions, ...second.body.transactions].map((t: any) => t.id);
+      expect(new Set(ids).size).toBe(3);
+    });
+
+    it('should filter transactions', async () => {
+      const filteredApp = createApp(baseConfig);
+      const client = await signIn(filteredApp);
+      await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source: await tokenize(client), email: 'keep@example.com' });
+      await client
+        .post('/charge')
+        .send({ amount: 200000, currency: 'USD', source: await tokenize(client), email: 'user@test.com' });
+
+      const blocked = await client
+        .get('/transactions')
+        .query({ status: 'blocked' })
+        .expect(200);
+      expect(blocked.body.transactions).toHaveLength(1);
+      expect(blocked.body.transactions[0].request.email).toBe('u***@test.com');
+
+      const byEmail = await client
+        .get('/transactions')
+        .query({ email: 'keep@example.com', provider: 'stripe', maxRiskScore: 0.2 })
+        .expect(200);
+      expect(byEmail.body.transactions).toHaveLength(1);
+    });
+
+    it('should reject invalid query parameters', async () => {
+      const response = await api
+        .get('/transactions')
+        .query({ limit: 1000, status: 'unknown' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Invalid request');
+    });
+
+    it('should reject malformed cursors', async () => {
+      await api
+        .get('/transactions')
+        .query({ cursor: 'garbage' })
+        .expect(400);
+    });
+
     it('should return empty array when no transactions', async () => {
       // Create new app instance to have clean state
-      const cleanApp = createApp();
+      const cleanApp = createApp(baseConfig);
+      const client = await signIn(cleanApp);
       
-      const response = await request(cleanApp)
+      const response = await client
         .get('/transactions')
         .expect(200);
 
@@ -212,6 +457,1064 @@ describe('API Endpoints', () => {
     });
   });
 
+  describe('GET /transactions/:id', () => {
+    it('should return the full transaction', async () => {
+      const charge = await api
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source, email: 'lookup@example.com' })
+        .expect(200);
+
+      const response = await api
+        .get(`/transactions/${charge.body.transactionId}`)
+        .expect(200);
+
+      expect(response.body.id).toBe(charge.body.transactionId);
+      expect(response.body.status).toBe('succeeded');
+      expect(response.body.request).toMatchObject({ amount: 1000, email: 'l***@example.com' });
+      expect(response.body.response).toEqual(charge.body);
+      expect(response.body.attempts).toHaveLength(1);
+      expect(response.body.timeline).toEqual([
+        { at: expect.any(String), status: 'succeeded', note: 'Charged via stripe' }
+      ]);
+      expect(response.body.refunds).toEqual([]);
+    });
+
+    it('should explain why a charge was blocked', async () => {
+      const charge = await api
+        .post('/charge')
+        .send({ amount: 200000, currency: 'USD', source, email: 'user@test.com' });
+
+      const response = await api
+        .get(`/transactions/${charge.body.transactionId}`)
+        .expect(200);
+
+      expect(response.body.status).toBe('blocked');
+      expect(response.body.timeline[0].note).toMatch(/^Blocked with risk score/);
+    });
+
+    it('should return a 404 body for unknown ids', async () => {
+      const response = await api
+        .get('/transactions/does-not-exist')
+        .expect(404);
+
+      expect(response.body).toEqual({
+        error: 'Transaction not found',
+        code: 'transaction_not_found',
+        transactionId: 'does-not-exist'
+      });
+    });
+  });
+
+  describe('POST /transactions/:id/refunds', () => {
+    const charge = async (overrides = {}) => {
+      const response = await api
+        .post('/charge')
+        .send({
+          amount: 1000,
+          currency: 'USD',
+          source,
+          email: 'refunds@example.com',
+          ...overrides
+        });
+      return response.body.transactionId as string;
+    };
+
+    it('should create a partial refund and expose the remaining balance', async () => {
+      const transactionId = await charge();
+
+      const refund = await api
+        .post(`/transactions/${transactionId}/refunds`)
+        .send({ amount: 400 })
+        .expect(201);
+
+      expect(refund.body).toMatchObject({ transactionId, amount: 400, status: 'succeeded' });
+
+      const details = await api
+        .get(`/transactions/${transactionId}`)
+        .expect(200);
+
+      expect(details.body.refundedAmount).toBe(400);
+      expect(details.body.refundableAmount).toBe(600);
+      expect(details.body.refunds).toHaveLength(1);
+    });
+
+    it('should refund the remaining balance when no amount is given', async () => {
+      const transactionId = await charge();
+
+      const refund = await api
+        .post(`/transactions/${transactionId}/refunds`)
+        .expect(201);
+
+      expect(refund.body.amount).toBe(1000);
+    });
+
+    it('should reject refunds above the remaining balance', async () => {
+      const transactionId = await charge();
+
+      const response = await api
+        .post(`/transactions/${transactionId}/refunds`)
+        .send({ amount: 1001 })
+        .expect(422);
+
+      expect(response.body.code).toBe('amount_exceeds_refundable');
+    });
+
+    it('should reject refunds of blocked transactions', async () => {
+      const transactionId = await charge({ amount: 200000, email: 'user@test.com' });
+
+      const response = await api
+        .post(`/transactions/${transactionId}/refunds`)
+        .expect(409);
+
+      expect(response.body.code).toBe('not_refundable');
+    });
+
+    it('should validate the refund body', async () => {
+      const transactionId = await charge();
+
+      await api
+        .post(`/transactions/${transactionId}/refunds`)
+        .send({ amount: -5 })
+        .expect(400);
+    });
+
+    it('should return 404 for unknown transactions', async () => {
+      await api
+        .post('/transactions/unknown/refunds')
+        .expect(404);
+    });
+  });
+
+  describe('POST /transactions/:id/capture and /void', () => {
+    const authorize = async () => {
+      const response = await api
+        .post('/charge')
+        .send({
+          amount: 5000,
+          currency: 'USD',
+          source,
+          email: 'holds@example.com',
+          capture: false
+        })
+        .expect(200);
+
+      expect(response.body.status).toBe('authorized');
+      return response.body.transactionId as string;
+    };
+
+    it('should capture part of an authorization', async () => {
+      const transactionId = await authorize();
+
+      const response = await api
+        .post(`/transactions/${transactionId}/capture`)
+        .send({ amount: 3000 })
+        .expect(200);
+
+      expect(response.body.status).toBe('succeeded');
+      expect(response.body.capturedAmount).toBe(3000);
+      expect(response.body.refundableAmount).toBe(3000);
+    });
+
+    it('should void an authorization', async () => {
+      const transactionId = await authorize();
+
+      const response = await api
+        .post(`/transactions/${transactionId}/void`)
+        .expect(200);
+
+      expect(response.body.status).toBe('voided');
+    });
+
+    it('should reject capturing a voided authorization', async () => {
+      const transactionId = await authorize();
+      await api.post(`/transactions/${transactionId}/void`).expect(200);
+
+      const response = await api
+        .post(`/transactions/${transactionId}/capture`)
+        .expect(409);
+
+      expect(response.body.code).toBe('invalid_state_transition');
+    });
+
+    it('should reject refunding an uncaptured authorization', async () => {
+      const transactionId = await authorize();
+
+      await api
+        .post(`/transactions/${transactionId}/refunds`)
+        .expect(409);
+    });
+
+    it('should validate the capture body', async () => {
+      const transactionId = await authorize();
+
+      await api
+        .post(`/transactions/${transactionId}/capture`)
+        .send({ amount: 'all' })
+        .expect(400);
+    });
+  });
+
+  describe('Manual review', () => {
+    const rulesPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'review-rules-')), 'rules.json');
+    fs.writeFileSync(rulesPath, JSON.stringify({ ...DEFAULT_RULE_SET, reviewThreshold: 0.3 }));
+    const reviewApp = createApp({ ...baseConfig, fraud: { ...baseConfig.fraud, rulesPath, velocityWindowMs: 0 } });
+    let client: SuperAgentTest;
+
+    beforeAll(async () => {
+      client = await signIn(reviewApp);
+    });
+
+    const holdCharge = async () => {
+      const response = await client
+        .post('/charge')
+        .send({ amount: 60000, currency: 'USD', source: await tokenize(client), email: 'review@example.com' })
+        .expect(200);
+
+      expect(response.body.status).toBe('pending_review');
+      expect(response.body.explanation).toMatch(/^Payment held for manual review due to moderate risk score/);
+      return response.body.transactionId as string;
+    };
+
+    it('should list held charges in the review queue', async () => {
+      const transactionId = await holdCharge();
+
+      const response = await asAdmin(reviewApp).get('/reviews').expect(200);
+
+      expect(response.body.transactions.map((t: { id: string }) => t.id)).toContain(transactionId);
+    });
+
+    it('should route an approved charge', async () => {
+      const transactionId = await holdCharge();
+
+      const response = await asAdmin(reviewApp)
+        .post(`/reviews/${transactionId}/approve`)
+        .send({ reviewer: 'alice' })
+        .expect(200);
+
+      expect(response.body.status).toBe('succeeded');
+      expect(response.body.response.provider).toBe('paypal');
+      // Not the held charge's explanation, even though the amount and score are the same
+      expect(response.body.response.explanation).toMatch(/^Payment routed to paypal with moderate risk score/);
+      expect(response.body.refundableAmount).toBe(60000);
+    });
+
+    it('should decline a rejected charge', async () => {
+      const transactionId = await holdCharge();
+
+      const response = await asAdmin(reviewApp)
+        .post(`/reviews/${transactionId}/reject`)
+        .send({ note: 'Card reported stolen' })
+        .expect(200);
+
+      expect(response.body.status).toBe('declined');
+      expect(response.body.response.declineCode).toBe('review_rejected');
+      expect(response.body.timeline[1].review).toEqual({ note: 'Card reported stolen' });
+
+      const merchantView = await client.get(`/transactions/${transactionId}`).expect(200);
+      expect(merchantView.body.timeline[1]).toMatchObject({ status: 'declined', note: 'Rejected in review' });
+      expect(JSON.stringify(merchantView.body)).not.toContain('Card reported stolen');
+    });
+
+    it('should require a note to reject', async () => {
+      const transactionId = await holdCharge();
+
+      await asAdmin(reviewApp).post(`/reviews/${transactionId}/reject`).send({}).expect(400);
+    });
+
+    it('should return 409 for charges that are not awaiting review', async () => {
+      const transactionId = await holdCharge();
+      await asAdmin(reviewApp).post(`/reviews/${transactionId}/approve`).expect(200);
+
+      const response = await asAdmin(reviewApp).post(`/reviews/${transactionId}/approve`).expect(409);
+
+      expect(response.body.code).toBe('not_pending_review');
+    });
+  });
+
+  describe('Allow/deny lists', () => {
+    it('should block charges from a denylisted source and audit the change', async () => {
+      const listsApp = createApp(baseConfig);
+      const client = await signIn(listsApp);
+      const stolen = await tokenize(client);
+      const entry = await asAdmin(listsApp)
+        .post('/admin/lists')
+        .set('X-Admin-User', 'alice')
+        .send({ list: 'deny', type: 'source', value: stolen, reason: 'Reported stolen' })
+        .expect(201);
+
+      expect(entry.body).toMatchObject({ list: 'deny', type: 'source', value: stolen, createdBy: 'alice' });
+
+      // Tokenizing the same card again does not get around the deny list
+      const charge = await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source: await tokenize(client), email: 'user@gmail.com' })
+        .expect(200);
+
+      expect(charge.body.status).toBe('blocked');
+      // Only the admin key sees which entry matched and why
+      expect(charge.body.riskFactors[0]).toEqual({ code: 'denylisted_source', contribution: 1 });
+      expect(JSON.stringify(charge.body)).not.toContain('Reported stolen');
+      const stored = await asAdmin(listsApp).get(`/transactions/${charge.body.transactionId}`).expect(200);
+      expect(stored.body.response.riskFactors[0]).toMatchObject({ listEntryId: entry.body.id, description: 'Reported stolen' });
+
+      const audit = await asAdmin(listsApp).get('/admin/lists/audit').expect(200);
+      expect(audit.body.events[0]).toMatchObject({ action: 'added', actor: 'alice', entry: { id: entry.body.id } });
+    });
+
+    it('should list and remove entries', async () => {
+      const listsApp = createApp(baseConfig);
+      const client = await signIn(listsApp);
+      const entry = await asAdmin(listsApp)
+        .post('/admin/lists')
+        .set('X-Admin-User', 'alice')
+        .send({ list: 'allow', type: 'domain', value: 'Partner.com' })
+        .expect(201);
+
+      const listed = await asAdmin(listsApp).get('/admin/lists?list=allow').expect(200);
+      expect(listed.body.entries.map((e: { value: string }) => e.value)).toEqual(['partner.com']);
+
+      await asAdmin(listsApp).delete(`/admin/lists/${entry.body.id}`).set('X-Admin-User', 'bob').expect(200);
+      await asAdmin(listsApp).delete(`/admin/lists/${entry.body.id}`).set('X-Admin-User', 'bob').expect(404);
+
+      const audit = await asAdmin(listsApp).get('/admin/lists/audit').expect(200);
+      expect(audit.body.events.map((e: { action: string; actor: string }) => [e.action, e.actor])).toEqual([
+        ['removed', 'bob'],
+        ['added', 'alice']
+      ]);
+    });
+
+    it('should require the admin user header for changes', async () => {
+      const response = await asAdmin(app)
+        .post('/admin/lists')
+        .send({ list: 'deny', type: 'source', value: 'tok_stolen' })
+        .expect(400);
+
+      expect(response.body.details).toEqual(['"X-Admin-User" header is required']);
+    });
+
+    it('should validate entries', async () => {
+      await asAdmin(app)
+        .post('/admin/lists')
+        .set('X-Admin-User', 'alice')
+        .send({ list: 'deny', type: 'email', value: 'nope' })
+        .expect(400);
+      // A source copied from a merchant's masked view would never match a charge
+      await asAdmin(app)
+        .post('/admin/lists')
+        .set('X-Admin-User', 'alice')
+        .send({ list: 'deny', type: 'source', value: 'tok_****1b2d' })
+        .expect(400);
+    });
+  });
+
+  describe('Routing rules', () => {
+    it('should route with the configured rules and record why', async () => {
+      const rulesPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'routing-rules-')), 'routing.json');
+      fs.writeFileSync(
+        rulesPath,
+        JSON.stringify({
+          version: 'routing-1',
+          defaultProvider: 'stripe',
+          rules: [{ id: 'merchant_paypal', when: { field: 'merchantId', op: 'eq', value: 'm_1' }, provider: 'paypal' }]
+        })
+      );
+      const routingApp = createApp({ ...baseConfig, routing: { rulesPath } });
+      const client = await signIn(routingApp, { id: 'm_1', name: 'Furniture store' });
+
+      const charge = await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source: await tokenize(client), email: 'user@gmail.com' })
+        .expect(200);
+      expect(charge.body.provider).toBe('paypal');
+
+      // Why a provider was picked is for the admin key; the merchant sees which one
+      const transaction = await asAdmin(routingApp).get(`/transactions/${charge.body.transactionId}`).expect(200);
+      expect(transaction.body.routing).toMatchObject({ ruleSetVersion: 'routing-1', ruleId: 'merchant_paypal', strategy: 'fixed' });
+      expect((await client.get(`/transactions/${charge.body.transactionId}`).expect(200)).body).not.toHaveProperty('routing');
+    });
+
+    it('should route vaulted cards by their BIN', async () => {
+      const rulesPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'routing-rules-')), 'routing.json');
+      fs.writeFileSync(
+        rulesPath,
+        JSON.stringify({
+          version: 'routing-1',
+          defaultProvider: 'stripe',
+          rules: [{ id: 'issuer_paypal', when: { field: 'bin', op: 'startsWith', value: '555555' }, provider: 'paypal' }]
+        })
+      );
+      const routingApp = createApp({ ...baseConfig, routing: { rulesPath } });
+      const client = await signIn(routingApp);
+      const charge = async (card: typeof VISA) =>
+        client
+          .post('/charge')
+          .send({ amount: 1000, currency: 'USD', source: await tokenize(client, card), email: 'user@gmail.com' })
+          .expect(200);
+
+      const mastercard = await charge({ ...VISA, number: '5555555555554444' });
+      expect(mastercard.body).toMatchObject({ provider: 'paypal' });
+      expect((await charge(VISA)).body).toMatchObject({ provider: 'stripe' });
+
+      // Only read from the vault while the charge is routed, so not even the admin key sees it later
+      const stored = await asAdmin(routingApp).get(`/transactions/${mastercard.body.transactionId}`).expect(200);
+      expect(stored.body.request.card).toEqual({ brand: 'mastercard', last4: '4444' });
+    });
+
+    it('should refuse to start with an invalid routing file', () => {
+      const rulesPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'routing-rules-')), 'routing.json');
+      fs.writeFileSync(rulesPath, JSON.stringify({ version: 'bad', rules: [] }));
+
+      expect(() => createApp({ ...baseConfig, routing: { rulesPath } })).toThrow('"defaultProvider" is required');
+    });
+  });
+
+  describe('Shadow mode', () => {
+    const shadowRulesPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'shadow-rules-')), 'rules.json');
+    fs.writeFileSync(shadowRulesPath, JSON.stringify({ ...DEFAULT_RULE_SET, version: 'candidate-1', blockThreshold: 0.3 }));
+
+    it('should report where the candidate rules would have decided differently', async () => {
+      const shadowApp = createApp({ ...baseConfig, fraud: { ...baseConfig.fraud, shadowRulesPath, velocityWindowMs: 0 } });
+      const client = await signIn(shadowApp);
+
+      const diverged = await client
+        .post('/charge')
+        .send({ amount: 60000, currency: 'USD', source: await tokenize(client), email: 'user@gmail.com' })
+        .expect(200);
+      await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source: await tokenize(client), email: 'user@gmail.com' })
+        .expect(200);
+
+      expect(diverged.body.status).toBe('success');
+      expect(diverged.body).not.toHaveProperty('shadow');
+
+      const report = await asAdmin(shadowApp).get('/admin/shadow/report').expect(200);
+      expect(report.body).toMatchObject({ version: 'candidate-1', evaluated: 2, agreed: 1, disagreed: 1, agreementRate: 0.5 });
+      expect(report.body.divergent).toEqual([
+        expect.objectContaining({
+          transactionId: diverged.body.transactionId,
+          liveDecision: 'approve',
+          shadowDecision: 'block',
+          shadowRiskScore: 0.3
+        })
+      ]);
+    });
+
+    it('should report nothing when no candidate is configured', async () => {
+      const response = await asAdmin(createApp(baseConfig)).get('/admin/shadow/report').expect(200);
+      expect(response.body).toMatchObject({ version: null, evaluated: 0, divergent: [] });
+    });
+
+    it('should validate the report query', async () => {
+      await asAdmin(app).get('/admin/shadow/report?limit=0').expect(400);
+    });
+  });
+
+  describe('Provider registry', () => {
+    it('should list registered providers with their limits and circuit state', async () => {
+      const response = await api.get('/providers').expect(200);
+
+      expect(response.body.providers.map((p: { id: string; enabled: boolean }) => [p.id, p.enabled])).toEqual([
+        ['stripe', true],
+        ['paypal', true],
+        ['adyen', false],
+        ['braintree', false]
+      ]);
+      expect(response.body.providers[0]).toMatchObject({ name: 'Stripe', currencies: '*', circuit: 'closed' });
+      expect(response.body.providers[2]).toMatchObject({ currencies: expect.arrayContaining(['EUR']), circuit: null });
+    });
+
+    it('should route to enabled plugin providers', async () => {
+      const pluginApp = createApp({ ...baseConfig, providers: { enabled: ['braintree'] } });
+      const client = await signIn(pluginApp);
+
+      const charge = await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source: await tokenize(client), email: 'user@gmail.com' })
+        .expect(200);
+
+      expect(charge.body).toMatchObject({ status: 'success', provider: 'braintree' });
+      await client.get('/transactions?provider=braintree').expect(200);
+      await client.get('/transactions?provider=square').expect(400);
+    });
+
+    it('should refuse to start with unknown providers', () => {
+      expect(() => createApp({ ...baseConfig, providers: { enabled: ['stripe', 'square'] } })).toThrow(
+        'Unknown provider square'
+      );
+    });
+  });
+
+  describe('Webhooks', () => {
+    let server: http.Server;
+    let url: string;
+    let status: number;
+    const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    // The receiver below is plain http on localhost, which merchants may only use with this flag
+    const localWebhooks = { ...baseConfig.webhooks, allowPrivateUrls: true };
+
+    beforeEach(async () => {
+      received.length = 0;
+      status = 200;
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.writeHead(status).end();
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should send signed charge events to a registered endpoint', async () => {
+      const hookApp = createApp({ ...baseConfig, fraud: { ...baseConfig.fraud, velocityWindowMs: 0 }, webhooks: localWebhooks });
+      const client = await signIn(hookApp);
+      const endpoint = await client
+        .post('/webhook-endpoints')
+        .send({ url, events: ['charge.succeeded', 'refund.created'] })
+        .expect(201);
+      expect(endpoint.body.secret).toMatch(/^whsec_/);
+
+      const charge = await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source: await tokenize(client), email: 'user@gmail.com' })
+        .expect(200);
+      await client.post(`/transactions/${charge.body.transactionId}/refunds`).send({}).expect(201);
+      await (hookApp.locals.webhooks as WebhookDispatcher).idle();
+
+      expect(received.map(({ body }) => JSON.parse(body).type)).toEqual(['charge.succeeded', 'refund.created']);
+      const [{ headers, body }] = received;
+      expect(JSON.parse(body).data.object).toMatchObject({
+        id: charge.body.transactionId,
+        request: { email: 'u***@gmail.com', source: expect.stringMatching(/^tok_\*{4}[0-9a-f]{4}$/) }
+      });
+      expect(
+        verifyWebhookSignature(
+          endpoint.body.secret,
+          body,
+          headers['x-webhook-timestamp'] as string,
+          headers['x-webhook-signature'] as string
+        )
+      ).toBe(true);
+
+      const listed = await client.get('/webhook-endpoints').expect(200);
+      expect(listed.body.endpoints).toEqual([expect.not.objectContaining({ secret: expect.anything() })]);
+    });
+
+    it('should list dead letters and redeliver them', async () => {
+      const hookApp = createApp({
+        ...baseConfig,
+        fraud: { ...baseConfig.fraud, velocityWindowMs: 0 },
+        webhooks: { ...localWebhooks, maxAttempts: 1 }
+      });
+      const client = await signIn(hookApp);
+      await client.post('/webhook-endpoints').send({ url, events: ['*'] }).expect(201);
+      status = 500;
+
+      await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source: await tokenize(client), email: 'user@gmail.com' })
+        .expect(200);
+      await (hookApp.locals.webhooks as WebhookDispatcher).idle();
+
+      const dead = await client.get('/webhook-deliveries?status=dead').expect(200);
+      expect(dead.body.deliveries).toHaveLength(1);
+
+      status = 200;
+      const redelivered = await client
+        .post(`/webhook-deliveries/${dead.body.deliveries[0].id}/redeliver`)
+        .expect(200);
+      expect(redelivered.body.status).toBe('succeeded');
+      expect((await client.get('/webhook-deliveries?status=dead').expect(200)).body.deliveries).toEqual([]);
+      await client.post('/webhook-deliveries/missing/redeliver').expect(404);
+    });
+
+    it('should keep merchant endpoints off internal hosts', async () => {
+      const hookApp = createApp(baseConfig);
+      const client = await signIn(hookApp);
+
+      for (const target of [url, 'https://169.254.169.254/latest/meta-data', 'https://localhost:8080/admin']) {
+        const response = await client.post('/webhook-endpoints').send({ url: target, events: ['*'] }).expect(422);
+        expect(response.body.code).toBe('webhook_url_not_allowed');
+      }
+      // The admin key may point an endpoint anywhere
+      const trusted = await asAdmin(hookApp).post('/webhook-endpoints').send({ url, events: ['*'] }).expect(201);
+      expect(trusted.body).toMatchObject({ url, trusted: true });
+    });
+
+    it('should validate endpoint registrations', async () => {
+      const response = await api
+        .post('/webhook-endpoints')
+        .send({ url: 'ftp://example.com', events: ['charge.exploded'] })
+        .expect(400);
+
+      expect(response.body.details).toHaveLength(1);
+      await api.get('/webhook-deliveries?status=lost').expect(400);
+      await api.delete('/webhook-endpoints/missing').expect(404);
+    });
+  });
+
+  describe('Provider webhooks', () => {
+    const stripeApp = createApp({
+      ...baseConfig,
+      fraud: { ...baseConfig.fraud, velocityWindowMs: 0 },
+      providerWebhooks: { stripeSecret: 'whsec_stripe' }
+    });
+    let client: SuperAgentTest;
+
+    beforeAll(async () => {
+      client = await signIn(stripeApp);
+    });
+
+    const signed = (event: object) => {
+      const body = JSON.stringify(event);
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = crypto.createHmac('sha256', 'whsec_stripe').update(`${timestamp}.${body}`).digest('hex');
+      return { body, signature: `t=${timestamp},v1=${signature}` };
+    };
+
+    const disputeEvent = (id: string, charge: string) => ({
+      id,
+      type: 'charge.dispute.created',
+      created: Math.floor(Date.now() / 1000),
+      data: { object: { id: 'dp_1', charge, amount: 1000, status: 'needs_response' } }
+    });
+
+    it('should verify Stripe events on the raw body and dispute the charge once', async () => {
+      const charge = await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source: await tokenize(client), email: 'user@gmail.com' })
+        .expect(200);
+      const { body: transaction } = await client.get(`/transactions/${charge.body.transactionId}`).expect(200);
+      const { body, signature } = signed(disputeEvent('evt_api_1', transaction.providerReference));
+
+      const send = () =>
+        request(stripeApp)
+          .post('/webhooks/stripe')
+          .set('Content-Type', 'application/json')
+          .set('Stripe-Signature', signature)
+          .send(body);
+
+      expect((await send().expect(200)).body).toEqual({ received: true, duplicate: false, status: 'applied' });
+      expect((await send().expect(200)).body).toEqual({ received: true, duplicate: true, status: 'applied' });
+
+      const disputed = await client.get(`/transactions/${charge.body.transactionId}`).expect(200);
+      expect(disputed.body.status).toBe('disputed');
+    });
+
+    it('should reject bad signatures and providers without webhook settings', async () => {
+      const { body } = signed(disputeEvent('evt_api_2', 'ch_any'));
+
+      const rejected = await request(stripeApp)
+        .post('/webhooks/stripe')
+        .set('Content-Type', 'application/json')
+        .set('Stripe-Signature', `t=${Math.floor(Date.now() / 1000)},v1=${'0'.repeat(64)}`)
+        .send(body)
+        .expect(401);
+      expect(rejected.body.code).toBe('invalid_signature');
+
+      await request(stripeApp).post('/webhooks/paypal').send(body).expect(404);
+    });
+
+    it('should park events for unknown charges and list them for admins', async () => {
+      const { body, signature } = signed(disputeEvent('evt_api_3', 'ch_unknown'));
+      await request(stripeApp)
+        .post('/webhooks/stripe')
+        .set('Content-Type', 'application/json')
+        .set('Stripe-Signature', signature)
+        .send(body)
+        .expect(200);
+
+      const parked = await asAdmin(stripeApp).get('/admin/provider-events?status=parked').expect(200);
+      const event = parked.body.events.find((record: { event: { id: string } }) => record.event.id === 'evt_api_3');
+      expect(event.note).toBe('No stripe transaction with reference ch_unknown');
+
+      const replayed = await asAdmin(stripeApp).post(`/admin/provider-events/${event.id}/replay`).expect(200);
+      expect(replayed.body.status).toBe('parked');
+      await asAdmin(stripeApp).get('/admin/provider-events?status=lost').expect(400);
+    });
+  });
+
+  describe('Multi-currency', () => {
+    it('should reject currencies outside the currency table', async () => {
+      const response = await api
+        .post('/charge')
+        .send({ amount: 1000, currency: 'XYZ', source, email: 'user@gmail.com' })
+        .expect(400);
+
+      expect(response.body.details[0]).toContain('"currency" must be one of');
+    });
+
+    it('should score amounts in the base currency and explain them in the charge currency', async () => {
+      // 60,000 yen is under $500 at the built-in rates, so the large amount rule does not fire
+      const response = await api
+        .post('/charge')
+        .send({ amount: 60000, currency: 'JPY', source, email: 'user@gmail.com' })
+        .expect(200);
+
+      expect(response.body.riskScore).toBe(0);
+      expect(response.body.explanation).toContain('¥60000');
+    });
+
+    it('should normalize with the configured rate table', async () => {
+      const ratesPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'fx-rates-')), 'rates.json');
+      fs.writeFileSync(ratesPath, JSON.stringify({ base: 'USD', asOf: '2024-06-03', rates: { USD: 1, JPY: 100 } }));
+      const fxApp = createApp({ ...baseConfig, fraud: { ...baseConfig.fraud, velocityWindowMs: 0 }, fx: { ratesPath } });
+      const client = await signIn(fxApp);
+
+      const yen = await client
+        .post('/charge')
+        .send({ amount: 60000, currency: 'JPY', source: await tokenize(client), email: 'user@gmail.com' })
+        .expect(200);
+      expect(yen.body.riskScore).toBe(0.3);
+
+      const euro = await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'EUR', source: await tokenize(client), email: 'user@gmail.com' })
+        .expect(422);
+      expect(euro.body.code).toBe('fx_rate_unavailable');
+    });
+  });
+
+  describe('Merchant accounts and API keys', () => {
+    const charge = { amount: 1000, currency: 'USD', email: 'user@gmail.com' };
+
+    const signUp = async (target: Express, name: string) => {
+      const response = await asAdmin(target).post('/admin/merchants').send({ name }).expect(201);
+      const [secret, publishable] = response.body.keys;
+      return { merchantId: response.body.merchant.id, secret, publishable };
+    };
+
+    const withKey = (target: Express, key: string) => request.agent(target).set('Authorization', `Bearer ${key}`);
+
+    it('should require an API key everywhere but the health check', async () => {
+      const missing = await request(app).get('/transactions').expect(401);
+      expect(missing.body.code).toBe('missing_api_key');
+      expect(missing.headers['www-authenticate']).toBe('Bearer');
+
+      const unknown = await withKey(app, 'sk_not_a_real_key').post('/charge').send(charge).expect(401);
+      expect(unknown.body.code).toBe('invalid_api_key');
+
+      await request(app).get('/health').expect(200);
+    });
+
+    it('should issue secret and publishable keys that are only shown once', async () => {
+      const merchantApp = createApp(baseConfig);
+      const { secret, publishable } = await signUp(merchantApp, 'Gift cards');
+
+      expect(secret).toMatchObject({ type: 'secret', key: expect.stringMatching(/^sk_[0-9a-f]{48}$/) });
+      expect(publishable).toMatchObject({ type: 'publishable', key: expect.stringMatching(/^pk_[0-9a-f]{48}$/) });
+      expect(secret.key.startsWith(secret.prefix)).toBe(true);
+
+      const listed = await withKey(merchantApp, secret.key).get('/api-keys').expect(200);
+      expect(listed.body.keys).toHaveLength(2);
+      expect(listed.body.keys[0]).not.toHaveProperty('key');
+      expect(listed.body.keys[0]).not.toHaveProperty('hash');
+    });
+
+    it('should keep admin routes for the admin key and charges for secret keys', async () => {
+      const merchantApp = createApp(baseConfig);
+      const { secret, publishable } = await signUp(merchantApp, 'Gift cards');
+
+      expect((await withKey(merchantApp, secret.key).get('/reviews').expect(403)).body.code).toBe('forbidden');
+      await withKey(merchantApp, secret.key).post('/admin/merchants').send({ name: 'Mine' }).expect(403);
+      await withKey(merchantApp, publishable.key).post('/charge').send(charge).expect(403);
+      await withKey(merchantApp, publishable.key).get('/providers').expect(200);
+      await asAdmin(merchantApp).post('/charge').send(charge).expect(403);
+
+      // Without ADMIN_API_KEY nobody is an admin
+      await asAdmin(createApp(loadConfig())).get('/admin/merchants').expect(401);
+      await asAdmin(merchantApp).post('/admin/merchants').send({ id: 'has spaces', name: 'x' }).expect(400);
+    });
+
+    it("should hide one merchant's transactions and webhooks from another", async () => {
+      const merchantApp = createApp({ ...baseConfig, fraud: { ...baseConfig.fraud, velocityWindowMs: 0 } });
+      const alice = await signUp(merchantApp, 'Alice');
+      const bob = await signUp(merchantApp, 'Bob');
+
+      const source = await tokenize(withKey(merchantApp, alice.secret.key));
+      const paid = await withKey(merchantApp, alice.secret.key).post('/charge').send({ ...charge, source }).expect(200);
+      const id = paid.body.transactionId;
+      const stored = await withKey(merchantApp, alice.secret.key).get(`/transactions/${id}`).expect(200);
+      expect(stored.body.request.merchantId).toBe(alice.merchantId);
+
+      expect((await withKey(merchantApp, bob.secret.key).get('/transactions').expect(200)).body.transactions).toEqual([]);
+      await withKey(merchantApp, bob.secret.key).get(`/transactions/${id}`).expect(404);
+      await withKey(merchantApp, bob.secret.key).post(`/transactions/${id}/refunds`).send({}).expect(404);
+      const all = await asAdmin(merchantApp).get('/transactions').expect(200);
+      expect(all.body.transactions.map((t: { id: string }) => t.id)).toEqual([id]);
+
+      const endpoint = await withKey(merchantApp, alice.secret.key)
+        .post('/webhook-endpoints')
+        .send({ url: 'https://example.com/hooks', events: ['*'], merchantId: bob.merchantId })
+        .expect(201);
+      expect(endpoint.body.merchantId).toBe(alice.merchantId);
+      expect((await withKey(merchantApp, bob.secret.key).get('/webhook-endpoints').expect(200)).body.endpoints).toEqual([]);
+      await withKey(merchantApp, bob.secret.key).delete(`/webhook-endpoints/${endpoint.body.id}`).expect(404);
+    });
+
+    it('should scope idempotency keys to the merchant', async () => {
+      const merchantApp = createApp({ ...baseConfig, fraud: { ...baseConfig.fraud, velocityWindowMs: 0 } });
+      const alice = await signUp(merchantApp, 'Alice');
+      const bob = await signUp(merchantApp, 'Bob');
+
+      const send = async (key: string) => {
+        const source = await tokenize(withKey(merchantApp, key));
+        return withKey(merchantApp, key).post('/charge').set('Idempotency-Key', 'order-1').send({ ...charge, source }).expect(200);
+      };
+      const first = await send(alice.secret.key);
+      const second = await send(bob.secret.key);
+
+      expect(second.headers['idempotent-replayed']).toBeUndefined();
+      expect(second.body.transactionId).not.toBe(first.body.transactionId);
+    });
+
+    it('should rotate keys with a grace period and revoke them', async () => {
+      const merchantApp = createApp(baseConfig);
+      const { secret, publishable } = await signUp(merchantApp, 'Gift cards');
+      const old = withKey(merchantApp, secret.key);
+
+      const rotated = await old.post(`/api-keys/${secret.id}/rotate`).send({ graceMs: 60000 }).expect(201);
+      expect(rotated.body).toMatchObject({ type: 'secret', key: expect.stringMatching(/^sk_/) });
+      await old.get('/api-keys').expect(200);
+
+      const current = withKey(merchantApp, rotated.body.key);
+      const again = await current.post(`/api-keys/${rotated.body.id}/rotate`).send({}).expect(201);
+      expect((await current.get('/transactions').expect(401)).body.code).toBe('invalid_api_key');
+
+      const latest = withKey(merchantApp, again.body.key);
+      await latest.delete(`/api-keys/${publishable.id}`).expect(200);
+      await withKey(merchantApp, publishable.key).get('/providers').expect(401);
+      // The first key is still in its grace period, so it goes first
+      await latest.delete(`/api-keys/${secret.id}`).expect(200);
+      await old.get('/api-keys').expect(401);
+      expect((await latest.delete(`/api-keys/${again.body.id}`).expect(409)).body.code).toBe('last_secret_key');
+      await latest.delete('/api-keys/missing').expect(404);
+    });
+  });
+
+  describe('Merchant settings', () => {
+    const charge = { amount: 1000, currency: 'USD', email: 'user@gmail.com' };
+
+    it('should inherit the defaults and apply merchant overrides to charges', async () => {
+      const settingsApp = createApp(baseConfig);
+      const client = await signIn(settingsApp, { id: 'm_1', name: 'Gift cards' });
+      const admin = asAdmin(settingsApp).set('X-Admin-User', 'ops@example.com');
+
+      const defaults = await admin.put('/admin/settings').send({ currencies: ['USD', 'EUR'], llmExplanations: false }).expect(200);
+      expect(defaults.body).toMatchObject({ merchantId: null, updatedBy: 'ops@example.com' });
+
+      const updated = await admin
+        .put('/admin/merchants/m_1/settings')
+        .send({ maxAmount: 500, preferredProviders: ['paypal'] })
+        .expect(200);
+      expect(updated.body).toMatchObject({
+        merchantId: 'm_1',
+        settings: { maxAmount: 500, preferredProviders: ['paypal'] },
+        resolved: { currencies: ['USD', 'EUR'], maxAmount: 500, preferredProviders: ['paypal'], llmExplanations: false }
+      });
+      expect((await client.get('/settings').expect(200)).body.settings).toEqual(updated.body.resolved);
+
+      const source = await tokenize(client);
+      const tooLarge = await client.post('/charge').send({ ...charge, source }).expect(422);
+      expect(tooLarge.body).toEqual({ error: 'This merchant accepts charges of at most $5.00', code: 'amount_not_allowed' });
+      expect((await client.post('/charge').send({ ...charge, source, currency: 'GBP', amount: 100 }).expect(422)).body.code).toBe(
+        'currency_not_allowed'
+      );
+      expect((await client.post('/charge').send({ ...charge, source, amount: 100 }).expect(200)).body.provider).toBe('paypal');
+    });
+
+    it('should validate settings and keep them for the admin key', async () => {
+      const settingsApp = createApp(baseConfig);
+      const client = await signIn(settingsApp, { id: 'm_1', name: 'Gift cards' });
+      const admin = asAdmin(settingsApp).set('X-Admin-User', 'ops@example.com');
+
+      await asAdmin(settingsApp).put('/admin/merchants/m_1/settings').send({}).expect(400);
+      await admin.put('/admin/merchants/m_1/settings').send({ blockThreshold: 0.5, reviewThreshold: 0.6 }).expect(400);
+      await admin.put('/admin/merchants/m_1/settings').send({ minAmount: 500, maxAmount: 100 }).expect(400);
+      await admin.put('/admin/merchants/m_1/settings').send({ preferredProviders: ['adyen'] }).expect(400);
+      await admin.put('/admin/merchants/m_1/settings').send({ currencies: ['XXX'] }).expect(400);
+      expect((await admin.put('/admin/merchants/missing/settings').send({}).expect(404)).body.code).toBe('merchant_not_found');
+      await client.put('/admin/merchants/m_1/settings').send({}).expect(403);
+
+      expect((await admin.get('/admin/merchants/m_1/settings').expect(200)).body).toEqual({
+        merchantId: 'm_1',
+        settings: {},
+        resolved: {}
+      });
+    });
+  });
+
+  describe('Rate limiting', () => {
+    const charge = { amount: 1000, currency: 'USD', email: 'user@gmail.com' };
+    const limited = (tiers: Partial<Record<'charge' | 'read', { perKey?: number; perIp?: number }>>) => {
+      const { rateLimit } = baseConfig;
+      const tier = (name: 'charge' | 'read') => ({
+        perKey: { ...rateLimit[name].perKey, limit: tiers[name]?.perKey ?? 0 },
+        perIp: { ...rateLimit[name].perIp, limit: tiers[name]?.perIp ?? 0 }
+      });
+      return createApp({
+        ...baseConfig,
+        fraud: { ...baseConfig.fraud, velocityWindowMs: 0 },
+        rateLimit: { ...rateLimit, charge: tier('charge'), read: tier('read') }
+      });
+    };
+
+    it('should limit charges per API key with standard headers', async () => {
+      const limitedApp = limited({ charge: { perKey: 2 } });
+      const client = await signIn(limitedApp);
+      const other = await signIn(limitedApp);
+      const source = await tokenize(client);
+
+      const first = await client.post('/charge').send({ ...charge, source }).expect(200);
+      expect(first.headers['ratelimit-limit']).toBe('2');
+      expect(first.headers['ratelimit-remaining']).toBe('1');
+      expect(first.headers['ratelimit-reset']).toBe('30');
+      await client.post('/charge').send({ ...charge, source }).expect(200);
+
+      const rejected = await client.post('/charge').send({ ...charge, source }).expect(429);
+      expect(rejected.body.code).toBe('rate_limited');
+      expect(rejected.headers['retry-after']).toBe('30');
+      expect(rejected.headers['ratelimit-remaining']).toBe('0');
+
+      // Reads and other keys have buckets of their own
+      await client.get('/transactions').expect(200);
+      await other.post('/charge').send({ ...charge, source: await tokenize(other) }).expect(200);
+    });
+
+    it('should limit by client IP before authentication', async () => {
+      const limitedApp = limited({ read: { perIp: 2 } });
+
+      await request(limitedApp).get('/transactions').expect(401);
+      await request(limitedApp).get('/transactions').set('Authorization', 'Bearer sk_guess').expect(401);
+      const rejected = await request(limitedApp).get('/transactions').set('Authorization', 'Bearer sk_guess').expect(429);
+      expect(rejected.headers['retry-after']).toBe('30');
+
+      await request(limitedApp).get('/health').expect(200);
+    });
+
+    it('should report the limit closest to running out', async () => {
+      const limitedApp = limited({ read: { perKey: 5, perIp: 50 } });
+      const client = await signIn(limitedApp);
+
+      const response = await client.get('/transactions').expect(200);
+      expect(response.headers['ratelimit-limit']).toBe('5');
+      expect(response.headers['ratelimit-remaining']).toBe('4');
+    });
+
+    it('should keep buckets in the store it is given', async () => {
+      const take = vi.fn(async (_key: string, { limit }: RateLimit) => ({
+        allowed: false,
+        limit,
+        remaining: 0,
+        resetMs: 60000,
+        retryAfterMs: 12000
+      }));
+      const storeApp = createApp(
+        { ...baseConfig, rateLimit: { ...baseConfig.rateLimit, read: { ...baseConfig.rateLimit.read, perIp: { limit: 0, windowMs: 60000 } } } },
+        { rateLimitStore: { take } }
+      );
+      const client = await signIn(storeApp);
+
+      const rejected = await client.get('/transactions').expect(429);
+      expect(rejected.headers['retry-after']).toBe('12');
+      expect(take).toHaveBeenCalledWith(expect.stringMatching(/^read:perKey:/), baseConfig.rateLimit.read.perKey);
+    });
+  });
+
+  describe('Card tokens', () => {
+    it('should vault a card and charge it by token alone', async () => {
+      const vaultApp = createApp(baseConfig);
+      const client = await signIn(vaultApp);
+
+      const token = await client.post('/tokens').send({ ...VISA, number: '4242 4242 4242 4242' }).expect(201);
+      expect(token.body).toMatchObject({ brand: 'visa', last4: '4242', expMonth: 12, expYear: 2099 });
+      expect(token.body).not.toHaveProperty('bin');
+      expect(token.body.id).toMatch(/^tok_[0-9a-f]{24}$/);
+      expect(JSON.stringify(token.body)).not.toContain('4242424242424242');
+      expect(token.body).not.toHaveProperty('cvc');
+      expect(await tokenize(client)).toBe(token.body.id);
+
+      const charge = await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source: token.body.id, email: 'user@gmail.com' })
+        .expect(200);
+      const stored = await client.get(`/transactions/${charge.body.transactionId}`).expect(200);
+      expect(stored.body.request).toMatchObject({
+        source: `tok_****${token.body.id.slice(-4)}`,
+        card: { brand: 'visa', last4: '4242' }
+      });
+      expect(JSON.stringify(stored.body)).not.toContain('4242424242424242');
+    });
+
+    it('should take publishable keys', async () => {
+      const vaultApp = createApp(baseConfig);
+      const { keys } = await (vaultApp.locals.merchants as Merchants).create({ name: 'Checkout' });
+      const publishable = keys.find(key => key.type === 'publishable')!;
+
+      await request(vaultApp).post('/tokens').set('Authorization', `Bearer ${publishable.key}`).send(VISA).expect(201);
+    });
+
+    it('should reject cards that cannot be charged', async () => {
+      const expect422 = async (card: object) => (await api.post('/tokens').send({ ...VISA, ...card }).expect(422)).body.code;
+
+      expect(await expect422({ number: '4242424242424241' })).toBe('invalid_card_number');
+      expect(await expect422({ number: '9999999999999995' })).toBe('unsupported_card_brand');
+      expect(await expect422({ number: '378282246310005', cvc: '123' })).toBe('invalid_cvc');
+      expect(await expect422({ expMonth: 1, expYear: 2020 })).toBe('card_expired');
+    });
+
+    it('should not echo card numbers in validation errors', async () => {
+      const response = await api.post('/tokens').send({ ...VISA, number: '4242x4242424242424242' }).expect(400);
+
+      expect(response.body).toEqual({ error: 'Invalid request', details: ['"number" must be 12 to 19 digits'] });
+    });
+
+    it("should not charge another merchant's tokens", async () => {
+      const vaultApp = createApp(baseConfig);
+      const alice = await signIn(vaultApp, { name: 'Alice' });
+      const bob = await signIn(vaultApp, { name: 'Bob' });
+
+      const response = await bob
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source: await tokenize(alice), email: 'user@gmail.com' })
+        .expect(422);
+      expect(response.body).toEqual({ error: 'No such card token', code: 'invalid_card_token' });
+    });
+  });
+
+  describe('PII redaction', () => {
+    it('should mask customer details for merchants and show them to the admin key', async () => {
+      const piiApp = createApp(baseConfig);
+      const client = await signIn(piiApp);
+      const source = await tokenize(client);
+      const charge = await client
+        .post('/charge')
+        .send({ amount: 1000, currency: 'USD', source, email: 'jane.doe@example.com' })
+        .expect(200);
+      const id = charge.body.transactionId;
+      const masked = { email: 'j***@example.com', source: `tok_****${source.slice(-4)}` };
+
+      expect((await client.get('/transactions').expect(200)).body.transactions[0].request).toMatchObject(masked);
+      expect((await client.get(`/transactions/${id}`).expect(200)).body.request).toMatchObject(masked);
+      // Filtering by the full email still works; only the response is masked
+      const found = await client.get('/transactions').query({ email: 'jane.doe@example.com' }).expect(200);
+      expect(found.body.transactions).toHaveLength(1);
+      expect(JSON.stringify(found.body)).not.toContain('jane.doe');
+
+      const full = { email: 'jane.doe@example.com', source };
+      expect((await asAdmin(piiApp).get('/transactions').expect(200)).body.transactions[0].request).toMatchObject(full);
+      expect((await asAdmin(piiApp).get(`/transactions/${id}`).expect(200)).body.request).toMatchObject(full);
+    });
+  });
+
   describe('GET /health', () => {
     it('should return health status', async () => {
       const response = await request(app)
@@ -235,7 +1538,7 @@ describe('API Endpoints', () => {
 
   describe('Error Handling', () => {
     it('should handle malformed JSON', async () => {
-      const response = await request(app)
+      const response = await api
         .post('/charge')
         .set('Content-Type', 'application/json')
         .send('invalid json')
@@ -243,13 +1546,13 @@ describe('API Endpoints', () => {
     });
 
     it('should return 404 for unknown endpoints', async () => {
-      await request(app)
+      await api
         .get('/unknown')
         .expect(404);
     });
 
     it('should handle empty request body', async () => {
-      await request(app)
+      await api
         .post('/charge')
         .send({})
         .expect(400);
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker } from '../circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  const options = { failureThreshold: 3, cooldownMs: 1000 };
+
+  it('should stay closed below the failure threshold', () => {
+    const breaker = new CircuitBreaker(options);
+
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+
+    expect(breaker.getState(0)).toBe('closed');
+    expect(breaker.canRequest(0)).toBe(true);
+  });
+
+  it('should open after consecutive failures', () => {
+    const breaker = new CircuitBreaker(options);
+
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+
+    expect(breaker.getState(500)).toBe('open');
+    expect(breaker.canRequest(500)).toBe(false);
+  });
+
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker(options);
+
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+
+    expect(breaker.getState(0)).toBe('closed');
+  });
+
+  it('should allow a single trial request after the cooldown', () => {
+    const breaker = new CircuitBreaker(options);
+    [0, 0, 0].forEach(now => breaker.recordFailure(now));
+
+    expect(breaker.getState(1000)).toBe('half_open');
+    expect(breaker.canRequest(1000)).toBe(true);
+    expect(breaker.canRequest(1000)).toBe(false);
+  });
+
+  it('should close when the trial succeeds', () => {
+    const breaker = new CircuitBreaker(options);
+    [0, 0, 0].forEach(now => breaker.recordFailure(now));
+
+    breaker.canRequest(1000);
+    breaker.recordSuccess();
+
+    expect(breaker.getState(1000)).toBe('closed');
+  });
+
+  it('should re-open when the trial fails', () => {
+    const breaker = new CircuitBreaker(options);
+    [0, 0, 0].forEach(now => breaker.recordFailure(now));
+
+    breaker.canRequest(1000);
+    breaker.recordFailure(1000);
+
+    expect(breaker.getState(1500)).toBe('open');
+    expect(breaker.canRequest(1500)).toBe(false);
+    expect(breaker.canRequest(2000)).toBe(true);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { SUPPORTED_CURRENCIES, formatAmount, getCurrency, toMajorUnits, toMinorUnits } from '../currencies';
+
+describe('Currencies', () => {
+  it('should know the minor-unit exponent of each currency', () => {
+    expect(getCurrency('USD')?.minorUnits).toBe(2);
+    expect(getCurrency('JPY')?.minorUnits).toBe(0);
+    expect(getCurrency('KWD')?.minorUnits).toBe(3);
+    expect(getCurrency('XYZ')).toBeUndefined();
+    expect(SUPPORTED_CURRENCIES).toContain('EUR');
+  });
+
+  it('should convert between minor and major units', () => {
+    expect(toMajorUnits(1050, 'USD')).toBe(10.5);
+    expect(toMajorUnits(1000, 'JPY')).toBe(1000);
+    expect(toMajorUnits(1500, 'KWD')).toBe(1.5);
+    expect(toMinorUnits(10.505, 'KWD')).toBe(10505);
+    expect(toMinorUnits(12.345, 'USD')).toBe(1235);
+    expect(() => toMajorUnits(100, 'XYZ')).toThrow('Unsupported currency XYZ');
+  });
+
+  it('should format amounts with the currency exponent', () => {
+    expect(formatAmount(1000, 'USD')).toBe('$10.00');
+    expect(formatAmount(1000, 'JPY')).toBe('¥1000');
+    expect(formatAmount(1500, 'KWD')).toBe('1.500 KWD');
+    expect(formatAmount(2550, 'CHF')).toBe('25.50 CHF');
+  });
+});
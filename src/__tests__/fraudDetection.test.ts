@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest';
 import { FraudDetector } from '../fraudDetection';
+import { parseRuleSet } from '../fraudRules';
+import { VelocityTracker } from '../velocityTracker';
+import { RiskLists } from '../riskLists';
+import { InMemoryRiskListRepository } from '../riskListRepository';
+import { FxConverter, parseFxRates } from '../fx';
 import { ChargeRequest } from '../types';
 
 describe('FraudDetector', () => {
@@ -105,6 +110,39 @@ describe('FraudDetector', () => {
     });
   });
 
+  describe('assessRisk', () => {
+    it('should list no factors for a clean charge', async () => {
+      const assessment = await fraudDetector.assessRisk({
+        amount: 1000,
+        currency: 'USD',
+        source: 'tok_test',
+        email: 'user@gmail.com'
+      });
+
+      expect(assessment).toEqual({ score: 0, factors: [] });
+    });
+
+    it('should explain each rule that contributed to the score', async () => {
+      const assessment = await fraudDetector.assessRisk({
+        amount: 60000,
+        currency: 'USD',
+        source: 'tok_test',
+        email: 'user@test.com'
+      });
+
+      expect(assessment.score).toBe(0.7);
+      expect(assessment.factors).toEqual([
+        { code: 'large_amount', ruleId: 'large_amount', description: 'Amount over $500', contribution: 0.3 },
+        {
+          code: 'suspicious_domain',
+          ruleId: 'suspicious_domain',
+          description: 'Email on a domain associated with fraud',
+          contribution: 0.4
+        }
+      ]);
+    });
+  });
+
   describe('shouldBlock', () => {
     it('should not block low risk scores', () => {
       expect(fraudDetector.shouldBlock(0.0)).toBe(false);
@@ -122,4 +160,193 @@ describe('FraudDetector', () => {
       expect(fraudDetector.shouldBlock(0.5)).toBe(true);
     });
   });
-});
\ No newline at end of file
+});
+describe('FraudDetector with custom rules', () => {
+  const ruleSet = parseRuleSet(
+    {
+      version: 'custom-1',
+      blockThreshold: 0.8,
+      rules: [
+        { id: 'gift_card_source', reasonCode: 'stored_value_source', weight: 0.6, when: { field: 'source', op: 'startsWith', value: 'gift_' } },
+        { id: 'trusted_domain', weight: -0.2, when: { field: 'emailDomain', op: 'eq', value: 'partner.com' } },
+        { id: 'disabled_rule', weight: 1, enabled: false, when: { field: 'amount', op: 'gt', value: 0 } }
+      ]
+    },
+    'test'
+  );
+
+  const request: ChargeRequest = {
+    amount: 1000,
+    currency: 'USD',
+    source: 'gift_123',
+    email: 'user@partner.com'
+  };
+
+  it('should score with the configured rules and skip disabled ones', () => {
+    const detector = new FraudDetector(ruleSet);
+    expect(detector.calculateRiskScore(request)).toBeCloseTo(0.4);
+  });
+
+  it('should report custom reason codes and negative contributions', async () => {
+    const detector = new FraudDetector(ruleSet);
+    expect((await detector.assessRisk(request)).factors).toEqual([
+      { code: 'stored_value_source', ruleId: 'gift_card_source', contribution: 0.6 },
+      { code: 'trusted_domain', ruleId: 'trusted_domain', contribution: -0.2 }
+    ]);
+  });
+
+  it('should never return a negative score', () => {
+    const detector = new FraudDetector(ruleSet);
+    expect(detector.calculateRiskScore({ ...request, source: 'tok_test' })).toBe(0);
+  });
+
+  it('should use the configured block threshold', () => {
+    const detector = new FraudDetector(ruleSet);
+    expect(detector.shouldBlock(0.7)).toBe(false);
+    expect(detector.shouldBlock(0.8)).toBe(true);
+  });
+
+  it('should only send scores inside the review band to review', () => {
+    const detector = new FraudDetector({ ...ruleSet, reviewThreshold: 0.4 });
+    expect(detector.shouldReview(0.39)).toBe(false);
+    expect(detector.shouldReview(0.4)).toBe(true);
+    expect(detector.shouldReview(0.8)).toBe(false);
+    expect(new FraudDetector(ruleSet).shouldReview(0.5)).toBe(false);
+  });
+
+  it('should let merchant thresholds override the rule set', () => {
+    const detector = new FraudDetector({ ...ruleSet, reviewThreshold: 0.4 });
+    const thresholds = { blockThreshold: 0.6 };
+
+    expect(detector.decide(0.6, thresholds)).toBe('block');
+    expect(detector.decide(0.5, thresholds)).toBe('review');
+    expect(detector.decide(0.5, { reviewThreshold: 0.6 })).toBe('approve');
+    // Review band set equal to the block threshold: nothing is held
+    expect(detector.decide(0.7, { blockThreshold: 0.7, reviewThreshold: 0.7 })).toBe('block');
+    expect(detector.shouldReview(0.69, { blockThreshold: 0.7, reviewThreshold: 0.7 })).toBe(false);
+  });
+
+  it('should map scores to a decision', () => {
+    const detector = new FraudDetector({ ...ruleSet, reviewThreshold: 0.4 });
+    expect([0.1, 0.5, 0.9].map(score => detector.decide(score))).toEqual(['approve', 'review', 'block']);
+    expect(detector.getVersion()).toBe('custom-1');
+  });
+
+  it('should switch rules when a new rule set is loaded', () => {
+    const detector = new FraudDetector();
+    expect(detector.calculateRiskScore(request)).toBe(0);
+
+    detector.setRuleSet(ruleSet);
+    expect(detector.getRuleSet().version).toBe('custom-1');
+    expect(detector.calculateRiskScore(request)).toBeCloseTo(0.4);
+  });
+});
+
+describe('FraudDetector velocity rules', () => {
+  const request: ChargeRequest = {
+    amount: 1000,
+    currency: 'USD',
+    source: 'tok_card',
+    email: 'user@example.com'
+  };
+
+  it('should flag a burst of charges on the same source', async () => {
+    const detector = new FraudDetector(undefined, new VelocityTracker(60 * 1000));
+    for (let i = 0; i < 10; i++) {
+      detector.recordCharge({ ...request, email: `user${i % 2}@example.com` }, false, i);
+    }
+
+    const { factors } = await detector.assessRisk(request, 100);
+    expect(factors.map(factor => factor.code)).toEqual(['velocity_source']);
+  });
+
+  it('should flag a smaller retry after repeated blocked attempts', async () => {
+    const detector = new FraudDetector(undefined, new VelocityTracker(60 * 1000));
+    detector.recordCharge({ ...request, amount: 150000 }, true, 0);
+    detector.recordCharge({ ...request, amount: 120000 }, true, 1);
+
+    const { score, factors } = await detector.assessRisk(request, 2);
+    expect(factors.map(factor => factor.code)).toEqual(['velocity_blocked_retry']);
+    expect(score).toBeCloseTo(0.3);
+  });
+
+  it('should ignore history outside the window', async () => {
+    const detector = new FraudDetector(undefined, new VelocityTracker(60 * 1000));
+    detector.recordCharge({ ...request, amount: 150000 }, true, 0);
+    detector.recordCharge({ ...request, amount: 120000 }, true, 1);
+
+    expect((await detector.assessRisk(request, 60 * 1000 + 1)).factors).toEqual([]);
+  });
+});
+
+describe('FraudDetector allow/deny lists', () => {
+  const request: ChargeRequest = {
+    amount: 200000,
+    currency: 'USD',
+    source: 'tok_card',
+    email: 'user@test.com'
+  };
+
+  const detectorWith = () => {
+    const lists = new RiskLists(new InMemoryRiskListRepository());
+    return { lists, detector: new FraudDetector(undefined, undefined, lists) };
+  };
+
+  it('should hard block denylisted charges', async () => {
+    const { lists, detector } = detectorWith();
+    const entry = await lists.add({ list: 'deny', type: 'email', value: 'clean@gmail.com', reason: 'Account takeover' }, 'alice');
+
+    const assessment = await detector.assessRisk({ ...request, amount: 1000, email: 'clean@gmail.com' });
+
+    expect(assessment).toEqual({
+      score: 1,
+      factors: [{ code: 'denylisted_email', listEntryId: entry.id, description: 'Account takeover', contribution: 1 }]
+    });
+    expect(detector.shouldBlock(assessment.score)).toBe(true);
+  });
+
+  it('should skip the rules for allowlisted charges', async () => {
+    const { lists, detector } = detectorWith();
+    const entry = await lists.add({ list: 'allow', type: 'domain', value: 'test.com' }, 'alice');
+
+    const assessment = await detector.assessRisk(request);
+
+    expect(assessment).toEqual({
+      score: 0,
+      factors: [{ code: 'allowlisted_domain', listEntryId: entry.id, contribution: 0 }]
+    });
+  });
+
+  it('should score unlisted charges with the rules', async () => {
+    const { detector } = detectorWith();
+    expect((await detector.assessRisk(request)).score).toBeCloseTo(0.9);
+  });
+});
+
+describe('FraudDetector with FX normalization', () => {
+  const fx = new FxConverter(parseFxRates({ base: 'USD', asOf: '2024-06-03', rates: { USD: 1, JPY: 150, KWD: 0.3 } }, 'test'));
+  const detector = new FraudDetector(undefined, undefined, undefined, undefined, fx);
+  const request: ChargeRequest = { amount: 0, currency: 'JPY', source: 'tok_card', email: 'user@gmail.com' };
+
+  it('should apply amount thresholds in the base currency', () => {
+    // 60,000 yen is $400, under the $500 threshold; 90,000 yen is $600
+    expect(detector.calculateRiskScore({ ...request, amount: 60000 })).toBe(0);
+    expect(detector.calculateRiskScore({ ...request, amount: 90000 })).toBe(0.3);
+    // 200 KWD (200000 fils) is about $667
+    expect(detector.calculateRiskScore({ ...request, currency: 'KWD', amount: 200000 })).toBe(0.3);
+  });
+
+  it('should let rules look at the amount as charged', () => {
+    const ruleSet = parseRuleSet(
+      {
+        version: 'local-1',
+        blockThreshold: 0.7,
+        rules: [{ id: 'big_local', weight: 0.5, when: { field: 'localAmount', op: 'gt', value: 50000 } }]
+      },
+      'test'
+    );
+    const localDetector = new FraudDetector(ruleSet, undefined, undefined, undefined, fx);
+
+    expect(localDetector.calculateRiskScore({ ...request, amount: 60000 })).toBe(0.5);
+  });
+});
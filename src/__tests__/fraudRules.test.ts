@@ -0,0 +1,178 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_RULE_SET,
+  FraudRuleSet,
+  FraudRulesError,
+  buildRiskContext,
+  evaluateCondition,
+  loadRuleSet,
+  parseRuleSet,
+  watchRuleSet
+} from '../fraudRules';
+
+const validRuleSet = {
+  version: 'test-1',
+  blockThreshold: 0.6,
+  rules: [
+    {
+      id: 'high_value_eur',
+      weight: 0.5,
+      when: {
+        all: [
+          { field: 'currency', op: 'eq', value: 'EUR' },
+          { field: 'amount', op: 'gte', value: 10000 }
+        ]
+      }
+    }
+  ]
+};
+
+describe('Fraud rules', () => {
+  describe('parseRuleSet', () => {
+    it('should accept a valid rule set and apply defaults', () => {
+      const ruleSet = parseRuleSet(validRuleSet, 'test');
+
+      expect(ruleSet.blockThreshold).toBe(0.6);
+      expect(ruleSet.rules[0].enabled).toBe(true);
+    });
+
+    it('should ship a valid default rule set', () => {
+      expect(DEFAULT_RULE_SET.blockThreshold).toBe(0.5);
+      expect(DEFAULT_RULE_SET.rules.map(rule => rule.id)).toEqual([
+        'large_amount',
+        'suspicious_domain',
+        'very_large_amount',
+        'disposable_email',
+        'email_velocity',
+        'source_velocity',
+        'shared_source',
+        'amount_spike',
+        'blocked_retry'
+      ]);
+    });
+
+    it('should reject unknown fields and operators with a clear error', () => {
+      const invalid = {
+        ...validRuleSet,
+        rules: [{ id: 'bad', weight: 0.1, when: { field: 'ip', op: 'near', value: 1 } }]
+      };
+
+      expect(() => parseRuleSet(invalid, 'rules.json')).toThrow(FraudRulesError);
+      expect(() => parseRuleSet(invalid, 'rules.json')).toThrow(/^Invalid fraud rules in rules\.json: /);
+    });
+
+    it('should reject values of the wrong type for the operator', () => {
+      const invalid = {
+        ...validRuleSet,
+        rules: [{ id: 'bad', weight: 0.1, when: { field: 'amount', op: 'gt', value: 'lots' } }]
+      };
+
+      expect(() => parseRuleSet(invalid, 'test')).toThrow(FraudRulesError);
+    });
+
+    it('should reject invalid regular expressions', () => {
+      const invalid = {
+        ...validRuleSet,
+        rules: [{ id: 'bad', weight: 0.1, when: { field: 'email', op: 'matches', value: '([' } }]
+      };
+
+      expect(() => parseRuleSet(invalid, 'test')).toThrow(/not a valid regular expression/);
+    });
+
+    it('should require the review threshold to sit below the block threshold', () => {
+      expect(parseRuleSet({ ...validRuleSet, reviewThreshold: 0.3 }, 'test').reviewThreshold).toBe(0.3);
+      expect(() => parseRuleSet({ ...validRuleSet, reviewThreshold: 0.6 }, 'test')).toThrow(
+        /"reviewThreshold" must be less than ref:blockThreshold/
+      );
+    });
+
+    it('should reject duplicate rule ids and out of range weights', () => {
+      const invalid = {
+        ...validRuleSet,
+        rules: [validRuleSet.rules[0], { ...validRuleSet.rules[0], weight: 3 }]
+      };
+
+      try {
+        parseRuleSet(invalid, 'test');
+        expect.unreachable();
+      } catch (err) {
+        expect((err as FraudRulesError).details).toHaveLength(2);
+      }
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    const context = buildRiskContext({
+      amount: 20000,
+      currency: 'EUR',
+      source: 'tok_visa',
+      email: 'Jane@Mail.Example.com'
+    });
+
+    it('should derive the email domain', () => {
+      expect(context.emailDomain).toBe('mail.example.com');
+    });
+
+    it('should evaluate nested all/any/not conditions', () => {
+      expect(evaluateCondition(validRuleSet.rules[0].when as any, context)).toBe(true);
+      expect(
+        evaluateCondition(
+          { any: [{ field: 'currency', op: 'eq', value: 'USD' }, { not: { field: 'source', op: 'startsWith', value: 'tok_' } }] },
+          context
+        )
+      ).toBe(false);
+    });
+
+    it('should compare strings case-insensitively', () => {
+      expect(evaluateCondition({ field: 'email', op: 'eq', value: 'jane@mail.example.com' }, context)).toBe(true);
+      expect(evaluateCondition({ field: 'currency', op: 'in', value: ['eur', 'gbp'] }, context)).toBe(true);
+      expect(evaluateCondition({ field: 'emailDomain', op: 'endsWith', value: 'EXAMPLE.COM' }, context)).toBe(true);
+      expect(evaluateCondition({ field: 'email', op: 'matches', value: '^jane@' }, context)).toBe(true);
+    });
+  });
+
+  describe('loading from disk', () => {
+    let directory: string;
+    let stop: () => void = () => {};
+
+    afterEach(() => {
+      stop();
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const writeRules = (file: string, ruleSet: unknown) => fs.writeFileSync(file, JSON.stringify(ruleSet));
+
+    it('should report unreadable and malformed files', () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+      const file = path.join(directory, 'rules.json');
+
+      expect(() => loadRuleSet(file)).toThrow(FraudRulesError);
+
+      fs.writeFileSync(file, '{ not json');
+      expect(() => loadRuleSet(file)).toThrow(/Invalid fraud rules in .*rules\.json/);
+    });
+
+    it('should hot-reload valid changes and keep going after invalid ones', async () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+      const file = path.join(directory, 'rules.json');
+      writeRules(file, validRuleSet);
+
+      const reloaded: FraudRuleSet[] = [];
+      const errors: FraudRulesError[] = [];
+      stop = watchRuleSet(file, ruleSet => reloaded.push(ruleSet), err => errors.push(err), 20);
+
+      // Give the poller a baseline before changing the file
+      await new Promise(resolve => setTimeout(resolve, 50));
+      fs.writeFileSync(file, '{ "version": 2 }');
+      fs.utimesSync(file, new Date(), new Date(Date.now() + 1000));
+      await vi.waitFor(() => expect(errors).toHaveLength(1));
+
+      writeRules(file, { ...validRuleSet, version: 'test-2' });
+      fs.utimesSync(file, new Date(), new Date(Date.now() + 2000));
+      await vi.waitFor(() => expect(reloaded.map(r => r.version)).toEqual(['test-2']));
+    });
+  });
+});
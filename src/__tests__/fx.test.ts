@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_FX_RATES, FxConverter, FxRatesError, loadFxRates, parseFxRates } from '../fx';
+import { GatewayError } from '../errors';
+
+const rates = {
+  base: 'USD',
+  asOf: '2024-06-03',
+  rates: { USD: 1, EUR: 0.8, JPY: 150, KWD: 0.3 }
+};
+
+describe('FX rates', () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    if (directory) fs.rmSync(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('should reject unknown currencies and a base rate other than 1', () => {
+    expect(() => parseFxRates({ ...rates, rates: { ...rates.rates, XYZ: 2 } }, 'test')).toThrow(FxRatesError);
+    expect(() => parseFxRates({ ...rates, rates: { ...rates.rates, USD: 1.1 } }, 'test')).toThrow(
+      'the base currency USD must have a rate of 1'
+    );
+    expect(() => parseFxRates({ ...rates, rates: { ...rates.rates, EUR: 0 } }, 'test')).toThrow(FxRatesError);
+  });
+
+  it('should load rates from a file and report the file on errors', () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fx-rates-'));
+    const ratesPath = path.join(directory, 'rates.json');
+    fs.writeFileSync(ratesPath, JSON.stringify(rates));
+
+    expect(loadFxRates(ratesPath).rates.JPY).toBe(150);
+
+    fs.writeFileSync(ratesPath, '{ not json');
+    expect(() => loadFxRates(ratesPath)).toThrow(`Invalid FX rates in ${ratesPath}`);
+  });
+
+  it('should ship default rates for every supported currency in USD', () => {
+    expect(DEFAULT_FX_RATES.base).toBe('USD');
+    expect(DEFAULT_FX_RATES.rates.USD).toBe(1);
+  });
+});
+
+describe('FxConverter', () => {
+  const converter = new FxConverter(parseFxRates(rates, 'test'));
+
+  it('should convert across currencies with different exponents', () => {
+    expect(converter.toBase(15000, 'JPY')).toBe(10000);
+    expect(converter.toBase(3000, 'KWD')).toBe(1000);
+    expect(converter.convert(1000, 'USD', 'JPY')).toBe(1500);
+    expect(converter.convert(1000, 'EUR', 'KWD')).toBe(3750);
+    expect(converter.convert(1234, 'EUR', 'EUR')).toBe(1234);
+  });
+
+  it('should fail with fx_rate_unavailable when a rate is missing', () => {
+    expect(() => converter.toBase(1000, 'GBP')).toThrow(GatewayError);
+    expect(() => converter.toBase(1000, 'GBP')).toThrow('No FX rate for GBP in the rates as of 2024-06-03');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { IdempotencyStore, fingerprintRequest } from '../idempotency';
+
+describe('IdempotencyStore', () => {
+  const fingerprint = fingerprintRequest({ amount: 1000, currency: 'USD' });
+
+  it('should report new keys and mark them in flight', () => {
+    const store = new IdempotencyStore(1000);
+
+    expect(store.begin('key-1', fingerprint, 0)).toEqual({ kind: 'new' });
+    expect(store.begin('key-1', fingerprint, 0)).toEqual({ kind: 'in_flight' });
+  });
+
+  it('should replay completed responses', () => {
+    const store = new IdempotencyStore(1000);
+    store.begin('key-1', fingerprint, 0);
+    store.complete('key-1', 200, '{"status":"success"}');
+
+    expect(store.begin('key-1', fingerprint, 10)).toEqual({
+      kind: 'replay',
+      statusCode: 200,
+      body: '{"status":"success"}'
+    });
+  });
+
+  it('should detect a different body under the same key', () => {
+    const store = new IdempotencyStore(1000);
+    store.begin('key-1', fingerprint, 0);
+    store.complete('key-1', 200, '{}');
+
+    const other = fingerprintRequest({ amount: 2000, currency: 'USD' });
+    expect(store.begin('key-1', other, 10)).toEqual({ kind: 'mismatch' });
+  });
+
+  it('should forget keys after the ttl', () => {
+    const store = new IdempotencyStore(1000);
+    store.begin('key-1', fingerprint, 0);
+    store.complete('key-1', 200, '{}');
+
+    expect(store.begin('key-1', fingerprint, 1000)).toEqual({ kind: 'new' });
+  });
+
+  it('should forget released keys', () => {
+    const store = new IdempotencyStore(1000);
+    store.begin('key-1', fingerprint, 0);
+    store.release('key-1');
+
+    expect(store.begin('key-1', fingerprint, 0)).toEqual({ kind: 'new' });
+  });
+
+  it('should fingerprint bodies independently of key order', () => {
+    expect(fingerprintRequest({ amount: 1000, currency: 'USD' })).toBe(
+      fingerprintRequest({ currency: 'USD', amount: 1000 })
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { InboundWebhooks } from '../inboundWebhooks';
+import { StripeWebhookHandler } from '../providerWebhooks';
+import { InMemoryProviderEventRepository, ProviderEventRepository } from '../providerEventRepository';
+import { SqliteProviderEventRepository } from '../sqliteProviderEventRepository';
+import { InMemoryTransactionRepository } from '../transactionRepository';
+import { PaymentService } from '../paymentService';
+import { Transaction } from '../types';
+
+const now = new Date('2024-01-15T10:30:00.000Z');
+
+const buildTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'txn-1',
+  timestamp: now,
+  request: { amount: 1000, currency: 'USD', source: 'tok_test', email: 'user@example.com' },
+  response: { transactionId: 'txn-1', provider: 'stripe', status: 'success', riskScore: 0, explanation: 'ok' },
+  status: 'succeeded',
+  providerReference: 'ch_1',
+  attempts: [],
+  authorizedAmount: 1000,
+  capturedAmount: 1000,
+  refundedAmount: 0,
+  timeline: [{ at: now, status: 'succeeded', note: 'Charged via stripe' }],
+  ...overrides
+});
+
+const stripeDelivery = (id: string, type: string, object: object) => {
+  const body = Buffer.from(JSON.stringify({ id, type, created: now.getTime() / 1000, data: { object } }));
+  const timestamp = now.getTime() / 1000;
+  const signature = crypto.createHmac('sha256', 'whsec_stripe').update(`${timestamp}.${body}`).digest('hex');
+  return { body, headers: { 'stripe-signature': `t=${timestamp},v1=${signature}` } };
+};
+
+const dispute = (status: string, charge = 'ch_1') => ({ id: 'dp_1', charge, amount: 1000, reason: 'fraudulent', status });
+
+const implementations: [string, () => ProviderEventRepository][] = [
+  ['InMemoryProviderEventRepository', () => new InMemoryProviderEventRepository()],
+  ['SqliteProviderEventRepository', () => new SqliteProviderEventRepository(':memory:')]
+];
+
+describe.each(implementations)('InboundWebhooks with %s', (_name, create) => {
+  let transactions: InMemoryTransactionRepository;
+  let inbound: InboundWebhooks;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    transactions = new InMemoryTransactionRepository();
+    await transactions.save(buildTransaction());
+    const paymentService = new PaymentService({ repository: transactions });
+    inbound = new InboundWebhooks([new StripeWebhookHandler('whsec_stripe')], create(), paymentService);
+  });
+
+  it('should apply an event once and acknowledge redeliveries as duplicates', async () => {
+    const { body, headers } = stripeDelivery('evt_1', 'charge.dispute.created', dispute('needs_response'));
+
+    const first = await inbound.receive('stripe', body, headers, now);
+    const again = await inbound.receive('stripe', body, headers, now);
+
+    expect(first).toMatchObject({ duplicate: false, record: { status: 'applied', transactionId: 'txn-1' } });
+    expect(again).toMatchObject({ duplicate: true, record: { id: first.record.id } });
+    const transaction = await transactions.findById('txn-1');
+    expect(transaction?.status).toBe('disputed');
+    expect(transaction?.dispute).toMatchObject({ id: 'dp_1', amount: 1000, reason: 'fraudulent' });
+    expect(transaction?.timeline.filter(entry => entry.status === 'disputed')).toHaveLength(1);
+  });
+
+  it('should park events for unknown transactions until they are replayed', async () => {
+    const { body, headers } = stripeDelivery('evt_1', 'charge.dispute.created', dispute('needs_response', 'ch_late'));
+
+    const { record } = await inbound.receive('stripe', body, headers, now);
+    expect(record).toMatchObject({ status: 'parked', note: 'No stripe transaction with reference ch_late' });
+    expect(await inbound.list({ status: 'parked', limit: 10 })).toEqual([record]);
+
+    await transactions.save(buildTransaction({ id: 'txn-2', providerReference: 'ch_late' }));
+    const replayed = await inbound.replay(record.id);
+
+    expect(replayed).toMatchObject({ status: 'applied', transactionId: 'txn-2' });
+    expect(replayed.note).toBeUndefined();
+    await expect(inbound.replay(record.id)).rejects.toMatchObject({ statusCode: 409, code: 'not_parked' });
+    await expect(inbound.replay('missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should record events that conflict with the transaction state as ignored', async () => {
+    const { body, headers } = stripeDelivery('evt_1', 'charge.dispute.closed', dispute('won'));
+
+    const { record } = await inbound.receive('stripe', body, headers, now);
+
+    expect(record).toMatchObject({ status: 'ignored', note: 'A succeeded transaction has no open dispute' });
+    expect((await transactions.findById('txn-1'))?.status).toBe('succeeded');
+  });
+
+  it('should reject badly signed and unconfigured webhooks without recording them', async () => {
+    const { body } = stripeDelivery('evt_1', 'charge.dispute.created', dispute('needs_response'));
+
+    await expect(inbound.receive('stripe', body, { 'stripe-signature': `t=${now.getTime() / 1000},v1=00` }, now)).rejects.toMatchObject({
+      statusCode: 401,
+      code: 'invalid_signature'
+    });
+    await expect(inbound.receive('paypal', body, {}, now)).rejects.toMatchObject({ statusCode: 404, code: 'webhook_not_configured' });
+    expect(console.warn).toHaveBeenCalledWith('Rejected stripe webhook: invalid signature');
+    expect(await inbound.list({ limit: 10 })).toEqual([]);
+  });
+});
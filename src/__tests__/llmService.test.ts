@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { LLMService } from '../llmService';
+import { ExplainedOutcome, LLMService } from '../llmService';
 import { ChargeRequest } from '../types';
 
 // Mock OpenAI
@@ -21,6 +21,9 @@ describe('LLMService', () => {
     source: 'tok_test',
     email: 'user@example.com'
   };
+  const viaStripe: ExplainedOutcome = { status: 'success', provider: 'stripe' };
+  const viaPaypal: ExplainedOutcome = { status: 'success', provider: 'paypal' };
+  const blocked: ExplainedOutcome = { status: 'blocked' };
 
   beforeEach(() => {
     llmService = new LLMService();
@@ -32,8 +35,7 @@ describe('LLMService', () => {
       const explanation = await llmService.generateExplanation(
         mockRequest,
         0.15,
-        'stripe',
-        false
+        viaStripe
       );
 
       expect(explanation).toContain('Payment routed to stripe');
@@ -46,8 +48,7 @@ describe('LLMService', () => {
       const explanation = await llmService.generateExplanation(
         mockRequest,
         0.75,
-        null,
-        true
+        blocked
       );
 
       expect(explanation).toContain('Payment blocked');
@@ -59,8 +60,7 @@ describe('LLMService', () => {
       const explanation = await llmService.generateExplanation(
         mockRequest,
         0.4,
-        'paypal',
-        false
+        viaPaypal
       );
 
       expect(explanation).toContain('Payment routed to paypal');
@@ -68,37 +68,92 @@ describe('LLMService', () => {
       expect(explanation).toContain('0.40');
     });
 
+    it('should name the risk factors in fallback explanations', async () => {
+      const explanation = await llmService.generateExplanation(mockRequest, 0.7, blocked, [
+        { code: 'large_amount', ruleId: 'large_amount', description: 'Amount over $500', contribution: 0.3 },
+        { code: 'suspicious_domain', ruleId: 'suspicious_domain', contribution: 0.4 }
+      ]);
+
+      expect(explanation).toBe('Payment blocked due to high risk score (0.70): Amount over $500, suspicious domain.');
+    });
+
+    it('should describe what the provider did with an approved charge', async () => {
+      const declined = await llmService.generateExplanation(mockRequest, 0.1, {
+        status: 'declined',
+        provider: 'stripe',
+        declineCode: 'card_declined'
+      });
+      const failed = await llmService.generateExplanation(mockRequest, 0.1, {
+        status: 'failed',
+        errorCode: 'timeout'
+      });
+      const authorized = await llmService.generateExplanation(mockRequest, 0.1, {
+        status: 'authorized',
+        provider: 'paypal'
+      });
+
+      expect(declined).toBe('Payment declined by stripe (card_declined) for $10.00 transaction with low risk score (0.10).');
+      expect(failed).toBe('Payment failed at every provider (timeout) for $10.00 transaction with low risk score (0.10).');
+      expect(authorized).toBe('Payment authorized via paypal with low risk score (0.10) for $10.00 transaction.');
+    });
+
+    it('should list risk factors for approved payments', async () => {
+      const explanation = await llmService.generateExplanation(mockRequest, 0.3, viaPaypal, [
+        { code: 'large_amount', ruleId: 'large_amount', description: 'Amount over $500', contribution: 0.3 }
+      ]);
+
+      expect(explanation).toContain('Risk factors: Amount over $500');
+    });
+
     it('should cache explanations', async () => {
       const explanation1 = await llmService.generateExplanation(
         mockRequest,
         0.15,
-        'stripe',
-        false
+        viaStripe
       );
 
       const explanation2 = await llmService.generateExplanation(
         mockRequest,
         0.15,
-        'stripe',
-        false
+        viaStripe
       );
 
       expect(explanation1).toBe(explanation2);
     });
 
+    it('should explain held charges and not reuse the text once they are approved', async () => {
+      const held = await llmService.generateExplanation(mockRequest, 0.4, { status: 'pending_review' });
+      const approved = await llmService.generateExplanation(mockRequest, 0.4, viaStripe);
+
+      expect(held).toBe('Payment held for manual review due to moderate risk score (0.40) for $10.00 transaction.');
+      expect(approved).toBe('Payment routed to stripe with moderate risk score (0.40) for $10.00 transaction.');
+    });
+
+    it('should not reuse an explanation for a charge that ended up elsewhere', async () => {
+      await llmService.generateExplanation(mockRequest, 0.15, viaStripe);
+
+      // Same amount and score, but failed over to paypal
+      expect(await llmService.generateExplanation(mockRequest, 0.15, viaPaypal)).toContain('routed to paypal');
+      expect(
+        await llmService.generateExplanation(mockRequest, 0.15, {
+          status: 'declined',
+          provider: 'stripe',
+          declineCode: 'card_declined'
+        })
+      ).toContain('declined by stripe');
+    });
+
     it('should generate different explanations for different inputs', async () => {
       const explanation1 = await llmService.generateExplanation(
         mockRequest,
         0.15,
-        'stripe',
-        false
+        viaStripe
       );
 
       const explanation2 = await llmService.generateExplanation(
         mockRequest,
         0.75,
-        null,
-        true
+        blocked
       );
 
       expect(explanation1).not.toBe(explanation2);
@@ -113,33 +168,37 @@ describe('LLMService', () => {
       const explanation = await llmService.generateExplanation(
         highAmountRequest,
         0.15,
-        'stripe',
-        false
+        viaStripe
       );
 
       expect(explanation).toContain('$5000.00');
     });
 
+    it('should format amounts with the currency exponent', async () => {
+      const yen = await llmService.generateExplanation({ ...mockRequest, currency: 'JPY' }, 0.15, viaStripe);
+      const dinar = await llmService.generateExplanation({ ...mockRequest, currency: 'KWD' }, 0.15, viaStripe);
+
+      expect(yen).toContain('for ¥1000 transaction');
+      expect(dinar).toContain('for 1.000 KWD transaction');
+    });
+
     it('should handle different risk levels', async () => {
       const lowRiskExplanation = await llmService.generateExplanation(
         mockRequest,
         0.1,
-        'stripe',
-        false
+        viaStripe
       );
 
       const moderateRiskExplanation = await llmService.generateExplanation(
         mockRequest,
         0.4,
-        'paypal',
-        false
+        viaPaypal
       );
 
       const highRiskExplanation = await llmService.generateExplanation(
         mockRequest,
         0.8,
-        null,
-        true
+        blocked
       );
 
       expect(lowRiskExplanation).toContain('low risk');
@@ -176,14 +235,101 @@ describe('LLMService', () => {
       const explanation = await llmService.generateExplanation(
         mockRequest,
         0.15,
-        'stripe',
-        false
+        viaStripe
       );
 
       expect(mockCreate).toHaveBeenCalled();
       expect(explanation).toBe('AI generated explanation');
     });
 
+    it('should include the risk factors in the prompt', async () => {
+      const mockOpenAI = await import('openai');
+      const mockCreate = vi.fn().mockResolvedValue({
+        choices: [{ message: { content: 'AI generated explanation' } }]
+      });
+
+      (mockOpenAI.default as any).mockImplementation(() => ({
+        chat: {
+          completions: {
+            create: mockCreate
+          }
+        }
+      }));
+
+      llmService = new LLMService();
+
+      await llmService.generateExplanation(mockRequest, 0.3, viaPaypal, [
+        { code: 'large_amount', ruleId: 'large_amount', description: 'Amount over $500', contribution: 0.3 }
+      ]);
+
+      const prompt = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(prompt).toContain('Risk Factors: large_amount (Amount over $500, +0.30)');
+    });
+
+    it('should describe the charge to OpenAI without customer details', async () => {
+      const mockOpenAI = await import('openai');
+      const mockCreate = vi.fn().mockResolvedValue({
+        choices: [{ message: { content: 'AI generated explanation' } }]
+      });
+
+      (mockOpenAI.default as any).mockImplementation(() => ({
+        chat: {
+          completions: {
+            create: mockCreate
+          }
+        }
+      }));
+
+      llmService = new LLMService();
+
+      await llmService.generateExplanation(
+        { ...mockRequest, email: 'jane.doe@example.com', card: { brand: 'visa', last4: '4242' } },
+        0.4,
+        viaStripe,
+        [{ code: 'denylisted_email', listEntryId: 'le_1', description: 'Chargeback from jane.doe@example.com', contribution: 0.4 }]
+      );
+
+      const prompt = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(prompt).toContain('Card: visa');
+      expect(prompt).toContain('Risk Factors: denylisted_email (denylisted email, +0.40)');
+      expect(prompt).not.toContain('jane.doe');
+      expect(prompt).not.toContain('tok_test');
+      expect(prompt).not.toContain('4242');
+      expect(prompt).not.toContain('le_1');
+    });
+
+    it('should leave list entry reasons out of fallback explanations', async () => {
+      const explanation = await llmService.generateExplanation(
+        { ...mockRequest, email: 'jane.doe@example.com' },
+        1,
+        blocked,
+        [{ code: 'denylisted_email', listEntryId: 'le_1', description: 'Chargeback from jane.doe@example.com', contribution: 1 }],
+        false
+      );
+
+      expect(explanation).toBe('Payment blocked due to high risk score (1.00): denylisted email.');
+    });
+
+    it('should not call OpenAI when the model is turned off', async () => {
+      const mockOpenAI = await import('openai');
+      const mockCreate = vi.fn();
+
+      (mockOpenAI.default as any).mockImplementation(() => ({
+        chat: {
+          completions: {
+            create: mockCreate
+          }
+        }
+      }));
+
+      llmService = new LLMService();
+
+      const explanation = await llmService.generateExplanation(mockRequest, 0.15, viaStripe, [], false);
+
+      expect(mockCreate).not.toHaveBeenCalled();
+      expect(explanation).toContain('Payment routed to stripe');
+    });
+
     it('should fallback to default explanation on OpenAI error', async () => {
       const mockOpenAI = await import('openai');
       const mockCreate = vi.fn().mockRejectedValue(new Error('API Error'));
@@ -201,8 +347,7 @@ describe('LLMService', () => {
       const explanation = await llmService.generateExplanation(
         mockRequest,
         0.15,
-        'stripe',
-        false
+        viaStripe
       );
 
       expect(explanation).toContain('Payment routed to stripe');
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { Merchants, hashApiKey } from '../merchants';
+import { InMemoryMerchantRepository, MerchantRepository } from '../merchantRepository';
+import { SqliteMerchantRepository } from '../sqliteMerchantRepository';
+
+const now = new Date('2024-01-15T10:30:00.000Z');
+const later = (ms: number) => new Date(now.getTime() + ms);
+
+const implementations: [string, () => MerchantRepository][] = [
+  ['InMemoryMerchantRepository', () => new InMemoryMerchantRepository()],
+  ['SqliteMerchantRepository', () => new SqliteMerchantRepository(':memory:')]
+];
+
+describe.each(implementations)('Merchants with %s', (_name, create) => {
+  it('should store only a hash of each issued key', async () => {
+    const repository = create();
+    const merchants = new Merchants(repository);
+
+    const { merchant, keys } = await merchants.create({ id: 'm_1', name: 'Gift cards' }, now);
+
+    expect(merchant).toEqual({ id: 'm_1', name: 'Gift cards', createdAt: now });
+    expect(keys.map(key => key.type)).toEqual(['secret', 'publishable']);
+    const stored = await repository.findKey(keys[0].id);
+    expect(stored?.hash).toBe(hashApiKey(keys[0].key));
+    expect(JSON.stringify(stored)).not.toContain(keys[0].key);
+    await expect(merchants.create({ id: 'm_1', name: 'Again' })).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'merchant_exists'
+    });
+  });
+
+  it('should authenticate bearer keys as their merchant', async () => {
+    const merchants = new Merchants(create(), 'admin_key');
+    const { merchant, keys } = await merchants.create({ name: 'Gift cards' }, now);
+
+    expect(await merchants.authenticate(`Bearer ${keys[0].key}`, now)).toEqual({
+      role: 'secret',
+      merchant,
+      keyId: keys[0].id
+    });
+    expect(await merchants.authenticate(`bearer ${keys[1].key}`, now)).toMatchObject({ role: 'publishable' });
+    expect(await merchants.authenticate('Bearer admin_key', now)).toEqual({ role: 'admin' });
+
+    await expect(merchants.authenticate(undefined)).rejects.toMatchObject({ statusCode: 401, code: 'missing_api_key' });
+    await expect(merchants.authenticate(`Basic ${keys[0].key}`)).rejects.toMatchObject({ code: 'missing_api_key' });
+    await expect(merchants.authenticate('Bearer sk_unknown')).rejects.toMatchObject({ statusCode: 401, code: 'invalid_api_key' });
+  });
+
+  it('should keep a rotated key working until its grace period ends', async () => {
+    const merchants = new Merchants(create());
+    const { merchant, keys } = await merchants.create({ name: 'Gift cards' }, now);
+
+    const replacement = await merchants.rotateKey(merchant.id, keys[0].id, 60000, now);
+
+    expect(replacement).toMatchObject({ type: 'secret', merchantId: merchant.id });
+    expect(await merchants.authenticate(`Bearer ${keys[0].key}`, later(59999))).toMatchObject({ role: 'secret' });
+    await expect(merchants.authenticate(`Bearer ${keys[0].key}`, later(60000))).rejects.toMatchObject({ statusCode: 401 });
+    expect(await merchants.authenticate(`Bearer ${replacement.key}`, later(60000))).toMatchObject({ role: 'secret' });
+    await expect(merchants.rotateKey(merchant.id, keys[0].id, 0, later(60000))).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'api_key_inactive'
+    });
+  });
+
+  it('should revoke keys but never the last active secret key', async () => {
+    const merchants = new Merchants(create());
+    const { merchant, keys } = await merchants.create({ name: 'Gift cards' }, now);
+    const other = await merchants.create({ name: 'Other' }, now);
+
+    const revoked = await merchants.revokeKey(merchant.id, keys[1].id, now);
+    expect(revoked).toMatchObject({ id: keys[1].id, revokedAt: now });
+    expect(revoked).not.toHaveProperty('hash');
+    await expect(merchants.authenticate(`Bearer ${keys[1].key}`, now)).rejects.toMatchObject({ statusCode: 401 });
+
+    await expect(merchants.revokeKey(merchant.id, keys[0].id, now)).rejects.toMatchObject({ code: 'last_secret_key' });
+    await expect(merchants.revokeKey(other.merchant.id, keys[0].id, now)).rejects.toMatchObject({
+      statusCode: 404,
+      code: 'api_key_not_found'
+    });
+    expect((await merchants.listKeys(merchant.id)).map(key => key.id)).toEqual(keys.map(key => key.id));
+  });
+
+  it('should resolve merchant settings over the gateway defaults', async () => {
+    const merchants = new Merchants(create());
+    await merchants.create({ id: 'm_1', name: 'Gift cards' }, now);
+
+    expect(await merchants.getSettings('m_1')).toEqual({ merchantId: 'm_1', settings: {} });
+    await merchants.updateSettings(null, { blockThreshold: 0.8, llmExplanations: false }, 'ops@example.com', now);
+    const record = await merchants.updateSettings('m_1', { blockThreshold: 0.6, currencies: ['EUR'] }, 'ops@example.com', now);
+
+    expect(record).toEqual({
+      merchantId: 'm_1',
+      settings: { blockThreshold: 0.6, currencies: ['EUR'] },
+      updatedAt: now,
+      updatedBy: 'ops@example.com'
+    });
+    expect(await merchants.getSettings('m_1')).toEqual(record);
+    expect(await merchants.settingsFor('m_1')).toEqual({ blockThreshold: 0.6, currencies: ['EUR'], llmExplanations: false });
+    expect(await merchants.settingsFor('m_2')).toEqual({ blockThreshold: 0.8, llmExplanations: false });
+    expect(await merchants.settingsFor()).toEqual({ blockThreshold: 0.8, llmExplanations: false });
+
+    // A new set replaces the old one, so dropped fields are inherited again
+    await merchants.updateSettings('m_1', { currencies: ['EUR'] }, 'ops@example.com', now);
+    expect((await merchants.settingsFor('m_1')).blockThreshold).toBe(0.8);
+
+    await expect(merchants.updateSettings('m_2', {}, 'ops@example.com')).rejects.toMatchObject({
+      statusCode: 404,
+      code: 'merchant_not_found'
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  areaUnderCurve,
+  evaluateModel,
+  formatReport,
+  metricsAt,
+  parseLabelledCharges,
+  scoreCharges
+} from '../modelEvaluation';
+import { FraudDetector } from '../fraudDetection';
+import { VelocityTracker } from '../velocityTracker';
+import { main } from '../scoreModel';
+
+const line = (fields: Record<string, unknown>) =>
+  JSON.stringify({ amount: 1000, currency: 'USD', source: 'tok_test', email: 'user@gmail.com', label: 0, ...fields });
+
+describe('parseLabelledCharges', () => {
+  it('should read one labelled charge per line and skip blank lines', () => {
+    const charges = parseLabelledCharges(
+      [line({ label: 1 }), '', line({ label: false, timestamp: '2024-01-15T10:30:00.000Z' })].join('\n'),
+      'data.jsonl'
+    );
+
+    expect(charges).toEqual([
+      { request: { amount: 1000, currency: 'USD', source: 'tok_test', email: 'user@gmail.com' }, fraud: true },
+      {
+        request: { amount: 1000, currency: 'USD', source: 'tok_test', email: 'user@gmail.com' },
+        fraud: false,
+        at: new Date('2024-01-15T10:30:00.000Z')
+      }
+    ]);
+  });
+
+  it('should point at the offending line', () => {
+    expect(() => parseLabelledCharges([line({}), line({ label: undefined })].join('\n'), 'data.jsonl')).toThrow(
+      /^data\.jsonl:2: "label" is required/
+    );
+    expect(() => parseLabelledCharges('{oops', 'data.jsonl')).toThrow(/^data\.jsonl:1: /);
+  });
+});
+
+describe('metrics', () => {
+  const scored = [
+    { score: 0.9, fraud: true },
+    { score: 0.6, fraud: false },
+    { score: 0.6, fraud: true },
+    { score: 0.2, fraud: false }
+  ];
+
+  it('should compute precision, recall and block rate at a threshold', () => {
+    expect(metricsAt(scored, 0.5)).toEqual({
+      threshold: 0.5,
+      precision: 2 / 3,
+      recall: 1,
+      blockRate: 0.75,
+      truePositives: 2,
+      falsePositives: 1,
+      falseNegatives: 0
+    });
+    expect(metricsAt(scored, 0.95)).toMatchObject({ precision: null, recall: 0, blockRate: 0 });
+  });
+
+  it('should compute AUC with ties counted as half', () => {
+    expect(areaUnderCurve(scored)).toBeCloseTo(0.875);
+    expect(areaUnderCurve([{ score: 0.1, fraud: true }, { score: 0.9, fraud: false }])).toBe(0);
+    expect(areaUnderCurve([{ score: 0.1, fraud: true }])).toBeNull();
+  });
+
+  it('should format a readable report', () => {
+    const report = evaluateModel('test-1', scored, [0.5]);
+    expect(formatReport(report)).toBe(
+      [
+        'Model: test-1',
+        'Charges: 4 (2 fraudulent)',
+        'AUC: 0.8750',
+        '',
+        'threshold  precision  recall   block rate',
+        '0.50       66.7%      100.0%   75.0%'
+      ].join('\n')
+    );
+  });
+});
+
+describe('scoreCharges', () => {
+  it('should replay charges in order so velocity features build up', () => {
+    const detector = new FraudDetector(undefined, new VelocityTracker(60 * 60 * 1000));
+    const request = { amount: 1000, currency: 'USD', source: 'tok_shared', email: 'user@gmail.com' };
+    const charges = ['a', 'b', 'c', 'd'].map(name => ({ request: { ...request, email: `${name}@gmail.com` }, fraud: false }));
+
+    const scores = scoreCharges(detector, charges, 0).map(charge => charge.score);
+
+    expect(scores).toEqual([0, 0, 0, 0.4]);
+  });
+});
+
+describe('score-model CLI', () => {
+  let directory: string;
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should print a JSON report for a labelled file', () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'score-model-'));
+    const input = path.join(directory, 'labelled.jsonl');
+    fs.writeFileSync(input, [line({ label: 0 }), line({ email: 'x@test.com', amount: 200000, label: 1 })].join('\n'));
+    const output: string[] = [];
+
+    expect(main([input, '--thresholds', '0.5', '--json'], text => output.push(text))).toBe(0);
+
+    expect(JSON.parse(output[0])).toMatchObject({
+      modelVersion: 'default-2',
+      charges: 2,
+      fraudulent: 1,
+      auc: 1,
+      thresholds: [{ threshold: 0.5, precision: 1, recall: 1, blockRate: 0.5 }]
+    });
+  });
+
+  it('should print usage for bad arguments', () => {
+    const output: string[] = [];
+    expect(main(['--thresholds', '2', 'file.jsonl'], text => output.push(text))).toBe(2);
+    expect(output[0]).toContain('Usage: score-model');
+  });
+});
@@ -1,16 +1,35 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PaymentService } from '../paymentService';
 import { ChargeRequest } from '../types';
+import { StripeAdapter } from '../providerAdapters';
+import { loadConfig } from '../config';
+import { ShadowEvaluator } from '../shadowEvaluator';
+import { ProviderRouter } from '../providerRouter';
+import { parseRoutingRules } from '../routingRules';
+import { BUILT_IN_PROVIDERS, ProviderRegistry } from '../providerRegistry';
+import { WebhookDispatcher } from '../webhooks';
+import { Merchants } from '../merchants';
+import { InMemoryMerchantRepository } from '../merchantRepository';
+import { CardVault } from '../vault';
+import { InMemoryVaultRepository } from '../vaultRepository';
 
 // Mock dependencies
 const mockCalculateRiskScore = vi.fn();
 const mockShouldBlock = vi.fn();
+const mockShouldReview = vi.fn();
+const mockRiskFactors = vi.fn();
 const mockGenerateExplanation = vi.fn();
 
 vi.mock('../fraudDetection', () => ({
   FraudDetector: vi.fn().mockImplementation(() => ({
+    assessRisk: async (request: ChargeRequest) => ({
+      score: mockCalculateRiskScore(request),
+      factors: mockRiskFactors(request)
+    }),
     calculateRiskScore: mockCalculateRiskScore,
-    shouldBlock: mockShouldBlock
+    recordCharge: vi.fn(),
+    shouldBlock: mockShouldBlock,
+    shouldReview: mockShouldReview
   }))
 }));
 
@@ -35,6 +54,8 @@ describe('PaymentService', () => {
     // Default mock values
     mockCalculateRiskScore.mockReturnValue(0.15);
     mockShouldBlock.mockReturnValue(false);
+    mockShouldReview.mockReturnValue(false);
+    mockRiskFactors.mockReturnValue([]);
     mockGenerateExplanation.mockResolvedValue('Test explanation');
   });
 
@@ -104,6 +125,28 @@ describe('PaymentService', () => {
       expect(response.riskScore).toBeGreaterThanOrEqual(0.5);
     });
 
+    it('should return and store the risk factors behind the score', async () => {
+      const factors = [
+        { code: 'large_amount', ruleId: 'large_amount', description: 'Amount over $500', contribution: 0.3 },
+        { code: 'suspicious_domain', ruleId: 'suspicious_domain', contribution: 0.4 }
+      ];
+      mockCalculateRiskScore.mockReturnValue(0.7);
+      mockRiskFactors.mockReturnValue(factors);
+      mockShouldBlock.mockReturnValue(true);
+
+      const response = await paymentService.processCharge(mockRequest);
+
+      expect(response.riskFactors).toEqual(factors);
+      expect(mockGenerateExplanation).toHaveBeenCalledWith(
+        mockRequest,
+        0.7,
+        expect.objectContaining({ status: 'blocked' }),
+        factors,
+        true
+      );
+      expect((await paymentService.getTransaction(response.transactionId))?.response.riskFactors).toEqual(factors);
+    });
+
     it('should generate unique transaction IDs', async () => {
       const response1 = await paymentService.processCharge(mockRequest);
       const response2 = await paymentService.processCharge(mockRequest);
@@ -111,6 +154,41 @@ describe('PaymentService', () => {
       expect(response1.transactionId).not.toBe(response2.transactionId);
     });
 
+    it('should report provider declines with the decline code', async () => {
+      const response = await paymentService.processCharge({
+        ...mockRequest,
+        source: 'tok_insufficient_funds'
+      });
+
+      expect(response.status).toBe('declined');
+      expect(response.provider).toBe('stripe');
+      expect(response.declineCode).toBe('insufficient_funds');
+      expect(mockGenerateExplanation).toHaveBeenCalledWith(
+        expect.anything(),
+        0.15,
+        expect.objectContaining({ status: 'declined', provider: 'stripe', declineCode: 'insufficient_funds' }),
+        [],
+        true
+      );
+    });
+
+    it('should mark the charge failed when the provider errors', async () => {
+      const response = await paymentService.processCharge({
+        ...mockRequest,
+        source: 'tok_timeout'
+      });
+
+      expect(response.status).toBe('failed');
+      expect(response.errorCode).toBe('timeout');
+    });
+
+    it('should store the provider reference for successful charges', async () => {
+      await paymentService.processCharge(mockRequest);
+
+      const [transaction] = await paymentService.getTransactions();
+      expect(transaction.providerReference).toMatch(/^ch_/);
+    });
+
     it('should include explanation in response', async () => {
       const response = await paymentService.processCharge(mockRequest);
 
@@ -120,16 +198,687 @@ describe('PaymentService', () => {
     });
   });
 
+  describe('provider failover', () => {
+    const failoverConfig = { ...loadConfig(), circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 } };
+
+    it('should fail over to paypal when stripe is unavailable', async () => {
+      const response = await paymentService.processCharge({
+        ...mockRequest,
+        source: 'tok_stripe_unavailable'
+      });
+
+      expect(response.status).toBe('success');
+      expect(response.provider).toBe('paypal');
+
+      const [transaction] = await paymentService.getTransactions();
+      expect(transaction.attempts).toHaveLength(2);
+      expect(transaction.attempts[0]).toMatchObject({
+        provider: 'stripe',
+        outcome: 'error',
+        errorCode: 'provider_unavailable'
+      });
+      expect(transaction.attempts[1]).toMatchObject({ provider: 'paypal', outcome: 'approved' });
+      expect(transaction.attempts[0].latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should not fail over on declines', async () => {
+      const response = await paymentService.processCharge({
+        ...mockRequest,
+        source: 'tok_decline'
+      });
+
+      expect(response.status).toBe('declined');
+      expect((await paymentService.getTransactions())[0].attempts).toHaveLength(1);
+    });
+
+    it('should fail when every provider errors', async () => {
+      const response = await paymentService.processCharge({
+        ...mockRequest,
+        source: 'tok_rate_limited'
+      });
+
+      expect(response.status).toBe('failed');
+      expect(response.errorCode).toBe('rate_limited');
+      expect((await paymentService.getTransactions())[0].attempts).toHaveLength(2);
+    });
+
+    it('should skip a provider whose circuit is open', async () => {
+      const service = new PaymentService({ config: failoverConfig });
+      const outage = { ...mockRequest, source: 'tok_stripe_unavailable' };
+
+      await service.processCharge(outage);
+      await service.processCharge(outage);
+      expect(service.getCircuitStates().stripe).toBe('open');
+
+      const response = await service.processCharge(mockRequest);
+      expect(response.provider).toBe('paypal');
+
+      const attempts = (await service.getTransactions())[2].attempts;
+      expect(attempts[0]).toMatchObject({ provider: 'stripe', outcome: 'skipped', errorCode: 'circuit_open' });
+      expect(attempts[1]).toMatchObject({ provider: 'paypal', outcome: 'approved' });
+    });
+
+    it('should skip providers that cannot take the currency', async () => {
+      const service = new PaymentService({
+        registry: new ProviderRegistry(BUILT_IN_PROVIDERS, ['adyen', 'braintree', 'stripe']),
+        router: new ProviderRouter(parseRoutingRules({ version: 'adyen-1', defaultProvider: 'adyen', rules: [] }, 'test'))
+      });
+
+      const eur = await service.processCharge({ ...mockRequest, currency: 'EUR' });
+      expect(eur.provider).toBe('adyen');
+
+      const jpy = await service.processCharge({ ...mockRequest, currency: 'JPY' });
+      expect(jpy.provider).toBe('stripe');
+      expect((await service.getTransaction(jpy.transactionId))?.attempts).toMatchObject([
+        { provider: 'adyen', outcome: 'skipped', errorCode: 'currency_not_supported' },
+        { provider: 'braintree', outcome: 'skipped', errorCode: 'currency_not_supported' },
+        { provider: 'stripe', outcome: 'approved' }
+      ]);
+    });
+
+    it('should fail cleanly when no enabled provider can take the charge', async () => {
+      const service = new PaymentService({ registry: new ProviderRegistry(BUILT_IN_PROVIDERS, ['adyen']) });
+
+      const response = await service.processCharge({ ...mockRequest, currency: 'JPY' });
+      expect(response).toMatchObject({ status: 'failed', errorCode: 'no_provider_available' });
+    });
+
+    it('should send a trial request once the cooldown has passed', async () => {
+      vi.useFakeTimers();
+      try {
+        const service = new PaymentService({ config: failoverConfig });
+        const outage = { ...mockRequest, source: 'tok_stripe_unavailable' };
+        await service.processCharge(outage);
+        await service.processCharge(outage);
+
+        vi.advanceTimersByTime(60000);
+        const response = await service.processCharge(mockRequest);
+
+        expect(response.provider).toBe('stripe');
+        expect(service.getCircuitStates().stripe).toBe('closed');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should release the trial when an adapter throws something unexpected', async () => {
+      vi.useFakeTimers();
+      try {
+        const service = new PaymentService({ config: failoverConfig });
+        const outage = { ...mockRequest, source: 'tok_stripe_unavailable' };
+        await service.processCharge(outage);
+        await service.processCharge(outage);
+
+        vi.advanceTimersByTime(60000);
+        const authorize = vi.spyOn(StripeAdapter.prototype, 'authorize').mockRejectedValueOnce(new TypeError('bug'));
+        await expect(service.processCharge(mockRequest)).rejects.toThrow('bug');
+        authorize.mockRestore();
+        expect(service.getCircuitStates().stripe).toBe('open');
+
+        vi.advanceTimersByTime(60000);
+        expect((await service.processCharge(mockRequest)).provider).toBe('stripe');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('refundCharge', () => {
+    it('should refund the full captured amount by default', async () => {
+      const charge = await paymentService.processCharge(mockRequest);
+
+      const refund = await paymentService.refundCharge(charge.transactionId, {});
+
+      expect(refund.status).toBe('succeeded');
+      expect(refund.amount).toBe(1000);
+      expect(refund.transactionId).toBe(charge.transactionId);
+      expect((await paymentService.getTransaction(charge.transactionId))?.refundableAmount).toBe(0);
+    });
+
+    it('should track partial refunds against the parent transaction', async () => {
+      const charge = await paymentService.processCharge(mockRequest);
+
+      await paymentService.refundCharge(charge.transactionId, { amount: 300 });
+      await paymentService.refundCharge(charge.transactionId, { amount: 200, reason: 'damaged' });
+
+      const details = (await paymentService.getTransaction(charge.transactionId))!;
+      expect(details.refunds).toHaveLength(2);
+      expect(details.refunds[1].reason).toBe('damaged');
+      expect(details.refundedAmount).toBe(500);
+      expect(details.refundableAmount).toBe(500);
+    });
+
+    it('should refuse to refund more than the remaining balance', async () => {
+      const charge = await paymentService.processCharge(mockRequest);
+      await paymentService.refundCharge(charge.transactionId, { amount: 600 });
+
+      await expect(
+        paymentService.refundCharge(charge.transactionId, { amount: 500 })
+      ).rejects.toMatchObject({ statusCode: 422, code: 'amount_exceeds_refundable' });
+    });
+
+    it('should refuse to refund blocked transactions', async () => {
+      mockCalculateRiskScore.mockReturnValue(0.75);
+      mockShouldBlock.mockReturnValue(true);
+      const charge = await paymentService.processCharge(mockRequest);
+
+      await expect(
+        paymentService.refundCharge(charge.transactionId, {})
+      ).rejects.toMatchObject({ statusCode: 409, code: 'not_refundable' });
+    });
+
+    it('should reject unknown transactions', async () => {
+      await expect(
+        paymentService.refundCharge('missing', {})
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('authorize and capture', () => {
+    const authOnly: ChargeRequest = { ...mockRequest, capture: false };
+
+    it('should leave the transaction authorized when capture is false', async () => {
+      const response = await paymentService.processCharge(authOnly);
+
+      expect(response.status).toBe('authorized');
+      const transaction = (await paymentService.getTransaction(response.transactionId))!;
+      expect(transaction.status).toBe('authorized');
+      expect(transaction.authorizedAmount).toBe(1000);
+      expect(transaction.capturedAmount).toBe(0);
+      expect(transaction.authorizationExpiresAt).toBeInstanceOf(Date);
+    });
+
+    it('should capture the full authorized amount', async () => {
+      const response = await paymentService.processCharge(authOnly);
+
+      const transaction = await paymentService.captureCharge(response.transactionId, {});
+
+      expect(transaction.status).toBe('succeeded');
+      expect(transaction.capturedAmount).toBe(1000);
+    });
+
+    it('should capture a partial amount and refund only what was captured', async () => {
+      const response = await paymentService.processCharge(authOnly);
+      await paymentService.captureCharge(response.transactionId, { amount: 600 });
+
+      await expect(
+        paymentService.refundCharge(response.transactionId, { amount: 700 })
+      ).rejects.toMatchObject({ statusCode: 422 });
+
+      const refund = await paymentService.refundCharge(response.transactionId, {});
+      expect(refund.amount).toBe(600);
+      expect((await paymentService.getTransaction(response.transactionId))?.status).toBe('refunded');
+    });
+
+    it('should reject capturing more than was authorized', async () => {
+      const response = await paymentService.processCharge(authOnly);
+
+      await expect(
+        paymentService.captureCharge(response.transactionId, { amount: 1001 })
+      ).rejects.toMatchObject({ statusCode: 422, code: 'amount_exceeds_authorized' });
+    });
+
+    it('should void an authorization and reject a later capture', async () => {
+      const response = await paymentService.processCharge(authOnly);
+
+      const voided = await paymentService.voidCharge(response.transactionId);
+      expect(voided.status).toBe('voided');
+
+      await expect(
+        paymentService.captureCharge(response.transactionId, {})
+      ).rejects.toMatchObject({ statusCode: 409, code: 'invalid_state_transition' });
+    });
+
+    it('should reject voiding a captured charge', async () => {
+      const response = await paymentService.processCharge(mockRequest);
+
+      await expect(
+        paymentService.voidCharge(response.transactionId)
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should record every state change on the timeline', async () => {
+      const response = await paymentService.processCharge(authOnly);
+      await paymentService.captureCharge(response.transactionId, { amount: 800 });
+      await paymentService.refundCharge(response.transactionId, { amount: 300 });
+      await paymentService.refundCharge(response.transactionId, {});
+
+      const { timeline } = (await paymentService.getTransaction(response.transactionId))!;
+      expect(timeline.map(event => event.status)).toEqual([
+        'authorized',
+        'succeeded',
+        'partially_refunded',
+        'refunded'
+      ]);
+      expect(timeline[0].note).toBe('Authorized via stripe');
+      expect(timeline[1].note).toBe('Captured 800 of 1000');
+      timeline.forEach(event => expect(event.at).toBeInstanceOf(Date));
+    });
+
+    it('should expire authorizations that are not captured in time', async () => {
+      const service = new PaymentService({
+        config: { ...loadConfig(), authorization: { expiryMs: 1000, sweepIntervalMs: 1000 } }
+      });
+      const response = await service.processCharge(authOnly);
+      const expiresAt = (await service.getTransaction(response.transactionId))!.authorizationExpiresAt!.getTime();
+
+      expect(await service.expireAuthorizations(expiresAt - 1)).toBe(0);
+      expect(await service.expireAuthorizations(expiresAt)).toBe(1);
+      expect((await service.getTransaction(response.transactionId))?.status).toBe('expired');
+
+      await expect(
+        service.captureCharge(response.transactionId, {})
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should expire stale authorizations on access', async () => {
+      vi.useFakeTimers();
+      try {
+        const service = new PaymentService({
+          config: { ...loadConfig(), authorization: { expiryMs: 1000, sweepIntervalMs: 1000 } }
+        });
+        const response = await service.processCharge(authOnly);
+
+        vi.advanceTimersByTime(1000);
+
+        await expect(
+          service.captureCharge(response.transactionId, {})
+        ).rejects.toMatchObject({ code: 'invalid_state_transition' });
+        expect((await service.getTransaction(response.transactionId))?.status).toBe('expired');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('manual review', () => {
+    const holdForReview = async () => {
+      mockCalculateRiskScore.mockReturnValue(0.35);
+      mockShouldReview.mockReturnValue(true);
+      return paymentService.processCharge(mockRequest);
+    };
+
+    it('should hold grey-band charges without routing them', async () => {
+      const response = await holdForReview();
+
+      expect(response.status).toBe('pending_review');
+      expect(response.provider).toBe('none');
+
+      const transaction = (await paymentService.getTransaction(response.transactionId))!;
+      expect(transaction.status).toBe('pending_review');
+      expect(transaction.attempts).toEqual([]);
+      expect(transaction.reviewDueAt).toBeInstanceOf(Date);
+      expect(await paymentService.listReviews()).toHaveLength(1);
+    });
+
+    it('should route approved charges with the usual provider selection', async () => {
+      const response = await holdForReview();
+
+      const transaction = await paymentService.approveReview(response.transactionId, { reviewer: 'alice', note: 'Known customer' });
+
+      expect(transaction.status).toBe('succeeded');
+      expect(transaction.response).toMatchObject({ status: 'success', provider: 'paypal' });
+      expect(transaction.capturedAmount).toBe(1000);
+      expect(transaction.reviewDueAt).toBeUndefined();
+      expect(transaction.timeline.map(event => event.status)).toEqual(['pending_review', 'succeeded']);
+      expect(transaction.timeline[1]).toMatchObject({
+        note: 'Approved in review. Charged via paypal',
+        review: { reviewer: 'alice', note: 'Known customer' }
+      });
+      expect(transaction.routing).toMatchObject({ ruleId: null, strategy: 'default', provider: 'paypal' });
+      expect(await paymentService.listReviews()).toEqual([]);
+    });
+
+    it('should keep an approved auth-only charge authorized', async () => {
+      mockShouldReview.mockReturnValue(true);
+      const response = await paymentService.processCharge({ ...mockRequest, capture: false });
+
+      const transaction = await paymentService.approveReview(response.transactionId, {});
+
+      expect(transaction.status).toBe('authorized');
+      expect(transaction.authorizationExpiresAt).toBeInstanceOf(Date);
+    });
+
+    it('should decline rejected charges with the reviewer note', async () => {
+      const response = await holdForReview();
+
+      const transaction = await paymentService.rejectReview(response.transactionId, { note: 'Mismatched address' });
+
+      expect(transaction.status).toBe('declined');
+      expect(transaction.response).toMatchObject({ status: 'declined', declineCode: 'review_rejected' });
+      expect(transaction.timeline[1]).toEqual({
+        at: expect.any(Date),
+        status: 'declined',
+        note: 'Rejected in review',
+        review: { note: 'Mismatched address' }
+      });
+    });
+
+    it('should refuse to review a charge twice', async () => {
+      const response = await holdForReview();
+      await paymentService.rejectReview(response.transactionId, { note: 'Fraud' });
+
+      await expect(paymentService.approveReview(response.transactionId, {})).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'not_pending_review'
+      });
+    });
+
+    it('should reject unknown transactions', async () => {
+      await expect(paymentService.approveReview('missing', {})).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should auto-decline charges once the review SLA has passed', async () => {
+      const response = await holdForReview();
+      const { reviewDueAt } = (await paymentService.getTransaction(response.transactionId))!;
+
+      expect(await paymentService.expireReviews(reviewDueAt!.getTime() - 1)).toBe(0);
+      expect(await paymentService.expireReviews(reviewDueAt!.getTime())).toBe(1);
+
+      const transaction = (await paymentService.getTransaction(response.transactionId))!;
+      expect(transaction.status).toBe('declined');
+      expect(transaction.response.declineCode).toBe('review_expired');
+      expect(transaction.timeline[1].note).toBe('Review SLA expired');
+    });
+
+    it('should decline overdue reviews when they are read', async () => {
+      const service = new PaymentService({ config: { ...loadConfig(), review: { slaMs: 0, sweepIntervalMs: 60000 } } });
+      mockShouldReview.mockReturnValue(true);
+      const response = await service.processCharge(mockRequest);
+
+      expect((await service.getTransaction(response.transactionId))?.status).toBe('declined');
+      await expect(service.approveReview(response.transactionId, {})).rejects.toMatchObject({
+        code: 'not_pending_review'
+      });
+    });
+  });
+
+  describe('shadow mode', () => {
+    const mockEvaluate = vi.fn();
+    const shadowEvaluator = { version: 'candidate-1', evaluate: mockEvaluate } as unknown as ShadowEvaluator;
+
+    beforeEach(() => {
+      mockEvaluate.mockImplementation(async (_request, liveDecision) => ({
+        version: 'candidate-1',
+        riskScore: 0.9,
+        riskFactors: [],
+        decision: 'block',
+        liveDecision,
+        agrees: liveDecision === 'block'
+      }));
+    });
+
+    it('should store the shadow decision without changing the live outcome', async () => {
+      const service = new PaymentService({ shadowEvaluator });
+      const response = await service.processCharge(mockRequest);
+
+      expect(response.status).toBe('success');
+      expect(response).not.toHaveProperty('shadow');
+      expect(mockEvaluate).toHaveBeenCalledWith(mockRequest, 'approve', {});
+      expect((await service.getTransaction(response.transactionId))?.shadow).toMatchObject({
+        decision: 'block',
+        liveDecision: 'approve',
+        agrees: false
+      });
+    });
+
+    it('should pass review and block as the live decision', async () => {
+      const service = new PaymentService({ shadowEvaluator });
+      mockShouldReview.mockReturnValue(true);
+      await service.processCharge(mockRequest);
+      mockShouldReview.mockReturnValue(false);
+      mockShouldBlock.mockReturnValue(true);
+      await service.processCharge(mockRequest);
+
+      expect(mockEvaluate.mock.calls.map(call => call[1])).toEqual(['review', 'block']);
+    });
+
+    it('should charge normally when the shadow evaluation is unavailable', async () => {
+      mockEvaluate.mockResolvedValue(undefined);
+      const service = new PaymentService({ shadowEvaluator });
+      const response = await service.processCharge(mockRequest);
+
+      expect(response.status).toBe('success');
+      expect((await service.getTransaction(response.transactionId))?.shadow).toBeUndefined();
+    });
+
+    it('should report agreement for the running candidate by default', async () => {
+      const service = new PaymentService({ shadowEvaluator });
+      await service.processCharge(mockRequest);
+      mockShouldBlock.mockReturnValue(true);
+      const blocked = await service.processCharge(mockRequest);
+
+      const report = await service.getShadowReport({ limit: 50 });
+      expect(report).toMatchObject({ version: 'candidate-1', evaluated: 2, agreed: 1, disagreed: 1 });
+      expect(report.divergent.map(entry => entry.transactionId)).not.toContain(blocked.transactionId);
+      expect((await service.getShadowReport({ version: 'candidate-0', limit: 50 })).evaluated).toBe(0);
+    });
+  });
+
+  describe('webhook events', () => {
+    const mockPublish = vi.fn();
+    const webhooks = { publish: mockPublish } as unknown as WebhookDispatcher;
+    const published = () => mockPublish.mock.calls.map(([type]) => type);
+
+    it('should publish the outcome of each charge with its merchant', async () => {
+      const service = new PaymentService({ webhooks });
+      await service.processCharge({ ...mockRequest, merchantId: 'm_1' });
+      mockShouldBlock.mockReturnValue(true);
+      await service.processCharge(mockRequest);
+
+      expect(published()).toEqual(['charge.succeeded', 'charge.blocked']);
+      expect(mockPublish.mock.calls[0][1]).toMatchObject({ status: 'succeeded', request: { merchantId: 'm_1' } });
+      expect(mockPublish.mock.calls[0][2]).toBe('m_1');
+    });
+
+    it('should publish captures, voids and refunds', async () => {
+      const service = new PaymentService({ webhooks });
+      const held = await service.processCharge({ ...mockRequest, capture: false });
+      await service.captureCharge(held.transactionId, {});
+      const released = await service.processCharge({ ...mockRequest, capture: false });
+      await service.voidCharge(released.transactionId);
+      const refund = await service.refundCharge(held.transactionId, { amount: 400 });
+
+      expect(published()).toEqual([
+        'charge.authorized',
+        'charge.captured',
+        'charge.authorized',
+        'charge.voided',
+        'refund.created'
+      ]);
+      expect(mockPublish.mock.calls[4][1]).toEqual(refund);
+    });
+
+    it('should publish review outcomes', async () => {
+      const service = new PaymentService({ webhooks });
+      mockShouldReview.mockReturnValue(true);
+      const approved = await service.processCharge(mockRequest);
+      const rejected = await service.processCharge(mockRequest);
+      await service.approveReview(approved.transactionId, {});
+      await service.rejectReview(rejected.transactionId, { note: 'Stolen card' });
+
+      expect(published()).toEqual([
+        'charge.pending_review',
+        'charge.pending_review',
+        'charge.succeeded',
+        'charge.declined'
+      ]);
+    });
+  });
+
+  describe('merchant settings', () => {
+    let merchants: Merchants;
+    let service: PaymentService;
+    const merchantRequest: ChargeRequest = { ...mockRequest, merchantId: 'm_1' };
+
+    beforeEach(async () => {
+      merchants = new Merchants(new InMemoryMerchantRepository());
+      await merchants.create({ id: 'm_1', name: 'Gift cards' });
+      service = new PaymentService({ merchants });
+    });
+
+    it('should decide with the merchant thresholds over the defaults', async () => {
+      await merchants.updateSettings(null, { blockThreshold: 0.8, reviewThreshold: 0.6 }, 'ops');
+      await merchants.updateSettings('m_1', { blockThreshold: 0.5 }, 'ops');
+
+      await service.processCharge(merchantRequest);
+
+      expect(mockShouldBlock).toHaveBeenCalledWith(0.15, { blockThreshold: 0.5, reviewThreshold: 0.6 });
+      expect(mockShouldReview).toHaveBeenCalledWith(0.15, { blockThreshold: 0.5, reviewThreshold: 0.6 });
+    });
+
+    it('should give the shadow candidate the same thresholds as the live decision', async () => {
+      const evaluate = vi.fn().mockResolvedValue(undefined);
+      const shadowEvaluator = { version: 'candidate-1', evaluate } as unknown as ShadowEvaluator;
+      await merchants.updateSettings('m_1', { blockThreshold: 0.5, reviewThreshold: 0.4 }, 'ops');
+
+      await new PaymentService({ merchants, shadowEvaluator }).processCharge(merchantRequest);
+
+      expect(evaluate).toHaveBeenCalledWith(merchantRequest, 'approve', { blockThreshold: 0.5, reviewThreshold: 0.4 });
+    });
+
+    it('should refuse currencies and amounts the merchant does not take before scoring', async () => {
+      await merchants.updateSettings('m_1', { currencies: ['EUR'], maxAmount: 500 }, 'ops');
+
+      await expect(service.processCharge(merchantRequest)).rejects.toMatchObject({
+        statusCode: 422,
+        code: 'currency_not_allowed'
+      });
+      await expect(service.processCharge({ ...merchantRequest, currency: 'EUR' })).rejects.toMatchObject({
+        statusCode: 422,
+        code: 'amount_not_allowed',
+        message: 'This merchant accepts charges of at most $5.00'
+      });
+      expect(mockCalculateRiskScore).not.toHaveBeenCalled();
+      expect(await service.getTransactions()).toHaveLength(0);
+
+      // Other merchants only inherit the defaults
+      expect((await service.processCharge({ ...mockRequest, merchantId: 'm_2' })).status).toBe('success');
+    });
+
+    it('should check the current settings again when a held charge is approved', async () => {
+      mockShouldReview.mockReturnValue(true);
+      const held = await service.processCharge(merchantRequest);
+      await merchants.updateSettings('m_1', { maxAmount: 500 }, 'ops');
+
+      await expect(service.approveReview(held.transactionId, {})).rejects.toMatchObject({
+        statusCode: 422,
+        code: 'amount_not_allowed'
+      });
+      expect((await service.getTransaction(held.transactionId))?.status).toBe('pending_review');
+
+      await merchants.updateSettings('m_1', { maxAmount: 1000 }, 'ops');
+      expect((await service.approveReview(held.transactionId, {})).status).toBe('succeeded');
+    });
+
+    it('should compare amount limits in the base currency', async () => {
+      await merchants.updateSettings('m_1', { maxAmount: 100000 }, 'ops');
+
+      // ¥100,000 is about $640, but 1000.000 KWD is over $3,000
+      expect((await service.processCharge({ ...merchantRequest, currency: 'JPY', amount: 100000 })).status).toBe('success');
+      await expect(service.processCharge({ ...merchantRequest, currency: 'KWD', amount: 1000000 })).rejects.toMatchObject({
+        code: 'amount_not_allowed',
+        message: 'This merchant accepts charges of at most $1000.00'
+      });
+    });
+
+    it('should route to the preferred providers in order and fail over along them', async () => {
+      await merchants.updateSettings('m_1', { preferredProviders: ['paypal', 'stripe'] }, 'ops');
+
+      const response = await service.processCharge({ ...merchantRequest, source: 'tok_paypal_unavailable' });
+
+      expect(response.provider).toBe('stripe');
+      const transaction = await service.getTransaction(response.transactionId);
+      expect(transaction?.routing).toMatchObject({
+        ruleId: null,
+        strategy: 'merchant_preference',
+        provider: 'paypal',
+        reason: 'Merchant prefers paypal, stripe'
+      });
+      expect(transaction?.attempts.map(attempt => attempt.provider)).toEqual(['paypal', 'stripe']);
+    });
+
+    it('should skip the model when the merchant turns explanations off', async () => {
+      await merchants.updateSettings('m_1', { llmExplanations: false }, 'ops');
+
+      await service.processCharge(merchantRequest);
+
+      expect(mockGenerateExplanation).toHaveBeenCalledWith(
+        merchantRequest,
+        0.15,
+        expect.objectContaining({ status: 'success', provider: 'stripe' }),
+        [],
+        false
+      );
+    });
+  });
+
+  describe('card vault', () => {
+    const card = { number: '4000000000000002', expMonth: 12, expYear: 2099, cvc: '123' };
+    let vault: CardVault;
+    let service: PaymentService;
+
+    beforeEach(() => {
+      vault = new CardVault(new InMemoryVaultRepository());
+      service = new PaymentService({ vault });
+    });
+
+    it('should send the vaulted card to the provider and keep only its summary', async () => {
+      const token = await vault.tokenize('m_1', card);
+
+      const response = await service.processCharge({ ...mockRequest, merchantId: 'm_1', source: token.id });
+
+      // The simulator declines this test card number
+      expect(response).toMatchObject({ status: 'declined', declineCode: 'card_declined' });
+      const transaction = await service.getTransaction(response.transactionId);
+      expect(transaction?.request).toMatchObject({ source: token.id, card: { brand: 'visa', last4: '0002' } });
+      expect(transaction?.request.card).not.toHaveProperty('bin');
+      expect(JSON.stringify(transaction)).not.toContain(card.number);
+    });
+
+    it("should refuse another merchant's token before scoring", async () => {
+      const token = await vault.tokenize('m_1', card);
+
+      await expect(
+        service.processCharge({ ...mockRequest, merchantId: 'm_2', source: token.id })
+      ).rejects.toMatchObject({ statusCode: 422, code: 'invalid_card_token' });
+      expect(mockCalculateRiskScore).not.toHaveBeenCalled();
+      expect(await service.getTransactions()).toHaveLength(0);
+    });
+
+    it('should route approved reviews by the BIN the vault reveals again', async () => {
+      const router = new ProviderRouter(
+        parseRoutingRules(
+          {
+            version: 'routing-1',
+            defaultProvider: 'stripe',
+            rules: [{ id: 'issuer_paypal', when: { field: 'bin', op: 'eq', value: '55555555' }, provider: 'paypal' }]
+          },
+          'test'
+        )
+      );
+      service = new PaymentService({ vault, router });
+      const token = await vault.tokenize('m_1', { ...card, number: '5555555555554444' });
+      mockShouldReview.mockReturnValue(true);
+
+      const held = await service.processCharge({ ...mockRequest, merchantId: 'm_1', source: token.id });
+      expect((await service.getTransaction(held.transactionId))?.request.card).toEqual({ brand: 'mastercard', last4: '4444' });
+
+      const approved = await service.approveReview(held.transactionId, {});
+      expect(approved.routing).toMatchObject({ ruleId: 'issuer_paypal', provider: 'paypal' });
+    });
+  });
+
   describe('getTransactions', () => {
-    it('should return empty array initially', () => {
-      const transactions = paymentService.getTransactions();
+    it('should return empty array initially', async () => {
+      const transactions = await paymentService.getTransactions();
       expect(transactions).toEqual([]);
     });
 
     it('should store processed transactions', async () => {
       await paymentService.processCharge(mockRequest);
       
-      const transactions = paymentService.getTransactions();
+      const transactions = await paymentService.getTransactions();
       expect(transactions).toHaveLength(1);
       
       const transaction = transactions[0];
@@ -147,15 +896,15 @@ describe('PaymentService', () => {
         amount: 2000
       });
 
-      const transactions = paymentService.getTransactions();
+      const transactions = await paymentService.getTransactions();
       expect(transactions).toHaveLength(2);
     });
 
     it('should return copy of transactions array', async () => {
       await paymentService.processCharge(mockRequest);
       
-      const transactions1 = paymentService.getTransactions();
-      const transactions2 = paymentService.getTransactions();
+      const transactions1 = await paymentService.getTransactions();
+      const transactions2 = await paymentService.getTransactions();
       
       expect(transactions1).not.toBe(transactions2);
       expect(transactions1).toEqual(transactions2);
@@ -166,7 +915,7 @@ describe('PaymentService', () => {
       await paymentService.processCharge(mockRequest);
       const afterTime = new Date();
       
-      const transactions = paymentService.getTransactions();
+      const transactions = await paymentService.getTransactions();
       const transaction = transactions[0];
       
       expect(transaction.timestamp).toBeInstanceOf(Date);
@@ -220,5 +969,40 @@ describe('PaymentService', () => {
       expect(response.provider).toBe('none');
       expect(response.status).toBe('blocked');
     });
+
+    it('should record the routing rule that picked the provider', async () => {
+      const response = await paymentService.processCharge(mockRequest);
+
+      expect((await paymentService.getTransaction(response.transactionId))?.routing).toMatchObject({
+        ruleSetVersion: 'default-1',
+        ruleId: 'low_risk_stripe',
+        strategy: 'fixed',
+        provider: 'stripe'
+      });
+    });
+
+    it('should route with the configured rules', async () => {
+      const router = new ProviderRouter(
+        parseRoutingRules(
+          {
+            version: 'eur-1',
+            defaultProvider: 'stripe',
+            rules: [{ id: 'eur_paypal', when: { field: 'currency', op: 'eq', value: 'EUR' }, provider: 'paypal' }]
+          },
+          'test'
+        )
+      );
+      const service = new PaymentService({ router });
+
+      expect((await service.processCharge({ ...mockRequest, currency: 'EUR' })).provider).toBe('paypal');
+      expect((await service.processCharge(mockRequest)).provider).toBe('stripe');
+    });
+
+    it('should not record routing for charges that were never routed', async () => {
+      mockShouldBlock.mockReturnValue(true);
+      const response = await paymentService.processCharge(mockRequest);
+
+      expect((await paymentService.getTransaction(response.transactionId))?.routing).toBeUndefined();
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { StripeAdapter, PayPalAdapter, AdyenAdapter, BraintreeAdapter } from '../providerAdapters';
+import { ProviderError } from '../errors';
+import { ChargeRequest } from '../types';
+
+describe('Provider adapters', () => {
+  const request: ChargeRequest = {
+    amount: 1000,
+    currency: 'USD',
+    source: 'tok_test',
+    email: 'user@example.com'
+  };
+
+  describe('StripeAdapter', () => {
+    it('should authorize and capture a charge', async () => {
+      const adapter = new StripeAdapter();
+
+      const authorization = await adapter.authorize(request);
+      expect(authorization.outcome).toBe('approved');
+      expect(authorization.reference).toMatch(/^ch_/);
+
+      const capture = await adapter.capture(authorization.reference);
+      expect(capture.outcome).toBe('approved');
+      expect(capture.amount).toBe(1000);
+    });
+
+    it('should report stripe decline codes', async () => {
+      const adapter = new StripeAdapter();
+
+      const declined = await adapter.authorize({ ...request, source: 'tok_decline' });
+      expect(declined.outcome).toBe('declined');
+      expect(declined.declineCode).toBe('card_declined');
+
+      const insufficient = await adapter.authorize({ ...request, source: 'tok_insufficient_funds' });
+      expect(insufficient.declineCode).toBe('insufficient_funds');
+    });
+
+    it('should answer test card numbers like their test tokens', async () => {
+      const adapter = new StripeAdapter();
+      const card = (number: string) => ({ number, expMonth: 12, expYear: 2099 });
+
+      expect((await adapter.authorize(request, card('4242424242424242'))).outcome).toBe('approved');
+      expect((await adapter.authorize(request, card('4000000000009995'))).declineCode).toBe('insufficient_funds');
+      // The card wins over the token on the request
+      expect((await adapter.authorize({ ...request, source: 'tok_decline' }, card('4242424242424242'))).outcome).toBe(
+        'approved'
+      );
+    });
+
+    it('should throw a retryable error on timeout', async () => {
+      const adapter = new StripeAdapter();
+
+      const error = await adapter.authorize({ ...request, source: 'tok_timeout' }).catch(e => e);
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.code).toBe('timeout');
+      expect(error.retryable).toBe(true);
+    });
+
+    it('should only allow refunds up to the captured amount', async () => {
+      const adapter = new StripeAdapter();
+      const authorization = await adapter.authorize(request);
+      await adapter.capture(authorization.reference);
+
+      const refund = await adapter.refund(authorization.reference, 400);
+      expect(refund.outcome).toBe('approved');
+      expect(refund.amount).toBe(400);
+
+      const error = await adapter.refund(authorization.reference, 700).catch(e => e);
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.code).toBe('invalid_request');
+      expect(error.retryable).toBe(false);
+    });
+
+    it('should void an uncaptured authorization', async () => {
+      const adapter = new StripeAdapter();
+      const authorization = await adapter.authorize(request);
+
+      const voided = await adapter.void(authorization.reference);
+      expect(voided.outcome).toBe('approved');
+
+      const error = await adapter.capture(authorization.reference).catch(e => e);
+      expect(error.code).toBe('invalid_request');
+    });
+  });
+
+  describe('PayPalAdapter', () => {
+    it('should use paypal references and decline codes', async () => {
+      const adapter = new PayPalAdapter();
+
+      const authorization = await adapter.authorize(request);
+      expect(authorization.reference).toMatch(/^PAY-/);
+
+      const declined = await adapter.authorize({ ...request, source: 'tok_decline' });
+      expect(declined.declineCode).toBe('INSTRUMENT_DECLINED');
+
+      const insufficient = await adapter.authorize({ ...request, source: 'tok_insufficient_funds' });
+      expect(insufficient.declineCode).toBe('INSUFFICIENT_FUNDS');
+    });
+
+    it('should only fail provider-specific outage tokens on that provider', async () => {
+      const paypal = new PayPalAdapter();
+      const stripe = new StripeAdapter();
+
+      const error = await paypal.authorize({ ...request, source: 'tok_paypal_unavailable' }).catch(e => e);
+      expect(error.code).toBe('provider_unavailable');
+
+      const result = await stripe.authorize({ ...request, source: 'tok_paypal_unavailable' });
+      expect(result.outcome).toBe('approved');
+    });
+  });
+
+  describe('AdyenAdapter', () => {
+    it('should use adyen references and refusal reasons', async () => {
+      const adapter = new AdyenAdapter();
+
+      expect((await adapter.authorize(request)).reference).toMatch(/^psp_/);
+      expect((await adapter.authorize({ ...request, source: 'tok_decline' })).declineCode).toBe('Refused');
+      expect((await adapter.authorize({ ...request, source: 'tok_insufficient_funds' })).declineCode).toBe(
+        'Not enough balance'
+      );
+    });
+  });
+
+  describe('BraintreeAdapter', () => {
+    it('should use braintree references and processor response codes', async () => {
+      const adapter = new BraintreeAdapter();
+
+      const authorization = await adapter.authorize(request);
+      expect(authorization).toMatchObject({ provider: 'braintree', outcome: 'approved' });
+      expect(authorization.reference).toMatch(/^bt_/);
+      expect((await adapter.authorize({ ...request, source: 'tok_decline' })).declineCode).toBe('2000');
+      expect((await adapter.authorize({ ...request, source: 'tok_insufficient_funds' })).declineCode).toBe('2001');
+    });
+  });
+});
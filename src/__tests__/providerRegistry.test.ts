@@ -0,0 +1,104 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BUILT_IN_PROVIDERS, ProviderConfigError, ProviderRegistry, createProviderRegistry } from '../providerRegistry';
+import { StripeAdapter } from '../providerAdapters';
+import { loadConfig } from '../config';
+import { ChargeRequest } from '../types';
+
+const request: ChargeRequest = {
+  amount: 1000,
+  currency: 'USD',
+  source: 'tok_test',
+  email: 'user@example.com'
+};
+
+describe('ProviderRegistry', () => {
+  it('should enable stripe and paypal by default', () => {
+    const registry = new ProviderRegistry();
+
+    expect(registry.ids()).toEqual(['stripe', 'paypal', 'adyen', 'braintree']);
+    expect(registry.enabledIds()).toEqual(['stripe', 'paypal']);
+    expect(registry.createAdapters().map(adapter => adapter.id)).toEqual(['stripe', 'paypal']);
+  });
+
+  it('should keep the configured order for failover', () => {
+    const registry = new ProviderRegistry(BUILT_IN_PROVIDERS, ['braintree', 'adyen', 'braintree']);
+    expect(registry.createAdapters().map(adapter => adapter.id)).toEqual(['braintree', 'adyen']);
+  });
+
+  it('should reject unknown and duplicate providers', () => {
+    expect(() => new ProviderRegistry(BUILT_IN_PROVIDERS, ['stripe', 'square'])).toThrow(
+      'Invalid provider configuration in PAYMENT_PROVIDERS: Unknown provider square'
+    );
+    expect(() => new ProviderRegistry([...BUILT_IN_PROVIDERS, BUILT_IN_PROVIDERS[0]])).toThrow(ProviderConfigError);
+  });
+
+  it('should explain why a provider cannot take a charge', () => {
+    const registry = new ProviderRegistry(BUILT_IN_PROVIDERS, ['stripe', 'adyen']);
+
+    expect(registry.unsupportedReason('stripe', { ...request, currency: 'JPY' })).toBeUndefined();
+    expect(registry.unsupportedReason('adyen', { ...request, currency: 'JPY' })).toEqual({
+      code: 'currency_not_supported',
+      message: 'Adyen does not support JPY'
+    });
+    expect(registry.unsupportedReason('paypal', request)?.code).toBe('provider_disabled');
+    expect(registry.unsupportedReason('custom', request)).toBeUndefined();
+  });
+
+  it('should accept plugins registered outside the built-in set', () => {
+    const plugin = {
+      id: 'acme',
+      name: 'Acme Pay',
+      currencies: ['USD'],
+      minAmount: 500,
+      maxAmount: 5000,
+      createAdapter: () => new StripeAdapter()
+    };
+    const registry = new ProviderRegistry([...BUILT_IN_PROVIDERS, plugin], ['acme']);
+
+    expect(registry.unsupportedReason('acme', { ...request, amount: 100 })).toEqual({
+      code: 'amount_not_supported',
+      message: 'Acme Pay accepts amounts from 500 to 5000'
+    });
+    expect(registry.describe().find(provider => provider.id === 'acme')).toEqual({
+      id: 'acme',
+      name: 'Acme Pay',
+      currencies: ['USD'],
+      minAmount: 500,
+      maxAmount: 5000,
+      enabled: true
+    });
+  });
+});
+
+describe('createProviderRegistry', () => {
+  let directory: string;
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeSettings = (settings: unknown) => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'providers-'));
+    const settingsPath = path.join(directory, 'providers.json');
+    fs.writeFileSync(settingsPath, JSON.stringify(settings));
+    return { ...loadConfig(), providers: { enabled: ['adyen', 'stripe'], settingsPath } };
+  };
+
+  it('should apply per-provider overrides from the settings file', () => {
+    const registry = createProviderRegistry(writeSettings({ adyen: { currencies: ['EUR'], maxAmount: 200000 } }));
+
+    expect(registry.get('adyen')).toMatchObject({ currencies: ['EUR'], minAmount: 1, maxAmount: 200000 });
+    expect(registry.unsupportedReason('adyen', request)?.code).toBe('currency_not_supported');
+  });
+
+  it('should reject settings for unknown providers or with bad values', () => {
+    expect(() => createProviderRegistry(writeSettings({ square: { currencies: ['USD'] } }))).toThrow(
+      'Unknown provider square'
+    );
+    fs.rmSync(directory, { recursive: true, force: true });
+    expect(() => createProviderRegistry(writeSettings({ adyen: { currencies: ['eur'] } }))).toThrow(ProviderConfigError);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { ProviderRouter } from '../providerRouter';
+import { parseRoutingRules } from '../routingRules';
+import { ChargeRequest } from '../types';
+
+const request: ChargeRequest = {
+  amount: 10000,
+  currency: 'USD',
+  source: 'tok_visa_4242',
+  email: 'user@example.com'
+};
+
+const ruleSet = parseRoutingRules(
+  {
+    version: 'routing-1',
+    defaultProvider: 'paypal',
+    rules: [
+      { id: 'disabled', enabled: false, provider: 'stripe' },
+      {
+        id: 'large_merchant_orders',
+        description: 'Big-ticket orders for the furniture shop',
+        when: { all: [{ field: 'merchantId', op: 'eq', value: 'm_furniture' }, { field: 'amount', op: 'gte', value: 50000 }] },
+        provider: 'stripe'
+      },
+      { id: 'night_split', when: { field: 'hour', op: 'lt', value: 6 }, split: [{ provider: 'stripe', weight: 80 }, { provider: 'paypal', weight: 20 }] },
+      { id: 'amex_cheapest', when: { field: 'bin', op: 'startsWith', value: '37' }, cheapest: ['stripe', 'paypal'] }
+    ],
+    fees: { stripe: { fixed: 30, percent: 2.9 }, paypal: { fixed: 49, percent: 2.5 } }
+  },
+  'test'
+);
+
+const noon = new Date('2024-01-15T12:00:00.000Z');
+const night = new Date('2024-01-15T03:00:00.000Z');
+
+describe('ProviderRouter', () => {
+  it('should use the first enabled rule that matches', () => {
+    const router = new ProviderRouter(ruleSet);
+
+    expect(router.select({ ...request, amount: 60000, merchantId: 'm_furniture' }, 0, noon)).toEqual({
+      ruleSetVersion: 'routing-1',
+      ruleId: 'large_merchant_orders',
+      strategy: 'fixed',
+      provider: 'stripe',
+      reason: 'Matched large_merchant_orders: Big-ticket orders for the furniture shop',
+      estimatedFee: 1770
+    });
+  });
+
+  it('should fall back to the default provider when nothing matches', () => {
+    expect(new ProviderRouter(ruleSet).select(request, 0, noon)).toMatchObject({
+      ruleId: null,
+      strategy: 'default',
+      provider: 'paypal',
+      reason: 'No routing rule matched'
+    });
+  });
+
+  it('should split traffic by weight', () => {
+    const pick = (random: number) => new ProviderRouter(ruleSet, () => random).select(request, 0, night);
+
+    expect(pick(0).provider).toBe('stripe');
+    expect(pick(0.79).provider).toBe('stripe');
+    expect(pick(0.8).provider).toBe('paypal');
+    expect(pick(0.99)).toMatchObject({ ruleId: 'night_split', strategy: 'split', reason: 'Weighted split (stripe 80 / paypal 20)' });
+  });
+
+  it('should pick the cheapest provider for the amount', () => {
+    const router = new ProviderRouter(ruleSet);
+    const amex = { ...request, card: { brand: 'amex' as const, bin: '378282', last4: '0005' } };
+
+    // Stripe: 30 + 2.9% vs PayPal: 49 + 2.5%; PayPal wins once the amount passes 4750
+    expect(router.select({ ...amex, amount: 1000 }, 0, noon)).toMatchObject({ provider: 'stripe', estimatedFee: 59 });
+    expect(router.select({ ...amex, amount: 10000 }, 0, noon)).toMatchObject({
+      provider: 'paypal',
+      strategy: 'lowest_cost',
+      estimatedFee: 299
+    });
+  });
+
+  it('should follow a merchant provider preference over the rules', () => {
+    expect(new ProviderRouter(ruleSet).prefer(['stripe', 'paypal'], request)).toEqual({
+      ruleSetVersion: 'routing-1',
+      ruleId: null,
+      strategy: 'merchant_preference',
+      provider: 'stripe',
+      reason: 'Merchant prefers stripe, paypal',
+      estimatedFee: 320
+    });
+  });
+
+  it('should route on risk score with the default rules', () => {
+    const router = new ProviderRouter();
+
+    expect(router.select(request, 0.29).provider).toBe('stripe');
+    expect(router.select(request, 0.3).provider).toBe('paypal');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { PayPalWebhookHandler, StripeWebhookHandler, crc32 } from '../providerWebhooks';
+
+const now = Date.parse('2024-01-15T10:30:00.000Z');
+const seconds = now / 1000;
+
+const stripeSignature = (secret: string, body: string, timestamp = seconds) =>
+  `t=${timestamp},v1=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+const stripeEvent = (type: string, object: object) =>
+  Buffer.from(JSON.stringify({ id: 'evt_1', type, created: seconds, data: { object } }));
+
+describe('StripeWebhookHandler', () => {
+  const handler = new StripeWebhookHandler('whsec_stripe');
+  const body = stripeEvent('charge.failed', { id: 'ch_1' });
+
+  it('should accept bodies signed with the endpoint secret', () => {
+    const headers = { 'stripe-signature': stripeSignature('whsec_stripe', body.toString()) };
+    expect(handler.verify(body, headers, now)).toBe(true);
+  });
+
+  it('should accept any of several v1 signatures while a secret is rolled', () => {
+    const current = stripeSignature('whsec_stripe', body.toString()).split(',')[1];
+    const headers = { 'stripe-signature': `t=${seconds},v1=${'0'.repeat(64)},${current}` };
+    expect(handler.verify(body, headers, now)).toBe(true);
+  });
+
+  it('should reject tampered bodies, other secrets, stale timestamps and missing headers', () => {
+    const signature = stripeSignature('whsec_stripe', body.toString());
+
+    expect(handler.verify(stripeEvent('charge.failed', { id: 'ch_2' }), { 'stripe-signature': signature }, now)).toBe(false);
+    expect(handler.verify(body, { 'stripe-signature': stripeSignature('whsec_other', body.toString()) }, now)).toBe(false);
+    expect(handler.verify(body, { 'stripe-signature': signature }, now + 301 * 1000)).toBe(false);
+    expect(handler.verify(body, {}, now)).toBe(false);
+  });
+
+  it('should translate disputes and late declines', () => {
+    const dispute = { id: 'dp_1', charge: 'ch_1', amount: 1000, reason: 'fraudulent', status: 'needs_response' };
+
+    expect(handler.parse(stripeEvent('charge.dispute.created', dispute))).toEqual({
+      provider: 'stripe',
+      id: 'evt_1',
+      type: 'charge.dispute.created',
+      kind: 'dispute_opened',
+      reference: 'ch_1',
+      occurredAt: new Date(now),
+      amount: 1000,
+      disputeId: 'dp_1',
+      reason: 'fraudulent'
+    });
+    expect(handler.parse(stripeEvent('charge.dispute.closed', { ...dispute, status: 'won' })).kind).toBe('dispute_won');
+    expect(handler.parse(stripeEvent('charge.dispute.closed', { ...dispute, status: 'lost' })).kind).toBe('dispute_lost');
+    expect(handler.parse(stripeEvent('charge.failed', { id: 'ch_1', failure_code: 'expired_card' }))).toMatchObject({
+      kind: 'late_decline',
+      reference: 'ch_1',
+      declineCode: 'expired_card'
+    });
+  });
+
+  it('should reject event types it does not handle and malformed payloads', () => {
+    expect(() => handler.parse(stripeEvent('customer.created', { id: 'cus_1' }))).toThrow(
+      expect.objectContaining({ statusCode: 400, code: 'unsupported_event_type' })
+    );
+    expect(() => handler.parse(stripeEvent('charge.dispute.created', { id: 'dp_1' }))).toThrow(
+      expect.objectContaining({ code: 'invalid_event' })
+    );
+    expect(() => handler.parse(Buffer.from('{ not json'))).toThrow('Body is not valid JSON');
+  });
+});
+
+describe('crc32', () => {
+  it('should match the standard CRC-32 check values', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+    expect(crc32(Buffer.from('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+  });
+});
+
+describe('PayPalWebhookHandler', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const certificate = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  const handler = new PayPalWebhookHandler('WH-CONFIG-1', certificate);
+
+  const paypalEvent = (event_type: string, resource: object) =>
+    Buffer.from(JSON.stringify({ id: 'WH-EVT-1', event_type, create_time: '2024-01-15T10:30:00.000Z', resource }));
+
+  const sign = (body: Buffer, webhookId = 'WH-CONFIG-1') => {
+    const message = `tx-1|2024-01-15T10:30:00Z|${webhookId}|${crc32(body)}`;
+    return {
+      'paypal-transmission-id': 'tx-1',
+      'paypal-transmission-time': '2024-01-15T10:30:00Z',
+      'paypal-auth-algo': 'SHA256withRSA',
+      'paypal-transmission-sig': crypto.sign('sha256', Buffer.from(message), privateKey).toString('base64')
+    };
+  };
+
+  const capture = { id: 'PAY-1', amount: { value: '10.00', currency_code: 'USD' } };
+  const body = paypalEvent('PAYMENT.CAPTURE.COMPLETED', capture);
+
+  it('should accept messages signed with the configured certificate', () => {
+    expect(handler.verify(body, sign(body))).toBe(true);
+  });
+
+  it('should reject tampered bodies, other webhook ids and unexpected algorithms', () => {
+    expect(handler.verify(paypalEvent('PAYMENT.CAPTURE.DENIED', capture), sign(body))).toBe(false);
+    expect(handler.verify(body, sign(body, 'WH-OTHER'))).toBe(false);
+    expect(handler.verify(body, { ...sign(body), 'paypal-auth-algo': 'SHA1withRSA' })).toBe(false);
+    expect(handler.verify(body, { ...sign(body), 'paypal-transmission-sig': 'bm90IGEgc2lnbmF0dXJl' })).toBe(false);
+    expect(handler.verify(body, {})).toBe(false);
+  });
+
+  it('should translate captures and disputes, converting amounts to minor units', () => {
+    expect(handler.parse(body)).toMatchObject({ provider: 'paypal', id: 'WH-EVT-1', kind: 'settled', reference: 'PAY-1', amount: 1000 });
+    expect(handler.parse(paypalEvent('PAYMENT.CAPTURE.DENIED', { id: 'PAY-1' }))).toMatchObject({
+      kind: 'late_decline',
+      declineCode: 'DENIED'
+    });
+
+    const dispute = {
+      dispute_id: 'PP-D-1',
+      reason: 'UNAUTHORISED',
+      dispute_amount: { value: '1500', currency_code: 'JPY' },
+      disputed_transactions: [{ seller_transaction_id: 'PAY-1' }]
+    };
+    expect(handler.parse(paypalEvent('CUSTOMER.DISPUTE.CREATED', dispute))).toMatchObject({
+      kind: 'dispute_opened',
+      reference: 'PAY-1',
+      amount: 1500,
+      disputeId: 'PP-D-1',
+      reason: 'UNAUTHORISED'
+    });
+    const resolved = (outcome_code: string) =>
+      handler.parse(paypalEvent('CUSTOMER.DISPUTE.RESOLVED', { ...dispute, dispute_outcome: { outcome_code } })).kind;
+    expect(resolved('RESOLVED_BUYER_FAVOUR')).toBe('dispute_lost');
+    expect(resolved('RESOLVED_SELLER_FAVOUR')).toBe('dispute_won');
+  });
+
+  it('should reject event types it does not handle', () => {
+    expect(() => handler.parse(paypalEvent('BILLING.PLAN.CREATED', {}))).toThrow('Event type BILLING.PLAN.CREATED is not handled');
+  });
+});
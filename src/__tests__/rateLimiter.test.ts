@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { BucketState, InMemoryRateLimitStore, takeToken } from '../rateLimiter';
+
+const limit = { limit: 3, windowMs: 3000 };
+
+describe('takeToken', () => {
+  it('should start full and allow a burst of the whole limit', () => {
+    let state: BucketState | undefined;
+    const remaining: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const taken = takeToken(state, limit, 0);
+      state = taken.state;
+      remaining.push(taken.result.remaining);
+    }
+
+    expect(remaining).toEqual([2, 1, 0]);
+    expect(takeToken(state, limit, 0).result).toEqual({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      resetMs: 3000,
+      retryAfterMs: 1000
+    });
+  });
+
+  it('should refill in proportion to the time passed, up to the limit', () => {
+    const empty = { tokens: 0, updatedAt: 0 };
+
+    expect(takeToken(empty, limit, 500).result).toMatchObject({ allowed: false, retryAfterMs: 500 });
+    expect(takeToken(empty, limit, 1500).result).toMatchObject({ allowed: true, remaining: 0, resetMs: 2500 });
+    expect(takeToken(empty, limit, 60000).result).toMatchObject({ allowed: true, remaining: 2, resetMs: 1000 });
+  });
+});
+
+describe('InMemoryRateLimitStore', () => {
+  it('should keep a bucket per key', async () => {
+    const store = new InMemoryRateLimitStore();
+    const one = { limit: 1, windowMs: 1000 };
+
+    expect((await store.take('a', one, 0)).allowed).toBe(true);
+    expect((await store.take('a', one, 500)).allowed).toBe(false);
+    expect((await store.take('b', one, 500)).allowed).toBe(true);
+    expect((await store.take('a', one, 1000)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { chargeFeatures, maskEmail, maskSource, presentTransaction, redactEventObject, redactResponse } from '../redaction';
+import { Transaction } from '../types';
+
+const transaction: Transaction = {
+  id: 'txn_1',
+  timestamp: new Date('2024-01-15T10:30:00.000Z'),
+  request: {
+    amount: 1000,
+    currency: 'USD',
+    source: 'tok_5f0c9a1e2b7d4c3a8e6f1b2d',
+    email: 'jane.doe@example.com',
+    card: { brand: 'visa', last4: '4242' }
+  },
+  response: {
+    transactionId: 'txn_1',
+    provider: 'stripe',
+    status: 'success',
+    riskScore: 0.1,
+    riskFactors: [],
+    explanation: 'Approved'
+  },
+  status: 'succeeded',
+  attempts: [],
+  authorizedAmount: 1000,
+  capturedAmount: 1000,
+  refundedAmount: 0,
+  timeline: []
+};
+
+const merchant = { id: 'm_1', name: 'Gift cards', createdAt: new Date() };
+
+describe('redaction', () => {
+  it('should keep the first letter and the domain of an email', () => {
+    expect(maskEmail('jane.doe@example.com')).toBe('j***@example.com');
+    expect(maskEmail('j@example.com')).toBe('j***@example.com');
+    expect(maskEmail('not-an-email')).toBe('***');
+  });
+
+  it('should keep the prefix and last four characters of a source', () => {
+    expect(maskSource('tok_5f0c9a1e2b7d4c3a8e6f1b2d')).toBe('tok_****1b2d');
+    expect(maskSource('tok_visa')).toBe('tok_****');
+    expect(maskSource('abcdefghijkl')).toBe('****ijkl');
+  });
+
+  it('should only show the admin key customer details in full', () => {
+    expect(presentTransaction({ role: 'admin' }, transaction)).toBe(transaction);
+
+    const masked = presentTransaction({ role: 'secret', merchant, keyId: 'key_1' }, transaction);
+    expect(masked.request).toEqual({
+      ...transaction.request,
+      email: 'j***@example.com',
+      source: 'tok_****1b2d'
+    });
+    expect(transaction.request.email).toBe('jane.doe@example.com');
+  });
+
+  it('should show list entry factors by their code alone and drop shadow evaluations', () => {
+    const denied = { code: 'denylisted_email', listEntryId: 'le_1', description: 'Chargeback from jane.doe', contribution: 1 };
+    const rule = { code: 'large_amount', ruleId: 'large_amount', description: 'Amount over $500', contribution: 0.3 };
+    const flagged: Transaction = {
+      ...transaction,
+      response: { ...transaction.response, riskFactors: [denied, rule] },
+      shadow: { version: 'candidate-1', riskScore: 1, riskFactors: [denied], decision: 'block', liveDecision: 'approve', agrees: false }
+    };
+
+    expect(redactResponse(flagged.response).riskFactors).toEqual([{ code: 'denylisted_email', contribution: 1 }, rule]);
+    for (const object of [presentTransaction({ role: 'secret', merchant, keyId: 'key_1' }, flagged), redactEventObject(flagged)]) {
+      expect(object).not.toHaveProperty('shadow');
+      expect(JSON.stringify(object)).not.toContain('le_1');
+      expect(JSON.stringify(object)).not.toContain('Chargeback');
+    }
+    expect(presentTransaction({ role: 'admin' }, flagged)).toBe(flagged);
+  });
+
+  it('should keep reviewer notes, provider errors and routing reasons from merchants and webhooks', () => {
+    const reviewed: Transaction = {
+      ...transaction,
+      attempts: [
+        { provider: 'paypal', startedAt: transaction.timestamp, latencyMs: 0, outcome: 'skipped', errorCode: 'circuit_open', error: 'Circuit breaker for paypal is open' },
+        { provider: 'stripe', startedAt: transaction.timestamp, latencyMs: 120, outcome: 'approved' }
+      ],
+      routing: { ruleSetVersion: 'routing-1', ruleId: 'vip', strategy: 'fixed', provider: 'paypal', reason: 'Matched vip: Jane Doe account' },
+      timeline: [
+        { at: transaction.timestamp, status: 'pending_review', note: 'Held for manual review with risk score 0.60' },
+        {
+          at: transaction.timestamp,
+          status: 'succeeded',
+          note: 'Approved in review. Charged via stripe',
+          review: { reviewer: 'alice', note: 'Called Jane Doe to confirm' }
+        }
+      ]
+    };
+
+    for (const object of [presentTransaction({ role: 'secret', merchant, keyId: 'key_1' }, reviewed), redactEventObject(reviewed)]) {
+      expect(object).not.toHaveProperty('routing');
+      expect(JSON.stringify(object)).not.toMatch(/alice|Jane Doe|Circuit breaker/);
+      expect((object as Transaction).timeline.map(event => event.note)).toEqual([
+        'Held for manual review with risk score 0.60',
+        'Approved in review. Charged via stripe'
+      ]);
+      expect((object as Transaction).attempts[0]).toMatchObject({ provider: 'paypal', errorCode: 'circuit_open' });
+    }
+    expect(presentTransaction({ role: 'admin' }, reviewed)).toBe(reviewed);
+  });
+
+  it('should mask transactions in webhook payloads and leave refunds alone', () => {
+    const refund = { id: 're_1', transactionId: 'txn_1', amount: 100, status: 'succeeded' as const, createdAt: new Date() };
+
+    expect((redactEventObject(transaction) as Transaction).request.email).toBe('j***@example.com');
+    expect(redactEventObject(refund)).toBe(refund);
+  });
+
+  it('should describe a charge to a model without the customer', () => {
+    expect(chargeFeatures(transaction.request)).toEqual({ amount: '$10.00', currency: 'USD', cardBrand: 'visa' });
+    expect(chargeFeatures({ ...transaction.request, card: undefined })).toEqual({ amount: '$10.00', currency: 'USD' });
+  });
+});
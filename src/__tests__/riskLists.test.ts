@@ -0,0 +1,130 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RiskLists, riskListKeys } from '../riskLists';
+import { InMemoryRiskListRepository, RiskListRepository } from '../riskListRepository';
+import { SqliteRiskListRepository } from '../sqliteRiskListRepository';
+import { ChargeRequest } from '../types';
+
+const charge: ChargeRequest = {
+  amount: 1000,
+  currency: 'USD',
+  source: 'tok_card',
+  email: 'Buyer@Mail.Example.com'
+};
+
+const now = new Date('2024-01-15T10:30:00.000Z');
+
+describe('riskListKeys', () => {
+  it('should cover the email, every parent domain and the source', () => {
+    expect(riskListKeys(charge)).toEqual([
+      { type: 'email', value: 'buyer@mail.example.com' },
+      { type: 'domain', value: 'mail.example.com' },
+      { type: 'domain', value: 'example.com' },
+      { type: 'source', value: 'tok_card' }
+    ]);
+  });
+});
+
+const implementations: [string, () => RiskListRepository][] = [
+  ['InMemoryRiskListRepository', () => new InMemoryRiskListRepository()],
+  ['SqliteRiskListRepository', () => new SqliteRiskListRepository(':memory:')]
+];
+
+describe.each(implementations)('RiskLists with %s', (_name, create) => {
+  it('should match entries by email, parent domain or source', async () => {
+    const lists = new RiskLists(create());
+    const entry = await lists.add({ list: 'allow', type: 'domain', value: 'example.com' }, 'alice', now);
+
+    expect(await lists.match(charge, now)).toEqual(entry);
+    expect(await lists.match({ ...charge, email: 'buyer@example.org' }, now)).toBeUndefined();
+  });
+
+  it('should let deny entries win over allow entries', async () => {
+    const lists = new RiskLists(create());
+    await lists.add({ list: 'allow', type: 'email', value: 'buyer@mail.example.com' }, 'alice', now);
+    const deny = await lists.add({ list: 'deny', type: 'source', value: 'tok_card', reason: 'Chargeback' }, 'bob', now);
+
+    expect(await lists.match(charge, now)).toEqual(deny);
+  });
+
+  it('should ignore expired entries', async () => {
+    const lists = new RiskLists(create());
+    const expiresAt = new Date('2024-01-16T10:30:00.000Z');
+    await lists.add({ list: 'deny', type: 'source', value: 'tok_card', expiresAt }, 'alice', now);
+
+    expect(await lists.match(charge, new Date(expiresAt.getTime() - 1))).toBeDefined();
+    expect(await lists.match(charge, expiresAt)).toBeUndefined();
+    expect(await lists.list({}, expiresAt)).toEqual([]);
+    expect(await lists.list({ includeExpired: true }, expiresAt)).toHaveLength(1);
+  });
+
+  it('should filter entries by list and type', async () => {
+    const lists = new RiskLists(create());
+    await lists.add({ list: 'deny', type: 'email', value: 'a@example.com' }, 'alice', now);
+    await lists.add({ list: 'deny', type: 'source', value: 'tok_card' }, 'alice', now);
+    await lists.add({ list: 'allow', type: 'email', value: 'b@example.com' }, 'alice', now);
+
+    expect((await lists.list({ list: 'deny' }, now)).map(entry => entry.value)).toEqual(['a@example.com', 'tok_card']);
+    expect((await lists.list({ type: 'email' }, now)).map(entry => entry.value)).toEqual([
+      'a@example.com',
+      'b@example.com'
+    ]);
+  });
+
+  it('should reject duplicate active entries', async () => {
+    const lists = new RiskLists(create());
+    await lists.add({ list: 'deny', type: 'source', value: 'tok_card' }, 'alice', now);
+
+    await expect(lists.add({ list: 'deny', type: 'source', value: 'tok_card' }, 'bob', now)).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'list_entry_exists'
+    });
+  });
+
+  it('should audit every change with its actor', async () => {
+    const lists = new RiskLists(create());
+    const entry = await lists.add({ list: 'deny', type: 'source', value: 'tok_card' }, 'alice', now);
+    await lists.remove(entry.id, 'bob', new Date('2024-01-15T11:00:00.000Z'));
+
+    expect(await lists.match(charge, now)).toBeUndefined();
+
+    const events = await lists.auditLog();
+    expect(events.map(event => [event.action, event.actor])).toEqual([
+      ['removed', 'bob'],
+      ['added', 'alice']
+    ]);
+    expect(events[0].entry).toEqual(entry);
+    expect(events[0].at).toBeInstanceOf(Date);
+  });
+
+  it('should return 404 when removing an unknown entry', async () => {
+    await expect(new RiskLists(create()).remove('missing', 'alice')).rejects.toMatchObject({
+      statusCode: 404,
+      code: 'list_entry_not_found'
+    });
+  });
+});
+
+describe('SqliteRiskListRepository persistence', () => {
+  let directory: string;
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep entries and audit events across restarts', async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'gateway-'));
+    const filename = path.join(directory, 'gateway.db');
+
+    const first = new SqliteRiskListRepository(filename);
+    const entry = await new RiskLists(first).add({ list: 'deny', type: 'source', value: 'tok_card' }, 'alice', now);
+    first.close();
+
+    const second = new SqliteRiskListRepository(filename);
+    expect(await new RiskLists(second).match(charge, now)).toEqual(entry);
+    expect(await second.listAudit()).toHaveLength(1);
+    second.close();
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_RULE_SET, buildRiskContext } from '../fraudRules';
+import { RiskModelError, RuleSetModel, loadRiskModel, parseRiskModel } from '../riskModel';
+import { FraudDetector } from '../fraudDetection';
+import { ChargeRequest } from '../types';
+
+const request: ChargeRequest = {
+  amount: 60000,
+  currency: 'USD',
+  source: 'tok_test',
+  email: 'user@test.com'
+};
+
+const features = [
+  { name: 'amount', field: 'amount' },
+  { name: 'risky_domain', when: { field: 'emailDomain', op: 'in', value: ['test.com'] } }
+];
+
+const logisticRegression = {
+  type: 'logistic_regression',
+  version: 'lr-1',
+  features,
+  intercept: -3,
+  weights: { amount: 0.00002, risky_domain: 2 }
+};
+
+const gradientBoostedTrees = {
+  type: 'gradient_boosted_trees',
+  version: 'gbt-1',
+  features,
+  baseScore: -1,
+  trees: [
+    { feature: 'risky_domain', threshold: 0.5, left: { leaf: -0.5 }, right: { leaf: 1.5 } },
+    {
+      feature: 'amount',
+      threshold: 50000,
+      left: { leaf: -0.2 },
+      right: { feature: 'risky_domain', threshold: 0.5, left: { leaf: 0.1 }, right: { leaf: 0.4 } }
+    }
+  ]
+};
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+describe('RuleSetModel', () => {
+  it('should reproduce the heuristic rule scores', () => {
+    const model = new RuleSetModel(DEFAULT_RULE_SET);
+    const assessment = model.score(buildRiskContext(request));
+
+    expect(model.version).toBe(DEFAULT_RULE_SET.version);
+    expect(assessment.score).toBeCloseTo(0.7);
+    expect(assessment.factors.map(factor => factor.code)).toEqual(['large_amount', 'suspicious_domain']);
+  });
+});
+
+describe('LogisticRegressionModel', () => {
+  it('should score with the sigmoid of the weighted features', () => {
+    const assessment = parseRiskModel(logisticRegression, 'test').score(buildRiskContext(request));
+
+    expect(assessment.score).toBeCloseTo(sigmoid(-3 + 1.2 + 2));
+    expect(assessment.factors).toEqual([
+      { code: 'risky_domain', contribution: 2 },
+      { code: 'amount', contribution: expect.closeTo(1.2) }
+    ]);
+  });
+
+  it('should only report features that raised the score', () => {
+    const assessment = parseRiskModel(logisticRegression, 'test').score(
+      buildRiskContext({ ...request, email: 'user@gmail.com' })
+    );
+
+    expect(assessment.factors.map(factor => factor.code)).toEqual(['amount']);
+  });
+});
+
+describe('GradientBoostedTreesModel', () => {
+  it('should sum leaf values along each decision path', () => {
+    const assessment = parseRiskModel(gradientBoostedTrees, 'test').score(buildRiskContext(request));
+
+    expect(assessment.score).toBeCloseTo(sigmoid(-1 + 1.5 + 0.4));
+    expect(assessment.factors).toEqual([{ code: 'risky_domain', contribution: expect.closeTo(1.9) }]);
+  });
+
+  it('should go left when the feature is at or below the threshold', () => {
+    const assessment = parseRiskModel(gradientBoostedTrees, 'test').score(
+      buildRiskContext({ ...request, amount: 50000, email: 'user@gmail.com' })
+    );
+
+    expect(assessment.score).toBeCloseTo(sigmoid(-1 - 0.5 - 0.2));
+    expect(assessment.factors).toEqual([]);
+  });
+});
+
+describe('parseRiskModel', () => {
+  it('should reject features that are not numeric fields', () => {
+    const invalid = { ...logisticRegression, features: [{ name: 'email', field: 'email' }], weights: { email: 1 } };
+    expect(() => parseRiskModel(invalid, 'model.json')).toThrow(RiskModelError);
+  });
+
+  it('should reject weights and splits on undeclared features', () => {
+    expect(() => parseRiskModel({ ...logisticRegression, weights: { velocity: 1 } }, 'model.json')).toThrow(
+      '"velocity" is not a declared feature'
+    );
+    expect(() =>
+      parseRiskModel(
+        { ...gradientBoostedTrees, trees: [{ feature: 'ip', threshold: 1, left: { leaf: 0 }, right: { leaf: 1 } }] },
+        'model.json'
+      )
+    ).toThrow('"ip" is not a declared feature');
+  });
+
+  it('should reject fields that belong to the other model type', () => {
+    expect(() => parseRiskModel({ ...logisticRegression, trees: [] }, 'model.json')).toThrow(/"trees" is not allowed/);
+  });
+
+  it('should reject unknown model types', () => {
+    expect(() => parseRiskModel({ ...logisticRegression, type: 'neural_net' }, 'model.json')).toThrow(RiskModelError);
+  });
+});
+
+describe('loadRiskModel', () => {
+  let directory: string;
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load a model file and report unreadable ones', () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-model-'));
+    const modelPath = path.join(directory, 'model.json');
+    fs.writeFileSync(modelPath, JSON.stringify(logisticRegression));
+
+    expect(loadRiskModel(modelPath).version).toBe('lr-1');
+
+    fs.writeFileSync(modelPath, '{ not json');
+    expect(() => loadRiskModel(modelPath)).toThrow(RiskModelError);
+  });
+});
+
+describe('FraudDetector with a model', () => {
+  it('should score with the model and keep the rule set thresholds', async () => {
+    const detector = new FraudDetector(DEFAULT_RULE_SET, undefined, undefined, parseRiskModel(logisticRegression, 'test'));
+
+    const { score } = await detector.assessRisk(request);
+
+    expect(score).toBeCloseTo(sigmoid(0.2));
+    expect(detector.calculateRiskScore(request)).toBe(score);
+    expect(detector.shouldBlock(score)).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_ROUTING_RULES,
+  RoutingRulesError,
+  buildRoutingContext,
+  estimateFee,
+  loadRoutingRules,
+  parseRoutingRules
+} from '../routingRules';
+
+const validRules = {
+  version: 'routing-1',
+  defaultProvider: 'stripe',
+  rules: [
+    { id: 'eur_split', when: { field: 'currency', op: 'eq', value: 'EUR' }, split: [{ provider: 'stripe', weight: 80 }, { provider: 'paypal', weight: 20 }] },
+    { id: 'cheapest', cheapest: ['stripe', 'paypal'] }
+  ],
+  fees: { stripe: { fixed: 30, percent: 2.9 }, paypal: { fixed: 49, percent: 2.5 } }
+};
+
+describe('Routing rules', () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    if (directory) fs.rmSync(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('should accept a valid rule set and apply defaults', () => {
+    const ruleSet = parseRoutingRules(validRules, 'test');
+
+    expect(ruleSet.rules.every(rule => rule.enabled)).toBe(true);
+    expect(parseRoutingRules({ version: 'v', defaultProvider: 'paypal', rules: [] }, 'test').fees).toEqual({});
+  });
+
+  it('should require exactly one way of picking a provider', () => {
+    expect(() =>
+      parseRoutingRules({ ...validRules, rules: [{ id: 'both', provider: 'stripe', cheapest: ['paypal'] }] }, 'test')
+    ).toThrow(/contains a conflict between exclusive peers \[provider, split, cheapest\]/);
+  });
+
+  it('should reject unknown routing fields', () => {
+    expect(() =>
+      parseRoutingRules(
+        { ...validRules, rules: [{ id: 'bad', when: { field: 'riskScroe', op: 'lt', value: 1 }, provider: 'stripe' }] },
+        'test'
+      )
+    ).toThrow(RoutingRulesError);
+  });
+
+  it('should only route to enabled providers when given the enabled set', () => {
+    const adyen = { ...validRules, rules: [{ id: 'eur_adyen', provider: 'adyen' }, ...validRules.rules] };
+
+    expect(parseRoutingRules(adyen, 'test', ['stripe', 'paypal', 'adyen']).rules).toHaveLength(3);
+    expect(() => parseRoutingRules(adyen, 'test', ['stripe', 'paypal'])).toThrow(
+      'Invalid routing rules in test: "eur_adyen" routes to adyen, which is not an enabled provider'
+    );
+    expect(() => parseRoutingRules(validRules, 'test', ['paypal'])).toThrow(
+      '"defaultProvider" routes to stripe, which is not an enabled provider; "eur_split" routes to stripe'
+    );
+  });
+
+  it('should require a fee for every provider a cost rule compares', () => {
+    expect(() => parseRoutingRules({ ...validRules, fees: { stripe: validRules.fees.stripe } }, 'test')).toThrow(
+      '"cheapest" needs a fee for paypal'
+    );
+  });
+
+  it('should load rules from a file and report the file on errors', () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'routing-rules-'));
+    const rulesPath = path.join(directory, 'routing.json');
+    fs.writeFileSync(rulesPath, JSON.stringify(validRules));
+
+    expect(loadRoutingRules(rulesPath).version).toBe('routing-1');
+
+    fs.writeFileSync(rulesPath, '{ not json');
+    expect(() => loadRoutingRules(rulesPath)).toThrow(`Invalid routing rules in ${rulesPath}`);
+  });
+
+  it('should ship default rules that route on risk score', () => {
+    expect(DEFAULT_ROUTING_RULES).toMatchObject({ defaultProvider: 'paypal', rules: [{ id: 'low_risk_stripe', provider: 'stripe' }] });
+  });
+
+  it('should build the context with UTC time fields', () => {
+    const context = buildRoutingContext(
+      {
+        amount: 1000,
+        currency: 'USD',
+        source: 'tok_visa',
+        email: 'User@Example.com',
+        merchantId: 'm_1',
+        card: { brand: 'visa', bin: '42424242', last4: '4242' }
+      },
+      0.2,
+      new Date('2024-01-14T23:30:00.000Z')
+    );
+
+    expect(context).toEqual({
+      amount: 1000,
+      currency: 'USD',
+      source: 'tok_visa',
+      cardBrand: 'visa',
+      bin: '42424242',
+      email: 'user@example.com',
+      emailDomain: 'example.com',
+      merchantId: 'm_1',
+      hour: 23,
+      dayOfWeek: 0,
+      riskScore: 0.2
+    });
+  });
+
+  it('should estimate fees in minor units', () => {
+    expect(estimateFee({ fixed: 30, percent: 2.9 }, 10000)).toBe(320);
+  });
+});
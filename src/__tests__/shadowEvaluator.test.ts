@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ShadowEvaluator, buildShadowReport } from '../shadowEvaluator';
+import { FraudDetector } from '../fraudDetection';
+import { parseRuleSet } from '../fraudRules';
+import { VelocityTracker } from '../velocityTracker';
+import { ChargeRequest, RiskDecision, Transaction } from '../types';
+
+const request: ChargeRequest = {
+  amount: 1000,
+  currency: 'USD',
+  source: 'gift_123',
+  email: 'user@example.com'
+};
+
+const candidateRules = parseRuleSet(
+  {
+    version: 'candidate-1',
+    blockThreshold: 0.8,
+    reviewThreshold: 0.5,
+    rules: [{ id: 'gift_card_source', weight: 0.6, when: { field: 'source', op: 'startsWith', value: 'gift_' } }]
+  },
+  'test'
+);
+
+describe('ShadowEvaluator', () => {
+  it('should record what the candidate would have decided next to the live decision', async () => {
+    const evaluator = new ShadowEvaluator(new FraudDetector(candidateRules));
+
+    expect(await evaluator.evaluate(request, 'approve')).toEqual({
+      version: 'candidate-1',
+      riskScore: 0.6,
+      riskFactors: [{ code: 'gift_card_source', ruleId: 'gift_card_source', contribution: 0.6 }],
+      decision: 'review',
+      liveDecision: 'approve',
+      agrees: false
+    });
+    expect((await evaluator.evaluate({ ...request, source: 'tok_card' }, 'approve'))?.agrees).toBe(true);
+  });
+
+  it("should decide with the merchant's thresholds, as the live decision did", async () => {
+    const evaluator = new ShadowEvaluator(new FraudDetector(candidateRules));
+
+    const shadow = await evaluator.evaluate(request, 'approve', { blockThreshold: 0.9, reviewThreshold: 0.9 });
+    expect(shadow).toMatchObject({ riskScore: 0.6, decision: 'approve', agrees: true });
+    expect((await evaluator.evaluate(request, 'block', { blockThreshold: 0.5 }))?.decision).toBe('block');
+  });
+
+  it('should read the shared velocity history without recording into it', async () => {
+    const velocity = new VelocityTracker(60 * 1000);
+    const evaluator = new ShadowEvaluator(new FraudDetector(undefined, velocity));
+
+    for (let i = 0; i < 10; i++) {
+      velocity.record({ ...request, source: 'tok_card' }, false, i);
+    }
+    const shadow = await evaluator.evaluate({ ...request, source: 'tok_card' }, 'approve', {}, 100);
+
+    expect(shadow?.riskFactors.map(factor => factor.code)).toEqual(['velocity_email', 'velocity_source']);
+    expect(velocity.signals(request, 100).emailChargeCount).toBe(10);
+  });
+
+  it('should swallow candidate failures so the live charge is unaffected', async () => {
+    const candidate = new FraudDetector(candidateRules);
+    vi.spyOn(candidate, 'assessRisk').mockRejectedValue(new Error('boom'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await new ShadowEvaluator(candidate).evaluate(request, 'approve')).toBeUndefined();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+const shadowed = (id: string, liveDecision: RiskDecision, decision: RiskDecision, minute: number): Transaction =>
+  ({
+    id,
+    timestamp: new Date(Date.UTC(2024, 0, 15, 10, minute)),
+    request,
+    response: { transactionId: id, provider: 'stripe', status: 'success', riskScore: 0.1, riskFactors: [], explanation: '' },
+    status: 'succeeded',
+    attempts: [],
+    authorizedAmount: 0,
+    capturedAmount: 0,
+    refundedAmount: 0,
+    timeline: [],
+    shadow: { version: 'candidate-1', riskScore: 0.6, riskFactors: [], decision, liveDecision, agrees: decision === liveDecision }
+  }) as Transaction;
+
+describe('buildShadowReport', () => {
+  const evaluated = [
+    shadowed('txn-4', 'approve', 'block', 4),
+    shadowed('txn-3', 'approve', 'review', 3),
+    shadowed('txn-2', 'approve', 'block', 2),
+    shadowed('txn-1', 'block', 'block', 1)
+  ];
+
+  it('should count agreement and break disagreements down by decision pair', () => {
+    const report = buildShadowReport(evaluated, { version: 'candidate-1', limit: 50 });
+
+    expect(report).toMatchObject({ version: 'candidate-1', evaluated: 4, agreed: 1, disagreed: 3, agreementRate: 0.25 });
+    expect(report.breakdown).toEqual([
+      { live: 'approve', shadow: 'block', count: 2 },
+      { live: 'approve', shadow: 'review', count: 1 },
+      { live: 'block', shadow: 'block', count: 1 }
+    ]);
+  });
+
+  it('should list divergent transactions up to the limit', () => {
+    const { divergent } = buildShadowReport(evaluated, { limit: 2 });
+
+    expect(divergent.map(entry => entry.transactionId)).toEqual(['txn-4', 'txn-3']);
+    expect(divergent[0]).toMatchObject({
+      liveDecision: 'approve',
+      liveRiskScore: 0.1,
+      shadowDecision: 'block',
+      shadowRiskScore: 0.6,
+      amount: 1000,
+      currency: 'USD'
+    });
+  });
+
+  it('should report no agreement rate before anything was evaluated', () => {
+    expect(buildShadowReport([], { limit: 50 })).toEqual({
+      version: null,
+      evaluated: 0,
+      agreed: 0,
+      disagreed: 0,
+      agreementRate: null,
+      breakdown: [],
+      divergent: []
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { InMemoryTransactionRepository, TransactionRepository } from '../transactionRepository';
+import { SqliteTransactionRepository } from '../sqliteTransactionRepository';
+import { MIGRATIONS, migrate } from '../database';
+import { Refund, Transaction } from '../types';
+
+const buildTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'txn-1',
+  timestamp: new Date('2024-01-15T10:30:00.000Z'),
+  request: { amount: 1000, currency: 'USD', source: 'tok_test', email: 'user@example.com' },
+  response: {
+    transactionId: 'txn-1',
+    provider: 'stripe',
+    status: 'success',
+    riskScore: 0,
+    explanation: 'ok'
+  },
+  status: 'succeeded',
+  providerReference: 'ch_123',
+  attempts: [{ provider: 'stripe', startedAt: new Date('2024-01-15T10:30:00.000Z'), latencyMs: 3, outcome: 'approved' }],
+  authorizedAmount: 1000,
+  capturedAmount: 1000,
+  refundedAmount: 0,
+  timeline: [{ at: new Date('2024-01-15T10:30:00.000Z'), status: 'succeeded', note: 'Charged via stripe' }],
+  ...overrides
+});
+
+const buildRefund = (overrides: Partial<Refund> = {}): Refund => ({
+  id: 'refund-1',
+  transactionId: 'txn-1',
+  amount: 400,
+  status: 'succeeded',
+  createdAt: new Date('2024-01-15T11:00:00.000Z'),
+  ...overrides
+});
+
+const implementations: [string, () => TransactionRepository][] = [
+  ['InMemoryTransactionRepository', () => new InMemoryTransactionRepository()],
+  ['SqliteTransactionRepository', () => new SqliteTransactionRepository(':memory:')]
+];
+
+describe.each(implementations)('%s', (_name, create) => {
+  it('should save and find transactions with dates intact', async () => {
+    const repository = create();
+    await repository.save(buildTransaction());
+
+    const found = await repository.findById('txn-1');
+    expect(found).toEqual(buildTransaction());
+    expect(found?.timestamp).toBeInstanceOf(Date);
+    expect(found?.attempts[0].startedAt).toBeInstanceOf(Date);
+    expect(found?.timeline[0].at).toBeInstanceOf(Date);
+  });
+
+  it('should return undefined for unknown ids', async () => {
+    expect(await create().findById('missing')).toBeUndefined();
+  });
+
+  it('should find transactions by provider reference', async () => {
+    const repository = create();
+    await repository.save(buildTransaction());
+    await repository.save(buildTransaction({ id: 'txn-2', providerReference: 'ch_456' }));
+
+    expect((await repository.findByProviderReference('stripe', 'ch_456'))?.id).toBe('txn-2');
+    expect(await repository.findByProviderReference('paypal', 'ch_456')).toBeUndefined();
+    expect(await repository.findByProviderReference('stripe', 'ch_missing')).toBeUndefined();
+  });
+
+  it('should update existing transactions on save', async () => {
+    const repository = create();
+    await repository.save(buildTransaction());
+    await repository.save(buildTransaction({ status: 'refunded', refundedAmount: 1000 }));
+
+    const transactions = await repository.list();
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0].status).toBe('refunded');
+  });
+
+  it('should not leak mutations of returned records', async () => {
+    const repository = create();
+    await repository.save(buildTransaction());
+
+    const found = await repository.findById('txn-1');
+    found!.status = 'voided';
+
+    expect((await repository.findById('txn-1'))?.status).toBe('succeeded');
+  });
+
+  it('should list transactions in creation order', async () => {
+    const repository = create();
+    await repository.save(buildTransaction({ id: 'b', timestamp: new Date('2024-01-15T10:31:00.000Z') }));
+    await repository.save(buildTransaction({ id: 'a', timestamp: new Date('2024-01-15T10:30:00.000Z') }));
+
+    const transactions = await repository.list();
+    expect(transactions.map(t => t.id)).toEqual(['a', 'b']);
+  });
+
+  describe('query', () => {
+    const seed = async (repository: TransactionRepository) => {
+      const base = new Date('2024-01-15T10:00:00.000Z').getTime();
+      const rows: Partial<Transaction>[] = [
+        { id: 't1', request: { amount: 1000, currency: 'USD', source: 'tok_test', email: 'a@example.com' } },
+        { id: 't2', request: { amount: 60000, currency: 'EUR', source: 'tok_test', email: 'B@example.com' } },
+        { id: 't3', request: { amount: 200000, currency: 'USD', source: 'tok_test', email: 'a@example.com' }, status: 'blocked' },
+        { id: 't4', request: { amount: 5000, currency: 'USD', source: 'tok_test', email: 'c@example.com' } }
+      ];
+
+      for (const [index, row] of rows.entries()) {
+        const transaction = buildTransaction({ ...row, timestamp: new Date(base + index * 60000) });
+        transaction.response = {
+          ...transaction.response,
+          provider: index % 2 ? 'paypal' : 'stripe',
+          riskScore: index * 0.25
+        };
+        await repository.save(transaction);
+      }
+
+      // Same timestamp as t4 so the id tie-breaker decides the order
+      await repository.save(buildTransaction({ id: 't5', timestamp: new Date(base + 3 * 60000) }));
+    };
+
+    it('should return newest first with a stable tie-breaker', async () => {
+      const repository = create();
+      await seed(repository);
+
+      const page = await repository.query({ limit: 10 });
+      expect(page.transactions.map(t => t.id)).toEqual(['t5', 't4', 't3', 't2', 't1']);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should page through results with a cursor', async () => {
+      const repository = create();
+      await seed(repository);
+
+      const first = await repository.query({ limit: 2 });
+      expect(first.transactions.map(t => t.id)).toEqual(['t5', 't4']);
+      expect(first.nextCursor).toEqual(expect.any(String));
+
+      const second = await repository.query({ limit: 2, cursor: first.nextCursor! });
+      expect(second.transactions.map(t => t.id)).toEqual(['t3', 't2']);
+
+      const third = await repository.query({ limit: 2, cursor: second.nextCursor! });
+      expect(third.transactions.map(t => t.id)).toEqual(['t1']);
+      expect(third.nextCursor).toBeNull();
+    });
+
+    it('should filter by status, provider, email and currency', async () => {
+      const repository = create();
+      await seed(repository);
+
+      const ids = async (query: Partial<Parameters<TransactionRepository['query']>[0]>) =>
+        (await repository.query({ limit: 10, ...query })).transactions.map(t => t.id);
+
+      expect(await ids({ status: 'blocked' })).toEqual(['t3']);
+      expect(await ids({ provider: 'paypal' })).toEqual(['t4', 't2']);
+      expect(await ids({ email: 'b@example.com' })).toEqual(['t2']);
+      expect(await ids({ currency: 'EUR' })).toEqual(['t2']);
+    });
+
+    it("should limit results to one merchant's transactions", async () => {
+      const repository = create();
+      await seed(repository);
+      await repository.save(
+        buildTransaction({
+          id: 't6',
+          request: { amount: 1000, currency: 'USD', source: 'tok_test', email: 'a@example.com', merchantId: 'm_1' }
+        })
+      );
+
+      const page = await repository.query({ limit: 10, merchantId: 'm_1' });
+      expect(page.transactions.map(t => t.id)).toEqual(['t6']);
+      expect((await repository.query({ limit: 10, merchantId: 'm_2' })).transactions).toEqual([]);
+    });
+
+    it('should filter by amount, risk score and date ranges', async () => {
+      const repository = create();
+      await seed(repository);
+
+      const ids = async (query: Partial<Parameters<TransactionRepository['query']>[0]>) =>
+        (await repository.query({ limit: 10, ...query })).transactions.map(t => t.id);
+
+      expect(await ids({ minAmount: 5000, maxAmount: 60000 })).toEqual(['t4', 't2']);
+      expect(await ids({ minRiskScore: 0.25, maxRiskScore: 0.5 })).toEqual(['t3', 't2']);
+      expect(
+        await ids({
+          createdFrom: new Date('2024-01-15T10:01:00.000Z'),
+          createdTo: new Date('2024-01-15T10:02:00.000Z')
+        })
+      ).toEqual(['t3', 't2']);
+    });
+
+    it('should reject malformed cursors', async () => {
+      await expect(create().query({ limit: 10, cursor: 'not-a-cursor' })).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'invalid_cursor'
+      });
+    });
+  });
+
+  it('should find authorizations past their expiry', async () => {
+    const repository = create();
+    const expiresAt = new Date('2024-01-16T10:30:00.000Z');
+    await repository.save(buildTransaction({ id: 'held', status: 'authorized', authorizationExpiresAt: expiresAt }));
+    await repository.save(buildTransaction({ id: 'captured' }));
+
+    expect(await repository.findExpiredAuthorizations(new Date('2024-01-16T10:29:59.999Z'))).toEqual([]);
+
+    const expired = await repository.findExpiredAuthorizations(expiresAt);
+    expect(expired.map(t => t.id)).toEqual(['held']);
+  });
+
+  it('should list pending reviews by deadline and find overdue ones', async () => {
+    const repository = create();
+    const pending = (id: string, reviewDueAt: Date) =>
+      buildTransaction({ id, status: 'pending_review', providerReference: undefined, attempts: [], reviewDueAt });
+    await repository.save(pending('later', new Date('2024-01-16T12:00:00.000Z')));
+    await repository.save(pending('sooner', new Date('2024-01-16T10:00:00.000Z')));
+    await repository.save(buildTransaction({ id: 'settled' }));
+
+    expect((await repository.findPendingReviews()).map(t => t.id)).toEqual(['sooner', 'later']);
+    expect((await repository.findPendingReviews(new Date('2024-01-16T11:00:00.000Z'))).map(t => t.id)).toEqual([
+      'sooner'
+    ]);
+  });
+
+  it('should find shadow-evaluated transactions newest first, optionally for one candidate', async () => {
+    const repository = create();
+    const shadow = (version: string) => ({
+      version,
+      riskScore: 0.6,
+      riskFactors: [],
+      decision: 'block' as const,
+      liveDecision: 'approve' as const,
+      agrees: false
+    });
+    await repository.save(buildTransaction({ id: 'old', shadow: shadow('candidate-1') }));
+    await repository.save(
+      buildTransaction({ id: 'new', timestamp: new Date('2024-01-15T11:00:00.000Z'), shadow: shadow('candidate-2') })
+    );
+    await repository.save(buildTransaction({ id: 'unshadowed' }));
+
+    expect((await repository.findShadowEvaluated()).map(t => t.id)).toEqual(['new', 'old']);
+    expect(await repository.findShadowEvaluated('candidate-1')).toEqual([
+      buildTransaction({ id: 'old', shadow: shadow('candidate-1') })
+    ]);
+  });
+
+  it('should store refunds linked to their transaction', async () => {
+    const repository = create();
+    await repository.save(buildTransaction());
+    await repository.save(buildTransaction({ id: 'txn-2' }));
+    await repository.saveRefund(buildRefund());
+    await repository.saveRefund(buildRefund({ id: 'refund-2', amount: 100 }));
+    await repository.saveRefund(buildRefund({ id: 'refund-3', transactionId: 'txn-2' }));
+
+    const refunds = await repository.listRefunds('txn-1');
+    expect(refunds.map(r => r.id)).toEqual(['refund-1', 'refund-2']);
+    expect(refunds[0].createdAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('SqliteTransactionRepository persistence', () => {
+  let directory: string;
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep transactions across restarts', async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'gateway-'));
+    const filename = path.join(directory, 'nested', 'gateway.db');
+
+    const first = new SqliteTransactionRepository(filename);
+    await first.save(buildTransaction());
+    first.close();
+
+    const second = new SqliteTransactionRepository(filename);
+    expect(await second.findById('txn-1')).toEqual(buildTransaction());
+    second.close();
+  });
+
+  it('should apply each migration exactly once', () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'gateway-'));
+    const db = new Database(path.join(directory, 'gateway.db'));
+
+    expect(migrate(db)).toBe(MIGRATIONS.length);
+    expect(migrate(db)).toBe(0);
+
+    const versions = db.prepare('SELECT version FROM schema_migrations ORDER BY version').all();
+    expect(versions).toEqual(MIGRATIONS.map(m => ({ version: m.version })));
+    db.close();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { assertTransition, canTransition, transition } from '../transactionState';
+import { Transaction } from '../types';
+import { GatewayError } from '../errors';
+
+describe('Transaction state machine', () => {
+  it('should allow an authorization to be captured, voided or expired', () => {
+    expect(canTransition('authorized', 'succeeded')).toBe(true);
+    expect(canTransition('authorized', 'voided')).toBe(true);
+    expect(canTransition('authorized', 'expired')).toBe(true);
+  });
+
+  it('should allow captured charges to be refunded', () => {
+    expect(canTransition('succeeded', 'partially_refunded')).toBe(true);
+    expect(canTransition('succeeded', 'refunded')).toBe(true);
+    expect(canTransition('partially_refunded', 'refunded')).toBe(true);
+  });
+
+  it('should settle a held charge once it is reviewed', () => {
+    expect(canTransition('pending_review', 'succeeded')).toBe(true);
+    expect(canTransition('pending_review', 'authorized')).toBe(true);
+    expect(canTransition('pending_review', 'declined')).toBe(true);
+    expect(canTransition('pending_review', 'refunded')).toBe(false);
+  });
+
+  it('should let providers dispute or decline a charge after the fact', () => {
+    expect(canTransition('succeeded', 'disputed')).toBe(true);
+    expect(canTransition('partially_refunded', 'disputed')).toBe(true);
+    expect(canTransition('disputed', 'succeeded')).toBe(true);
+    expect(canTransition('disputed', 'charged_back')).toBe(true);
+    expect(canTransition('charged_back', 'succeeded')).toBe(false);
+    expect(canTransition('authorized', 'declined')).toBe(true);
+    expect(canTransition('succeeded', 'declined')).toBe(true);
+    expect(canTransition('refunded', 'disputed')).toBe(false);
+  });
+
+  it('should reject illegal transitions', () => {
+    expect(canTransition('voided', 'succeeded')).toBe(false);
+    expect(canTransition('expired', 'succeeded')).toBe(false);
+    expect(canTransition('succeeded', 'voided')).toBe(false);
+    expect(canTransition('blocked', 'succeeded')).toBe(false);
+  });
+
+  it('should throw a 409 gateway error for illegal transitions', () => {
+    expect(() => assertTransition('voided', 'succeeded')).toThrow(GatewayError);
+    expect(() => assertTransition('voided', 'succeeded')).toThrow('Cannot move a voided transaction to succeeded');
+  });
+
+  describe('transition', () => {
+    const authorized = () => ({ status: 'authorized', timeline: [] } as unknown as Transaction);
+
+    it('should update the status and append to the timeline', () => {
+      const transaction = authorized();
+      const at = new Date('2024-01-15T10:30:00.000Z');
+
+      transition(transaction, 'succeeded', 'Captured 1000 of 1000', at);
+
+      expect(transaction.status).toBe('succeeded');
+      expect(transaction.timeline).toEqual([{ at, status: 'succeeded', note: 'Captured 1000 of 1000' }]);
+    });
+
+    it('should leave the transaction untouched on illegal transitions', () => {
+      const transaction = authorized();
+
+      expect(() => transition(transaction, 'refunded')).toThrow(GatewayError);
+      expect(transaction.status).toBe('authorized');
+      expect(transaction.timeline).toEqual([]);
+    });
+  });
+});
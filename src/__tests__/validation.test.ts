@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { validateChargeRequest } from '../validation';
+import {
+  validateApproveReview,
+  validateChargeRequest,
+  validateRefundRequest,
+  validateRejectReview,
+  validateRiskListEntry,
+  validateTransactionQuery
+} from '../validation';
 
 describe('Validation', () => {
   describe('validateChargeRequest', () => {
@@ -90,7 +97,8 @@ describe('Validation', () => {
           { currency: '123', reason: 'numbers' },
           { currency: '', reason: 'empty' },
           { currency: 'A', reason: 'too short' },
-          { currency: 'ABCD', reason: 'too long' }
+          { currency: 'ABCD', reason: 'too long' },
+          { currency: 'XYZ', reason: 'not a supported currency' }
         ];
 
         invalidCurrencies.forEach(({ currency, reason }) => {
@@ -107,7 +115,7 @@ describe('Validation', () => {
       });
 
       it('should accept valid currency codes', () => {
-        const validCurrencies = ['USD', 'EUR', 'GBP', 'JPY'];
+        const validCurrencies = ['USD', 'EUR', 'GBP', 'JPY', 'KWD'];
 
         validCurrencies.forEach(currency => {
           const request = {
@@ -271,4 +279,125 @@ describe('Validation', () => {
       expect(result.error).toBeDefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('capture flag', () => {
+    it('should accept an optional boolean capture flag', () => {
+      const result = validateChargeRequest({
+        amount: 1000,
+        currency: 'USD',
+        source: 'tok_test',
+        email: 'user@example.com',
+        capture: false
+      });
+
+      expect(result.error).toBeUndefined();
+      expect(result.value.capture).toBe(false);
+    });
+
+    it('should reject a non-boolean capture flag', () => {
+      const result = validateChargeRequest({
+        amount: 1000,
+        currency: 'USD',
+        source: 'tok_test',
+        email: 'user@example.com',
+        capture: 'later'
+      });
+
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('validateRefundRequest', () => {
+    it('should accept an empty body for a full refund', () => {
+      expect(validateRefundRequest(undefined).error).toBeUndefined();
+      expect(validateRefundRequest({}).error).toBeUndefined();
+    });
+
+    it('should accept a partial amount and reason', () => {
+      const result = validateRefundRequest({ amount: 500, reason: 'requested_by_customer' });
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should reject non-positive or fractional amounts', () => {
+      [0, -100, 10.5].forEach(amount => {
+        expect(validateRefundRequest({ amount }).error).toBeDefined();
+      });
+    });
+
+    it('should reject unknown fields', () => {
+      expect(validateRefundRequest({ amount: 100, currency: 'USD' }).error).toBeDefined();
+    });
+  });
+
+  describe('review decisions', () => {
+    it('should accept an approval without a note', () => {
+      expect(validateApproveReview(undefined).error).toBeUndefined();
+      expect(validateApproveReview({ reviewer: 'alice' }).error).toBeUndefined();
+    });
+
+    it('should require a note to reject', () => {
+      expect(validateRejectReview({ reviewer: 'alice' }).error).toBeDefined();
+      expect(validateRejectReview({ note: 'Stolen card' }).error).toBeUndefined();
+    });
+  });
+
+  describe('validateRiskListEntry', () => {
+    it('should normalize emails and domains to lower case', () => {
+      const result = validateRiskListEntry({ list: 'deny', type: 'email', value: 'Fraud@Example.com' });
+      expect(result.error).toBeUndefined();
+      expect(result.value.value).toBe('fraud@example.com');
+    });
+
+    it('should check the value against its type', () => {
+      expect(validateRiskListEntry({ list: 'deny', type: 'email', value: 'not-an-email' }).error).toBeDefined();
+      expect(validateRiskListEntry({ list: 'allow', type: 'domain', value: 'bad domain' }).error).toBeDefined();
+    });
+
+    it('should only take full card tokens as sources', () => {
+      const token = 'tok_5f0c9a1e2b7d4c3a8e6f1b2d';
+      expect(validateRiskListEntry({ list: 'deny', type: 'source', value: ` ${token.toUpperCase()} ` }).value.value).toBe(token);
+      for (const value of ['tok_****1b2d', 'tok_card', '4242424242424242']) {
+        expect(validateRiskListEntry({ list: 'deny', type: 'source', value }).error?.message).toBe(
+          '"value" must be a full card token, such as tok_5f0c9a1e2b7d4c3a8e6f1b2d'
+        );
+      }
+    });
+
+    it('should reject unknown lists and past expiry dates', () => {
+      expect(validateRiskListEntry({ list: 'grey', type: 'source', value: 'tok_5f0c9a1e2b7d4c3a8e6f1b2d' }).error).toBeDefined();
+      expect(
+        validateRiskListEntry({ list: 'deny', type: 'source', value: 'tok_5f0c9a1e2b7d4c3a8e6f1b2d', expiresAt: '2020-01-01T00:00:00Z' }).error
+      ).toBeDefined();
+    });
+  });
+
+  describe('validateTransactionQuery', () => {
+    it('should default the page size', () => {
+      const result = validateTransactionQuery({});
+      expect(result.error).toBeUndefined();
+      expect(result.value.limit).toBe(50);
+    });
+
+    it('should convert query string values', () => {
+      const result = validateTransactionQuery({
+        minAmount: '100',
+        maxRiskScore: '0.5',
+        createdFrom: '2024-01-15T00:00:00.000Z'
+      });
+
+      expect(result.error).toBeUndefined();
+      expect(result.value.minAmount).toBe(100);
+      expect(result.value.maxRiskScore).toBe(0.5);
+      expect(result.value.createdFrom).toBeInstanceOf(Date);
+    });
+
+    it('should reject unknown statuses, providers and out of range values', () => {
+      expect(validateTransactionQuery({ status: 'pending' }).error).toBeDefined();
+      expect(validateTransactionQuery({ provider: 'square' }).error).toBeDefined();
+      expect(validateTransactionQuery({ limit: 0 }).error).toBeDefined();
+      expect(validateTransactionQuery({ limit: 101 }).error).toBeDefined();
+      expect(validateTransactionQuery({ maxRiskScore: 2 }).error).toBeDefined();
+      expect(validateTransactionQuery({ createdTo: 'yesterday' }).error).toBeDefined();
+    });
+  });
+});
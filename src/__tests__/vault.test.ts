@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { CardVault, parseVaultKey } from '../vault';
+import { InMemoryVaultRepository, VaultRepository } from '../vaultRepository';
+import { SqliteVaultRepository } from '../sqliteVaultRepository';
+import { binOf, detectBrand, isExpired, luhnValid } from '../cards';
+
+const now = new Date('2024-01-15T10:30:00.000Z');
+const key = crypto.randomBytes(32);
+const VISA = { number: '4242424242424242', expMonth: 12, expYear: 2030, cvc: '123' };
+
+const implementations: [string, () => VaultRepository][] = [
+  ['InMemoryVaultRepository', () => new InMemoryVaultRepository()],
+  ['SqliteVaultRepository', () => new SqliteVaultRepository(':memory:')]
+];
+
+describe('cards', () => {
+  it('should check numbers with the Luhn algorithm', () => {
+    expect(luhnValid('4242424242424242')).toBe(true);
+    expect(luhnValid('378282246310005')).toBe(true);
+    expect(luhnValid('4242424242424241')).toBe(false);
+  });
+
+  it('should detect brands by prefix and length', () => {
+    expect(detectBrand('4242424242424242')?.brand).toBe('visa');
+    expect(detectBrand('5555555555554444')?.brand).toBe('mastercard');
+    expect(detectBrand('2223003122003222')?.brand).toBe('mastercard');
+    expect(detectBrand('378282246310005')).toMatchObject({ brand: 'amex', cvcLength: 4 });
+    expect(detectBrand('6011111111111117')?.brand).toBe('discover');
+    expect(detectBrand('3566002020360505')?.brand).toBe('jcb');
+    expect(detectBrand('36227206271667')?.brand).toBe('diners');
+    expect(detectBrand('42424242424242')).toBeUndefined();
+    expect(detectBrand('9999999999999995')).toBeUndefined();
+  });
+
+  it('should keep 8 digits of BIN for 16-digit and longer numbers and 6 for shorter ones', () => {
+    expect(binOf('4242424242424242')).toBe('42424242');
+    expect(binOf('4000056655665556123')).toBe('40000566');
+    expect(binOf('378282246310005')).toBe('378282');
+    expect(binOf('36227206271667')).toBe('362272');
+  });
+
+  it('should keep cards good through their expiry month', () => {
+    expect(isExpired(1, 2024, new Date('2024-01-31T23:59:59.999Z'))).toBe(false);
+    expect(isExpired(1, 2024, new Date('2024-02-01T00:00:00.000Z'))).toBe(true);
+    expect(isExpired(12, 2024, new Date('2024-12-31T12:00:00.000Z'))).toBe(false);
+  });
+});
+
+describe('parseVaultKey', () => {
+  it('should only take 256-bit hex keys', () => {
+    expect(parseVaultKey('ab'.repeat(32))).toHaveLength(32);
+    expect(() => parseVaultKey('ab'.repeat(16))).toThrow('VAULT_ENCRYPTION_KEY must be 64 hex characters');
+  });
+});
+
+describe.each(implementations)('CardVault with %s', (_name, create) => {
+  it('should store the number encrypted and reveal it for its merchant', async () => {
+    const repository = create();
+    const vault = new CardVault(repository, key);
+
+    const token = await vault.tokenize('m_1', VISA, now);
+
+    expect(token).toEqual({
+      id: expect.stringMatching(/^tok_[0-9a-f]{24}$/),
+      merchantId: 'm_1',
+      brand: 'visa',
+      last4: '4242',
+      expMonth: 12,
+      expYear: 2030,
+      createdAt: now
+    });
+    const stored = await repository.find(token.id);
+    expect(stored?.encryptedNumber).toMatch(/^v1\./);
+    expect(JSON.stringify(stored)).not.toContain(VISA.number);
+    expect(JSON.stringify(stored)).not.toContain('"123"');
+
+    expect(await vault.reveal(token.id, 'm_1', now)).toEqual({
+      card: { number: VISA.number, expMonth: 12, expYear: 2030 },
+      summary: { brand: 'visa', last4: '4242', bin: '42424242' }
+    });
+  });
+
+  it('should give the same card the same token per merchant', async () => {
+    const vault = new CardVault(create(), key);
+
+    const first = await vault.tokenize('m_1', VISA, now);
+    const renewed = await vault.tokenize('m_1', { ...VISA, expYear: 2031 }, now);
+    const other = await vault.tokenize('m_2', VISA, now);
+
+    expect(renewed).toEqual({ ...first, expYear: 2031 });
+    expect(other.id).not.toBe(first.id);
+    expect((await vault.reveal(first.id, 'm_1', now)).card.expYear).toBe(2031);
+  });
+
+  it('should reject cards that cannot be charged', async () => {
+    const vault = new CardVault(create(), key);
+    const rejects = (card: object) => expect(vault.tokenize('m_1', { ...VISA, ...card }, now)).rejects;
+
+    await rejects({ number: '4242424242424241' }).toMatchObject({ statusCode: 422, code: 'invalid_card_number' });
+    await rejects({ number: '9999999999999995' }).toMatchObject({ code: 'unsupported_card_brand' });
+    await rejects({ number: '378282246310005' }).toMatchObject({ code: 'invalid_cvc' });
+    await rejects({ cvc: '1234' }).toMatchObject({ code: 'invalid_cvc' });
+    await rejects({ expMonth: 12, expYear: 2023 }).toMatchObject({ code: 'card_expired' });
+  });
+
+  it("should treat another merchant's and unknown tokens alike", async () => {
+    const vault = new CardVault(create(), key);
+    const token = await vault.tokenize('m_1', VISA, now);
+
+    await expect(vault.reveal(token.id, 'm_2', now)).rejects.toMatchObject({ code: 'invalid_card_token' });
+    await expect(vault.reveal(token.id, undefined, now)).rejects.toMatchObject({ code: 'invalid_card_token' });
+    await expect(vault.reveal('tok_missing', 'm_1', now)).rejects.toMatchObject({
+      statusCode: 422,
+      code: 'invalid_card_token',
+      message: 'No such card token'
+    });
+  });
+
+  it('should refuse to charge cards that expired after they were vaulted', async () => {
+    const vault = new CardVault(create(), key);
+    const token = await vault.tokenize('m_1', { ...VISA, expMonth: 1, expYear: 2024 }, now);
+
+    await expect(vault.reveal(token.id, 'm_1', new Date('2024-02-01T00:00:00.000Z'))).rejects.toMatchObject({
+      code: 'card_expired'
+    });
+  });
+
+  it('should not decrypt under another key or for another token id', async () => {
+    const repository = create();
+    const token = await new CardVault(repository, key).tokenize('m_1', VISA, now);
+
+    await expect(new CardVault(repository, crypto.randomBytes(32)).reveal(token.id, 'm_1', now)).rejects.toMatchObject({
+      code: 'card_unreadable'
+    });
+
+    const stored = (await repository.find(token.id))!;
+    await repository.save({ ...stored, id: 'tok_copy', fingerprint: 'other' });
+    await expect(new CardVault(repository, key).reveal('tok_copy', 'm_1', now)).rejects.toMatchObject({
+      code: 'card_unreadable'
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { VelocityTracker } from '../velocityTracker';
+import { ChargeRequest } from '../types';
+
+const WINDOW_MS = 60 * 1000;
+
+const charge = (overrides: Partial<ChargeRequest> = {}): ChargeRequest => ({
+  amount: 1000,
+  currency: 'USD',
+  source: 'tok_card',
+  email: 'user@example.com',
+  ...overrides
+});
+
+describe('VelocityTracker', () => {
+  it('should report no history for a first charge', () => {
+    const tracker = new VelocityTracker(WINDOW_MS);
+
+    expect(tracker.signals(charge(), 0)).toEqual({
+      emailChargeCount: 0,
+      sourceChargeCount: 0,
+      sourceEmailCount: 1,
+      amountIncreaseRatio: 0,
+      blockedRetryCount: 0
+    });
+  });
+
+  it('should count charges per email and per source', () => {
+    const tracker = new VelocityTracker(WINDOW_MS);
+    tracker.record(charge(), false, 0);
+    tracker.record(charge({ email: 'USER@example.com', source: 'tok_other' }), false, 10);
+    tracker.record(charge({ email: 'other@example.com' }), false, 20);
+
+    const signals = tracker.signals(charge(), 30);
+    expect(signals.emailChargeCount).toBe(2);
+    expect(signals.sourceChargeCount).toBe(2);
+  });
+
+  it('should forget charges once they leave the window', () => {
+    const tracker = new VelocityTracker(WINDOW_MS);
+    tracker.record(charge(), false, 0);
+    tracker.record(charge(), false, 30 * 1000);
+
+    expect(tracker.signals(charge(), WINDOW_MS - 1).emailChargeCount).toBe(2);
+    expect(tracker.signals(charge(), WINDOW_MS).emailChargeCount).toBe(1);
+    expect(tracker.signals(charge(), WINDOW_MS + 30 * 1000).emailChargeCount).toBe(0);
+  });
+
+  it('should count distinct emails on a source including the current one', () => {
+    const tracker = new VelocityTracker(WINDOW_MS);
+    tracker.record(charge({ email: 'a@example.com' }), false, 0);
+    tracker.record(charge({ email: 'b@example.com' }), false, 0);
+    tracker.record(charge({ email: 'b@example.com' }), false, 0);
+
+    expect(tracker.signals(charge({ email: 'c@example.com' }), 1).sourceEmailCount).toBe(3);
+    expect(tracker.signals(charge({ email: 'a@example.com' }), 1).sourceEmailCount).toBe(2);
+  });
+
+  it('should compare the amount with the average of recent charges from the email', () => {
+    const tracker = new VelocityTracker(WINDOW_MS);
+    tracker.record(charge({ amount: 1000 }), false, 0);
+    tracker.record(charge({ amount: 3000 }), false, 0);
+
+    expect(tracker.signals(charge({ amount: 20000 }), 1).amountIncreaseRatio).toBe(10);
+  });
+
+  it('should count blocked attempts at a higher amount than the retry', () => {
+    const tracker = new VelocityTracker(WINDOW_MS);
+    tracker.record(charge({ amount: 90000 }), true, 0);
+    tracker.record(charge({ amount: 80000, email: 'new@example.com' }), true, 0);
+    tracker.record(charge({ amount: 500 }), true, 0);
+    tracker.record(charge({ amount: 70000 }), false, 0);
+
+    expect(tracker.signals(charge({ amount: 1000 }), 1).blockedRetryCount).toBe(2);
+    expect(tracker.signals(charge({ amount: 85000 }), 1).blockedRetryCount).toBe(1);
+  });
+});
@@ -0,0 +1,303 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookDispatcher, WebhookDispatcherOptions, signWebhook, verifyWebhookSignature } from '../webhooks';
+import { InMemoryWebhookRepository, WebhookRepository } from '../webhookRepository';
+import { SqliteWebhookRepository } from '../sqliteWebhookRepository';
+import { Refund } from '../types';
+import { endpointUrlProblem, isInternalAddress } from '../webhookUrls';
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// A local HTTP server standing in for a merchant's webhook endpoint
+const startReceiver = async () => {
+  const received: Received[] = [];
+  const receiver = { received, status: 200, headers: {} as http.OutgoingHttpHeaders, hang: false, url: '', close: async () => {} };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      if (!receiver.hang) {
+        res.writeHead(receiver.status, receiver.headers).end();
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  receiver.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  receiver.close = () =>
+    new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    });
+  return receiver;
+};
+
+const refund: Refund = {
+  id: 'ref_1',
+  transactionId: 'txn_1',
+  amount: 500,
+  status: 'succeeded',
+  createdAt: new Date('2024-01-15T10:30:00.000Z')
+};
+
+// The receiver is plain http on localhost, which only a development setup allows
+const options: WebhookDispatcherOptions = {
+  maxAttempts: 3,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 1500,
+  timeoutMs: 1000,
+  allowPrivateUrls: true
+};
+
+// Far enough ahead that every backoff has elapsed
+const later = () => Date.now() + 60 * 60 * 1000;
+
+describe('webhook signatures', () => {
+  const body = '{"id":"evt_1"}';
+  const now = Date.parse('2024-01-15T10:30:00.000Z');
+  const timestamp = now / 1000;
+
+  it('should verify a signature made with the same secret', () => {
+    const signature = signWebhook('whsec_test', timestamp, body);
+
+    expect(signature).toMatch(/^v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature('whsec_test', body, String(timestamp), signature, now)).toBe(true);
+  });
+
+  it('should reject tampered bodies, other secrets and stale timestamps', () => {
+    const signature = signWebhook('whsec_test', timestamp, body);
+
+    expect(verifyWebhookSignature('whsec_test', '{"id":"evt_2"}', String(timestamp), signature, now)).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', body, String(timestamp), signature, now)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', body, String(timestamp), signature, now + 301 * 1000)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', body, 'soon', signature, now)).toBe(false);
+  });
+});
+
+describe('webhook endpoint URLs', () => {
+  it('should only let merchants use https on public hosts', () => {
+    expect(endpointUrlProblem('https://hooks.example.com/payments')).toBeUndefined();
+    expect(endpointUrlProblem('https://93.184.216.34/hooks')).toBeUndefined();
+    expect(endpointUrlProblem('http://hooks.example.com/payments')).toBe('Webhook endpoints must use https');
+    for (const url of [
+      'https://localhost/hooks',
+      'https://api.localhost/hooks',
+      'https://127.0.0.1/hooks',
+      'https://2130706433/hooks',
+      'https://169.254.169.254/latest/meta-data',
+      'https://10.1.2.3/hooks',
+      'https://172.16.0.1/hooks',
+      'https://192.168.1.10/hooks',
+      'https://[::1]/hooks',
+      'https://[::ffff:127.0.0.1]/hooks',
+      'https://[fd00::1]/hooks'
+    ]) {
+      expect(endpointUrlProblem(url), url).toBe('Webhook endpoints cannot point at loopback, link-local or private addresses');
+    }
+  });
+
+  it('should tell internal addresses from public ones', () => {
+    expect(isInternalAddress('100.64.0.1')).toBe(true);
+    expect(isInternalAddress('fe80::1')).toBe(true);
+    expect(isInternalAddress('172.32.0.1')).toBe(false);
+    expect(isInternalAddress('2606:4700::1111')).toBe(false);
+  });
+});
+
+const implementations: [string, () => WebhookRepository][] = [
+  ['InMemoryWebhookRepository', () => new InMemoryWebhookRepository()],
+  ['SqliteWebhookRepository', () => new SqliteWebhookRepository(':memory:')]
+];
+
+describe.each(implementations)('WebhookDispatcher with %s', (_name, create) => {
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+  let repository: WebhookRepository;
+  let webhooks: WebhookDispatcher;
+
+  beforeEach(async () => {
+    receiver = await startReceiver();
+    repository = create();
+    webhooks = new WebhookDispatcher(repository, options);
+  });
+
+  afterEach(async () => {
+    await webhooks.idle();
+    await receiver.close();
+  });
+
+  it('should send signed events to subscribed endpoints', async () => {
+    const endpoint = await webhooks.register({ url: receiver.url, events: ['refund.created'] });
+    await webhooks.register({ url: receiver.url, events: ['charge.succeeded'] });
+
+    await webhooks.publish('refund.created', refund);
+    await webhooks.idle();
+
+    expect(receiver.received).toHaveLength(1);
+    const [{ headers, body }] = receiver.received;
+    expect(JSON.parse(body)).toMatchObject({ type: 'refund.created', data: { object: { id: 'ref_1', amount: 500 } } });
+    expect(headers['x-webhook-event']).toBe('refund.created');
+    expect(headers['x-webhook-id']).toBe(JSON.parse(body).id);
+    expect(
+      verifyWebhookSignature(
+        endpoint.secret,
+        body,
+        headers['x-webhook-timestamp'] as string,
+        headers['x-webhook-signature'] as string
+      )
+    ).toBe(true);
+
+    const [delivery] = await webhooks.listDeliveries({ limit: 10 });
+    expect(delivery).toMatchObject({ endpointId: endpoint.id, status: 'succeeded', attempts: [{ statusCode: 200 }] });
+  });
+
+  it('should only send a merchant its own events', async () => {
+    await webhooks.register({ url: receiver.url, events: ['*'], merchantId: 'm_1' });
+
+    await webhooks.publish('refund.created', refund, 'm_2');
+    await webhooks.publish('refund.created', refund);
+    await webhooks.publish('refund.created', refund, 'm_1');
+    await webhooks.idle();
+
+    expect(receiver.received).toHaveLength(1);
+    const [delivery] = await webhooks.listDeliveries({ merchantId: 'm_1', limit: 10 });
+    expect(delivery.merchantId).toBe('m_1');
+    expect(await webhooks.listDeliveries({ merchantId: 'm_2', limit: 10 })).toEqual([]);
+    await expect(webhooks.redeliver(delivery.id, 'm_2')).rejects.toMatchObject({ statusCode: 404 });
+    expect(await webhooks.listEndpoints('m_2')).toEqual([]);
+  });
+
+  it('should retry failures with exponential backoff and then dead-letter them', async () => {
+    receiver.status = 500;
+    await webhooks.register({ url: receiver.url, events: ['*'] });
+
+    await webhooks.publish('refund.created', refund);
+    await webhooks.idle();
+    expect(await webhooks.retryDue()).toBe(0);
+
+    expect(await webhooks.retryDue(later())).toBe(1);
+    expect(await webhooks.retryDue(later())).toBe(1);
+    expect(await webhooks.retryDue(later())).toBe(0);
+
+    const [delivery] = await webhooks.listDeliveries({ status: 'dead', limit: 10 });
+    expect(delivery.attempts.map(attempt => attempt.statusCode)).toEqual([500, 500, 500]);
+    expect(delivery.attempts[0].error).toBe('Endpoint responded with 500');
+    expect(delivery.nextAttemptAt).toBeUndefined();
+    expect(receiver.received).toHaveLength(3);
+    expect(new Set(receiver.received.map(request => request.headers['x-webhook-id'])).size).toBe(1);
+  });
+
+  it('should double the wait between attempts up to the cap', async () => {
+    receiver.status = 503;
+    await webhooks.register({ url: receiver.url, events: ['*'] });
+    await webhooks.publish('refund.created', refund);
+    await webhooks.idle();
+
+    const waits: number[] = [];
+    for (let i = 0; i < 2; i++) {
+      const [delivery] = await webhooks.listDeliveries({ status: 'pending', limit: 10 });
+      const last = delivery.attempts[delivery.attempts.length - 1];
+      waits.push(delivery.nextAttemptAt!.getTime() - last.at.getTime());
+      await webhooks.retryDue(later());
+    }
+
+    expect(waits).toEqual([1000, 1500]);
+  });
+
+  it('should redeliver dead letters by hand', async () => {
+    receiver.status = 500;
+    await webhooks.register({ url: receiver.url, events: ['*'] });
+    await webhooks.publish('refund.created', refund);
+    await webhooks.idle();
+    await webhooks.retryDue(later());
+    await webhooks.retryDue(later());
+    const [dead] = await webhooks.listDeliveries({ status: 'dead', limit: 10 });
+
+    const stillFailing = await webhooks.redeliver(dead.id);
+    expect(stillFailing.status).toBe('dead');
+
+    receiver.status = 204;
+    const redelivered = await webhooks.redeliver(dead.id);
+
+    expect(redelivered.status).toBe('succeeded');
+    expect(redelivered.attempts.slice(-2)).toMatchObject([{ manual: true, statusCode: 500 }, { manual: true, statusCode: 204 }]);
+    expect(await webhooks.listDeliveries({ status: 'dead', limit: 10 })).toEqual([]);
+    await expect(webhooks.redeliver('missing')).rejects.toMatchObject({ statusCode: 404, code: 'webhook_delivery_not_found' });
+  });
+
+  it('should give up on endpoints that do not answer in time', async () => {
+    receiver.hang = true;
+    webhooks = new WebhookDispatcher(repository, { ...options, timeoutMs: 50 });
+    await webhooks.register({ url: receiver.url, events: ['*'] });
+
+    await webhooks.publish('refund.created', refund);
+    await webhooks.idle();
+
+    const [delivery] = await webhooks.listDeliveries({ limit: 10 });
+    expect(delivery).toMatchObject({ status: 'pending', attempts: [{ error: 'No response within 50ms' }] });
+  });
+
+  it('should dead-letter deliveries whose endpoint was removed', async () => {
+    receiver.status = 500;
+    const endpoint = await webhooks.register({ url: receiver.url, events: ['*'] });
+    await webhooks.publish('refund.created', refund);
+    await webhooks.idle();
+
+    expect(await webhooks.removeEndpoint(endpoint.id)).not.toHaveProperty('secret');
+    await webhooks.retryDue(later());
+
+    const [delivery] = await webhooks.listDeliveries({ endpointId: endpoint.id, limit: 10 });
+    expect(delivery).toMatchObject({ status: 'dead' });
+    expect(delivery.attempts[1].error).toBe('Endpoint was removed');
+    await expect(webhooks.removeEndpoint(endpoint.id)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should refuse internal URLs from merchants unless they are allowed', async () => {
+    const strict = new WebhookDispatcher(repository, { ...options, allowPrivateUrls: false });
+
+    await expect(strict.register({ url: receiver.url, events: ['*'], merchantId: 'm_1' })).rejects.toMatchObject({
+      statusCode: 422,
+      code: 'webhook_url_not_allowed',
+      message: 'Webhook endpoints must use https'
+    });
+    expect(await strict.register({ url: receiver.url, events: ['*'] }, true)).toMatchObject({ trusted: true });
+  });
+
+  it('should check URLs again before sending', async () => {
+    const endpoint = await webhooks.register({ url: receiver.url, events: ['*'], merchantId: 'm_1' });
+    const strict = new WebhookDispatcher(repository, { ...options, allowPrivateUrls: false });
+
+    await strict.publish('refund.created', refund, 'm_1');
+    await strict.idle();
+
+    expect(receiver.received).toEqual([]);
+    const [delivery] = await strict.listDeliveries({ endpointId: endpoint.id, limit: 10 });
+    expect(delivery.attempts).toEqual([expect.objectContaining({ error: 'Webhook endpoints must use https' })]);
+  });
+
+  it('should not follow redirects', async () => {
+    receiver.status = 307;
+    receiver.headers = { Location: `${receiver.url}/elsewhere` };
+    await webhooks.register({ url: receiver.url, events: ['*'] });
+
+    await webhooks.publish('refund.created', refund);
+    await webhooks.idle();
+
+    expect(receiver.received).toHaveLength(1);
+    const [delivery] = await webhooks.listDeliveries({ limit: 10 });
+    expect(delivery.attempts[0]).toMatchObject({ statusCode: 307, error: 'Endpoint responded with 307' });
+  });
+
+  it('should list endpoints without their secrets', async () => {
+    await webhooks.register({ url: receiver.url, events: ['*'], description: 'Ledger' });
+
+    const endpoints = await webhooks.listEndpoints();
+    expect(endpoints).toEqual([expect.objectContaining({ url: receiver.url, description: 'Ledger' })]);
+    expect(endpoints[0]).not.toHaveProperty('secret');
+  });
+});
@@ -1,21 +1,328 @@
-import express from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import { PaymentService } from './paymentService';
-import { validateChargeRequest } from './validation';
+import {
+  validateChargeRequest,
+  validateCaptureRequest,
+  validateRefundRequest,
+  validateTransactionQuery,
+  validateApproveReview,
+  validateRejectReview,
+  validateRiskListEntry,
+  validateRiskListQuery,
+  validateShadowReportQuery,
+  validateProviderEventQuery,
+  validateWebhookDeliveryQuery,
+  validateWebhookEndpoint,
+  validateMerchant,
+  validateMerchantSettings,
+  validateCard,
+  validateRotateApiKey
+} from './validation';
+import { GatewayError } from './errors';
+import { FraudDetector } from './fraudDetection';
+import { DEFAULT_RULE_SET, loadRuleSet } from './fraudRules';
+import { VelocityTracker } from './velocityTracker';
+import { RiskLists } from './riskLists';
+import { ShadowEvaluator } from './shadowEvaluator';
+import { ProviderRouter } from './providerRouter';
+import { loadRoutingRules } from './routingRules';
+import { createProviderRegistry } from './providerRegistry';
+import { FxConverter, loadFxRates } from './fx';
+import { loadRiskModel } from './riskModel';
+import { createRiskListRepository } from './riskListRepository';
+import { WebhookDispatcher } from './webhooks';
+import { createWebhookRepository } from './webhookRepository';
+import { InboundWebhooks } from './inboundWebhooks';
+import { createProviderWebhookHandlers } from './providerWebhooks';
+import { createProviderEventRepository } from './providerEventRepository';
+import { Merchants, Principal } from './merchants';
+import { createMerchantRepository } from './merchantRepository';
+import { CardVault, parseVaultKey } from './vault';
+import { createVaultRepository } from './vaultRepository';
+import { InMemoryRateLimitStore, RateLimitResult, RateLimitStore } from './rateLimiter';
+import { GatewayConfig, RateLimitTier, loadConfig } from './config';
+import { IdempotencyStore, fingerprintRequest } from './idempotency';
+import { presentTransaction, redactResponse } from './redaction';
 
-export const createApp = () => {
+const sendError = (res: Response, err: unknown) => {
+  if (err instanceof GatewayError) {
+    return res.status(err.statusCode).json({ error: err.message, code: err.code });
+  }
+  res.status(500).json({ error: 'Internal server error' });
+};
+
+// Admin changes are audited, so every one of them has to say who made it
+const adminActor = (req: Request): string | undefined => req.header('X-Admin-User')?.trim() || undefined;
+
+const missingActor = (res: Response) =>
+  res.status(400).json({ error: 'Invalid request', details: ['"X-Admin-User" header is required'] });
+
+// Set by the authentication middleware on every route registered after it
+const principal = (res: Response): Principal => res.locals.principal;
+
+// The merchant a request is limited to; the admin key is not limited to one
+const merchantScope = (res: Response): string | undefined => {
+  const caller = principal(res);
+  return caller.role === 'admin' ? undefined : caller.merchant.id;
+};
+
+const authorize =
+  (...roles: Principal['role'][]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const { role } = principal(res);
+    if (roles.includes(role)) {
+      return next();
+    }
+    const key = role === 'admin' ? 'the admin key' : `a ${role} key`;
+    sendError(res, new GatewayError(403, 'forbidden', `This endpoint cannot be called with ${key}`));
+  };
+
+// Charges get their own, tighter limits: each one may also call OpenAI
+const rateLimitTier = (req: Request): 'charge' | 'read' =>
+  req.method === 'POST' && req.path === '/charge' ? 'charge' : 'read';
+
+// With both an IP and a key limit, the headers describe whichever is closer to running out
+const setRateLimitHeaders = (res: Response, result: RateLimitResult) => {
+  const reported = res.getHeader('RateLimit-Remaining');
+  if (reported !== undefined && Number(reported) <= result.remaining) {
+    return;
+  }
+  res.set({
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000))
+  });
+};
+
+// What the environment cannot describe: shared state that lives outside this process
+export interface AppOptions {
+  // Shared between gateway instances, e.g. one backed by Redis; by default buckets are kept in memory
+  rateLimitStore?: RateLimitStore;
+}
+
+export const createApp = (config: GatewayConfig = loadConfig(), options: AppOptions = {}) => {
   const app = express();
-  const paymentService = new PaymentService();
+  const riskLists = new RiskLists(createRiskListRepository(config));
+  const velocity = new VelocityTracker(config.fraud.velocityWindowMs);
+  const ruleSet = config.fraud.rulesPath ? loadRuleSet(config.fraud.rulesPath) : DEFAULT_RULE_SET;
+  const { shadowRulesPath, shadowModelPath } = config.fraud;
+  const fx = new FxConverter(config.fx.ratesPath ? loadFxRates(config.fx.ratesPath) : undefined);
+  // A malformed rule, model, routing, provider or rates file throws here so the server refuses to start with it
+  const fraudDetector = new FraudDetector(
+    ruleSet,
+    velocity,
+    riskLists,
+    config.fraud.modelPath ? loadRiskModel(config.fraud.modelPath) : undefined,
+    fx
+  );
+  // The candidate shares the live velocity history and lists; only its rules or model differ
+  const shadowEvaluator =
+    shadowRulesPath || shadowModelPath
+      ? new ShadowEvaluator(
+          new FraudDetector(
+            shadowRulesPath ? loadRuleSet(shadowRulesPath) : ruleSet,
+            velocity,
+            riskLists,
+            shadowModelPath ? loadRiskModel(shadowModelPath) : undefined,
+            fx
+          )
+        )
+      : undefined;
+  const registry = createProviderRegistry(config);
+  const router = config.routing.rulesPath
+    ? new ProviderRouter(loadRoutingRules(config.routing.rulesPath, registry.enabledIds()))
+    : undefined;
+  const webhooks = new WebhookDispatcher(createWebhookRepository(config), config.webhooks);
+  const merchants = new Merchants(createMerchantRepository(config), config.auth.adminKey);
+  const rateLimitStore = options.rateLimitStore ?? new InMemoryRateLimitStore();
+  const vault = new CardVault(
+    createVaultRepository(config),
+    config.vault.encryptionKey ? parseVaultKey(config.vault.encryptionKey) : undefined
+  );
+  const paymentService = new PaymentService({
+    config,
+    fraudDetector,
+    shadowEvaluator,
+    router,
+    registry,
+    webhooks,
+    merchants,
+    vault,
+    fx
+  });
+  const idempotencyStore = new IdempotencyStore(config.idempotency.ttlMs);
+  const inboundWebhooks = new InboundWebhooks(
+    createProviderWebhookHandlers(config),
+    createProviderEventRepository(config),
+    paymentService
+  );
+
+  // Another merchant's transaction is reported as missing so ids cannot be probed
+  const findTransaction = async (res: Response, id: string) => {
+    const transaction = await paymentService.getTransaction(id);
+    const scope = merchantScope(res);
+    return transaction && (!scope || transaction.request.merchantId === scope) ? transaction : undefined;
+  };
+
+  const rateLimit =
+    (scope: keyof RateLimitTier, clientOf: (req: Request, res: Response) => string) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      const tier = rateLimitTier(req);
+      const limit = config.rateLimit[tier][scope];
+      if (limit.limit <= 0) {
+        return next();
+      }
 
+      let result: RateLimitResult;
+      try {
+        result = await rateLimitStore.take(`${tier}:${scope}:${clientOf(req, res)}`, limit);
+      } catch (err) {
+        return sendError(res, err);
+      }
+
+      setRateLimitHeaders(res, result);
+      if (!result.allowed) {
+        const seconds = Math.ceil(result.retryAfterMs / 1000);
+        res.set('Retry-After', String(seconds));
+        return sendError(res, new GatewayError(429, 'rate_limited', `Too many requests; retry after ${seconds}s`));
+      }
+      next();
+    };
+
+  const assertOwnTransaction = async (res: Response, id: string) => {
+    if (!(await findTransaction(res, id))) {
+      throw new GatewayError(404, 'transaction_not_found', 'Transaction not found');
+    }
+  };
+
+  // Exposed so the server entry point can run background jobs against the same state
+  app.locals.paymentService = paymentService;
+  app.locals.fraudDetector = fraudDetector;
+  app.locals.webhooks = webhooks;
+  app.locals.merchants = merchants;
+
+  if (config.rateLimit.trustProxyHops > 0) {
+    app.set('trust proxy', config.rateLimit.trustProxyHops);
+  }
   app.use(helmet());
   app.use(cors());
+
+  app.get('/health', (req, res) => {
+    res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      providers: paymentService.getCircuitStates()
+    });
+  });
+
+  // Registered before the JSON parser: provider signatures cover the body exactly as sent.
+  // Providers cannot send our API keys, so their signature is what authenticates these.
+  app.post('/webhooks/:provider', express.raw({ type: '*/*', limit: '1mb' }), async (req, res) => {
+    try {
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const { record, duplicate } = await inboundWebhooks.receive(req.params.provider, body, req.headers);
+      res.json({ received: true, duplicate, status: record.status });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  // Limited by IP before authentication too, so guessing keys is as slow as using one
+  app.use(rateLimit('perIp', req => req.ip ?? 'unknown'));
+
+  // Everything below needs an API key
+  app.use(async (req, res, next) => {
+    try {
+      res.locals.principal = await merchants.authenticate(req.header('Authorization'));
+    } catch (err) {
+      res.set('WWW-Authenticate', 'Bearer');
+      return sendError(res, err);
+    }
+    next();
+  });
+
+  app.use(
+    rateLimit('perKey', (req, res) => {
+      const caller = principal(res);
+      return caller.role === 'admin' ? 'admin' : caller.keyId;
+    })
+  );
+
   app.use(express.json());
 
-  app.post('/charge', async (req, res) => {
+  app.post('/charge', authorize('secret'), async (req, res) => {
+    const idempotencyKey = req.header('Idempotency-Key');
+    const merchantId = merchantScope(res)!;
+    // Keys are per merchant: two merchants may well both send "order-1"
+    const storeKey = `${merchantId}:${idempotencyKey}`;
+
+    if (idempotencyKey !== undefined) {
+      if (idempotencyKey.length < 1 || idempotencyKey.length > 255) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: ['"Idempotency-Key" header must be between 1 and 255 characters']
+        });
+      }
+
+      const lookup = idempotencyStore.begin(storeKey, fingerprintRequest(req.body));
+
+      if (lookup.kind === 'mismatch') {
+        return res.status(422).json({
+          error: 'Idempotency key reused',
+          details: ['This Idempotency-Key was already used with a different request body']
+        });
+      }
+
+      if (lookup.kind === 'in_flight') {
+        return res.status(409).json({
+          error: 'Request in progress',
+          details: ['A request with this Idempotency-Key is still being processed']
+        });
+      }
+
+      if (lookup.kind === 'replay') {
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(lookup.statusCode).type('application/json').send(lookup.body);
+      }
+    }
+
     try {
       const { error, value } = validateChargeRequest(req.body);
       
+      if (error) {
+        if (idempotencyKey !== undefined) {
+          idempotencyStore.release(storeKey);
+        }
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      // The merchant is whoever owns the key, whatever the body says
+      const response = await paymentService.processCharge({ ...value, merchantId });
+      // Only secret keys charge, so the response never carries list entry details
+      const body = JSON.stringify(redactResponse(response));
+
+      if (idempotencyKey !== undefined) {
+        idempotencyStore.complete(storeKey, 200, body);
+      }
+      res.type('application/json').send(body);
+    } catch (err) {
+      if (idempotencyKey !== undefined) {
+        idempotencyStore.release(storeKey);
+      }
+      sendError(res, err);
+    }
+  });
+
+  // Publishable keys may tokenize, so card numbers can go from a browser or app straight to the vault
+  app.post('/tokens', authorize('publishable', 'secret'), async (req, res) => {
+    try {
+      const { error, value } = validateCard(req.body);
+
       if (error) {
         return res.status(400).json({
           error: 'Invalid request',
@@ -23,20 +330,440 @@ export const createApp = () => {
         });
       }
 
-      const response = await paymentService.processCharge(value);
-      res.json(response);
+      res.status(201).json(await vault.tokenize(merchantScope(res)!, value));
     } catch (err) {
-      res.status(500).json({ error: 'Internal server error' });
+      sendError(res, err);
     }
   });
 
-  app.get('/transactions', (req, res) => {
-    const transactions = paymentService.getTransactions();
-    res.json({ transactions });
+  app.get('/transactions', authorize('secret', 'admin'), async (req, res) => {
+    try {
+      const { error, value } = validateTransactionQuery(req.query, registry.ids());
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const page = await paymentService.listTransactions({ ...value, merchantId: merchantScope(res) });
+      res.json({ ...page, transactions: page.transactions.map(transaction => presentTransaction(principal(res), transaction)) });
+    } catch (err) {
+      sendError(res, err);
+    }
   });
 
-  app.get('/health', (req, res) => {
-    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  app.get('/transactions/:id', authorize('secret', 'admin'), async (req, res) => {
+    try {
+      const transaction = await findTransaction(res, req.params.id);
+
+      if (!transaction) {
+        return res.status(404).json({
+          error: 'Transaction not found',
+          code: 'transaction_not_found',
+          transactionId: req.params.id
+        });
+      }
+
+      res.json(presentTransaction(principal(res), transaction));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.post('/transactions/:id/refunds', authorize('secret', 'admin'), async (req, res) => {
+    try {
+      await assertOwnTransaction(res, req.params.id);
+      const { error, value } = validateRefundRequest(req.body);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const refund = await paymentService.refundCharge(req.params.id, value);
+      res.status(refund.status === 'succeeded' ? 201 : 502).json(refund);
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.post('/transactions/:id/capture', authorize('secret', 'admin'), async (req, res) => {
+    try {
+      await assertOwnTransaction(res, req.params.id);
+      const { error, value } = validateCaptureRequest(req.body);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      await paymentService.captureCharge(req.params.id, value);
+      res.json(presentTransaction(principal(res), (await paymentService.getTransaction(req.params.id))!));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.post('/transactions/:id/void', authorize('secret', 'admin'), async (req, res) => {
+    try {
+      await assertOwnTransaction(res, req.params.id);
+      await paymentService.voidCharge(req.params.id);
+      res.json(presentTransaction(principal(res), (await paymentService.getTransaction(req.params.id))!));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.get('/reviews', authorize('admin'), async (req, res) => {
+    try {
+      res.json({ transactions: await paymentService.listReviews() });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.post('/reviews/:id/approve', authorize('admin'), async (req, res) => {
+    try {
+      const { error, value } = validateApproveReview(req.body);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      await paymentService.approveReview(req.params.id, value);
+      res.json(await paymentService.getTransaction(req.params.id));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.post('/reviews/:id/reject', authorize('admin'), async (req, res) => {
+    try {
+      const { error, value } = validateRejectReview(req.body);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      await paymentService.rejectReview(req.params.id, value);
+      res.json(await paymentService.getTransaction(req.params.id));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.get('/admin/lists', authorize('admin'), async (req, res) => {
+    try {
+      const { error, value } = validateRiskListQuery(req.query);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      res.json({ entries: await riskLists.list(value) });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.post('/admin/lists', authorize('admin'), async (req, res) => {
+    try {
+      const actor = adminActor(req);
+      if (!actor) {
+        return missingActor(res);
+      }
+
+      const { error, value } = validateRiskListEntry(req.body);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      res.status(201).json(await riskLists.add(value, actor));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.delete('/admin/lists/:id', authorize('admin'), async (req, res) => {
+    try {
+      const actor = adminActor(req);
+      if (!actor) {
+        return missingActor(res);
+      }
+
+      res.json(await riskLists.remove(req.params.id, actor));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.get('/admin/lists/audit', authorize('admin'), async (req, res) => {
+    try {
+      res.json({ events: await riskLists.auditLog() });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.get('/admin/shadow/report', authorize('admin'), async (req, res) => {
+    try {
+      const { error, value } = validateShadowReportQuery(req.query);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      res.json(await paymentService.getShadowReport(value));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  // The signing secret is only in the creation response. A merchant's endpoints only get its own events
+  app.post('/webhook-endpoints', authorize('secret', 'admin'), async (req, res) => {
+    try {
+      const { error, value } = validateWebhookEndpoint(req.body);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const scope = merchantScope(res);
+      res.status(201).json(await webhooks.register(scope ? { ...value, merchantId: scope } : value, !scope));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.get('/webhook-endpoints', authorize('secret', 'admin'), async (req, res) => {
+    try {
+      res.json({ endpoints: await webhooks.listEndpoints(merchantScope(res)) });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.delete('/webhook-endpoints/:id', authorize('secret', 'admin'), async (req, res) => {
+    try {
+      res.json(await webhooks.removeEndpoint(req.params.id, merchantScope(res)));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  // `?status=dead` is the dead-letter list
+  app.get('/webhook-deliveries', authorize('secret', 'admin'), async (req, res) => {
+    try {
+      const { error, value } = validateWebhookDeliveryQuery(req.query);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      res.json({ deliveries: await webhooks.listDeliveries({ ...value, merchantId: merchantScope(res) }) });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.post('/webhook-deliveries/:id/redeliver', authorize('secret', 'admin'), async (req, res) => {
+    try {
+      res.json(await webhooks.redeliver(req.params.id, merchantScope(res)));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.get('/admin/provider-events', authorize('admin'), async (req, res) => {
+    try {
+      const { error, value } = validateProviderEventQuery(req.query);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      res.json({ events: await inboundWebhooks.list(value) });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.post('/admin/provider-events/:id/replay', authorize('admin'), async (req, res) => {
+    try {
+      res.json(await inboundWebhooks.replay(req.params.id));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  // Full keys are only in these responses
+  app.post('/admin/merchants', authorize('admin'), async (req, res) => {
+    try {
+      const { error, value } = validateMerchant(req.body);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      res.status(201).json(await merchants.create(value));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.get('/admin/merchants', authorize('admin'), async (req, res) => {
+    try {
+      res.json({ merchants: await merchants.list() });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.get('/admin/settings', authorize('admin'), async (req, res) => {
+    try {
+      res.json(await merchants.getSettings(null));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.put('/admin/settings', authorize('admin'), async (req, res) => {
+    try {
+      const actor = adminActor(req);
+      if (!actor) {
+        return missingActor(res);
+      }
+
+      const { error, value } = validateMerchantSettings(req.body, registry.enabledIds());
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      res.json(await merchants.updateSettings(null, value, actor));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  // `resolved` adds what the merchant inherits from the defaults
+  app.get('/admin/merchants/:id/settings', authorize('admin'), async (req, res) => {
+    try {
+      const record = await merchants.getSettings(req.params.id);
+      res.json({ ...record, resolved: await merchants.settingsFor(req.params.id) });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.put('/admin/merchants/:id/settings', authorize('admin'), async (req, res) => {
+    try {
+      const actor = adminActor(req);
+      if (!actor) {
+        return missingActor(res);
+      }
+
+      const { error, value } = validateMerchantSettings(req.body, registry.enabledIds());
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      const record = await merchants.updateSettings(req.params.id, value, actor);
+      res.json({ ...record, resolved: await merchants.settingsFor(req.params.id) });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  // Merchants can read the settings their charges run with, but only the admin key changes them
+  app.get('/settings', authorize('secret'), async (req, res) => {
+    try {
+      res.json({ settings: await merchants.settingsFor(merchantScope(res)) });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.get('/api-keys', authorize('secret'), async (req, res) => {
+    try {
+      res.json({ keys: await merchants.listKeys(merchantScope(res)!) });
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.post('/api-keys/:id/rotate', authorize('secret'), async (req, res) => {
+    try {
+      const { error, value } = validateRotateApiKey(req.body);
+
+      if (error) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          details: error.details.map(d => d.message)
+        });
+      }
+
+      res.status(201).json(await merchants.rotateKey(merchantScope(res)!, req.params.id, value.graceMs));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  app.delete('/api-keys/:id', authorize('secret'), async (req, res) => {
+    try {
+      res.json(await merchants.revokeKey(merchantScope(res)!, req.params.id));
+    } catch (err) {
+      sendError(res, err);
+    }
+  });
+
+  // Publishable keys may read this, e.g. to show a checkout which providers are up
+  app.get('/providers', (req, res) => {
+    const circuits = paymentService.getCircuitStates();
+    res.json({
+      providers: registry.describe().map(provider => ({ ...provider, circuit: circuits[provider.id] ?? null }))
+    });
   });
 
   return app;
@@ -0,0 +1,46 @@
+import { CardBrand } from './types';
+
+// Issuer ranges by leading digits, with the lengths each brand issues
+interface BrandRange {
+  brand: CardBrand;
+  prefix: RegExp;
+  lengths: number[];
+  cvcLength: number;
+}
+
+const BRAND_RANGES: BrandRange[] = [
+  { brand: 'amex', prefix: /^3[47]/, lengths: [15], cvcLength: 4 },
+  { brand: 'diners', prefix: /^3(0[0-5]|[689])/, lengths: [14, 15, 16, 17, 18, 19], cvcLength: 3 },
+  { brand: 'jcb', prefix: /^35(2[89]|[3-8])/, lengths: [16, 17, 18, 19], cvcLength: 3 },
+  { brand: 'visa', prefix: /^4/, lengths: [13, 16, 19], cvcLength: 3 },
+  { brand: 'mastercard', prefix: /^(5[1-5]|222[1-9]|22[3-9]|2[3-6]|27[01]|2720)/, lengths: [16], cvcLength: 3 },
+  { brand: 'discover', prefix: /^(6011|64[4-9]|65)/, lengths: [16, 17, 18, 19], cvcLength: 3 }
+];
+
+export const CARD_BRANDS = BRAND_RANGES.map(range => range.brand);
+
+export const luhnValid = (number: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Undefined for numbers outside every known range, or of a length the brand does not issue
+export const detectBrand = (number: string): BrandRange | undefined =>
+  BRAND_RANGES.find(range => range.prefix.test(number) && range.lengths.includes(number.length));
+
+// The issuer's identification number: 8 digits for 16-digit and longer cards, 6 for shorter ones
+export const binOf = (number: string): string => number.slice(0, number.length >= 16 ? 8 : 6);
+
+// Cards are good through the last day of their expiry month
+export const isExpired = (expMonth: number, expYear: number, now = new Date()): boolean =>
+  now.getTime() >= Date.UTC(expYear, expMonth, 1);
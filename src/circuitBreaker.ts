@@ -0,0 +1,60 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+/**
+ * Opens after `failureThreshold` consecutive failures and lets a single trial
+ * request through once `cooldownMs` has passed. The trial closes the circuit
+ * on success and re-opens it on failure.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  canRequest(now = Date.now()): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && now - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getState(now = Date.now()): CircuitState {
+    if (this.state === 'open' && now - this.openedAt >= this.options.cooldownMs) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+}
@@ -0,0 +1,166 @@
+import { RateLimit } from './rateLimiter';
+
+export type StorageDriver = 'memory' | 'sqlite';
+
+// Each request takes a token from its client IP's bucket and, once authenticated, from its API key's
+export interface RateLimitTier {
+  perKey: RateLimit;
+  perIp: RateLimit;
+}
+
+export interface GatewayConfig {
+  storage: {
+    driver: StorageDriver;
+    sqlitePath: string;
+  };
+  auth: {
+    // Bearer key for the admin routes and merchant management; without one those routes are closed
+    adminKey?: string;
+  };
+  vault: {
+    // 64 hex characters; without one a key is generated per process and tokens do not survive a restart
+    encryptionKey?: string;
+  };
+  rateLimit: {
+    // POST /charge, which may also call OpenAI
+    charge: RateLimitTier;
+    // Every other endpoint but the health check and provider webhooks
+    read: RateLimitTier;
+    // Proxy hops in front of the gateway whose X-Forwarded-For is trusted for the client IP
+    trustProxyHops: number;
+  };
+  circuitBreaker: {
+    failureThreshold: number;
+    cooldownMs: number;
+  };
+  idempotency: {
+    ttlMs: number;
+  };
+  authorization: {
+    expiryMs: number;
+    sweepIntervalMs: number;
+  };
+  review: {
+    slaMs: number;
+    sweepIntervalMs: number;
+  };
+  fraud: {
+    rulesPath?: string;
+    watchRules: boolean;
+    modelPath?: string;
+    velocityWindowMs: number;
+    // A candidate rule set and/or model scored alongside the live one without affecting decisions
+    shadowRulesPath?: string;
+    shadowModelPath?: string;
+  };
+  routing: {
+    rulesPath?: string;
+  };
+  fx: {
+    ratesPath?: string;
+  };
+  providers: {
+    // Enabled provider ids, in failover order
+    enabled: string[];
+    settingsPath?: string;
+  };
+  // Verification settings for inbound provider webhooks; a provider without them has no webhook route
+  providerWebhooks: {
+    stripeSecret?: string;
+    paypalWebhookId?: string;
+    paypalCertPath?: string;
+  };
+  webhooks: {
+    maxAttempts: number;
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    timeoutMs: number;
+    sweepIntervalMs: number;
+    // Off in production: merchant endpoints must then be https on a public host
+    allowPrivateUrls: boolean;
+  };
+}
+
+const toNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// Every limit shares one window, so each is "requests per RATE_LIMIT_WINDOW_MS"
+const toRateLimit = (env: NodeJS.ProcessEnv, name: string, fallback: number): RateLimit => ({
+  limit: toNumber(env[name], fallback),
+  windowMs: toNumber(env.RATE_LIMIT_WINDOW_MS, 60 * 1000)
+});
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): GatewayConfig => ({
+  storage: {
+    driver: env.STORAGE_DRIVER === 'sqlite' ? 'sqlite' : 'memory',
+    sqlitePath: env.SQLITE_PATH || './data/gateway.db'
+  },
+  auth: {
+    adminKey: env.ADMIN_API_KEY || undefined
+  },
+  vault: {
+    encryptionKey: env.VAULT_ENCRYPTION_KEY || undefined
+  },
+  rateLimit: {
+    charge: {
+      perKey: toRateLimit(env, 'RATE_LIMIT_CHARGE_PER_KEY', 100),
+      perIp: toRateLimit(env, 'RATE_LIMIT_CHARGE_PER_IP', 300)
+    },
+    read: {
+      perKey: toRateLimit(env, 'RATE_LIMIT_READ_PER_KEY', 600),
+      perIp: toRateLimit(env, 'RATE_LIMIT_READ_PER_IP', 1200)
+    },
+    trustProxyHops: toNumber(env.TRUST_PROXY_HOPS, 0)
+  },
+  circuitBreaker: {
+    failureThreshold: toNumber(env.CIRCUIT_BREAKER_FAILURE_THRESHOLD, 5),
+    cooldownMs: toNumber(env.CIRCUIT_BREAKER_COOLDOWN_MS, 30000)
+  },
+  idempotency: {
+    ttlMs: toNumber(env.IDEMPOTENCY_TTL_MS, 24 * 60 * 60 * 1000)
+  },
+  authorization: {
+    expiryMs: toNumber(env.AUTH_EXPIRY_MS, 7 * 24 * 60 * 60 * 1000),
+    sweepIntervalMs: toNumber(env.AUTH_EXPIRY_SWEEP_INTERVAL_MS, 60 * 1000)
+  },
+  review: {
+    slaMs: toNumber(env.REVIEW_SLA_MS, 24 * 60 * 60 * 1000),
+    sweepIntervalMs: toNumber(env.REVIEW_SWEEP_INTERVAL_MS, 60 * 1000)
+  },
+  fraud: {
+    rulesPath: env.FRAUD_RULES_PATH || undefined,
+    watchRules: env.FRAUD_RULES_WATCH !== 'false',
+    modelPath: env.FRAUD_MODEL_PATH || undefined,
+    velocityWindowMs: toNumber(env.FRAUD_VELOCITY_WINDOW_MS, 60 * 60 * 1000),
+    shadowRulesPath: env.FRAUD_SHADOW_RULES_PATH || undefined,
+    shadowModelPath: env.FRAUD_SHADOW_MODEL_PATH || undefined
+  },
+  routing: {
+    rulesPath: env.ROUTING_RULES_PATH || undefined
+  },
+  fx: {
+    ratesPath: env.FX_RATES_PATH || undefined
+  },
+  providers: {
+    enabled: (env.PAYMENT_PROVIDERS || 'stripe,paypal')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean),
+    settingsPath: env.PROVIDER_SETTINGS_PATH || undefined
+  },
+  providerWebhooks: {
+    stripeSecret: env.STRIPE_WEBHOOK_SECRET || undefined,
+    paypalWebhookId: env.PAYPAL_WEBHOOK_ID || undefined,
+    paypalCertPath: env.PAYPAL_WEBHOOK_CERT_PATH || undefined
+  },
+  webhooks: {
+    maxAttempts: toNumber(env.WEBHOOK_MAX_ATTEMPTS, 8),
+    backoffBaseMs: toNumber(env.WEBHOOK_BACKOFF_BASE_MS, 30 * 1000),
+    backoffMaxMs: toNumber(env.WEBHOOK_BACKOFF_MAX_MS, 60 * 60 * 1000),
+    timeoutMs: toNumber(env.WEBHOOK_TIMEOUT_MS, 10 * 1000),
+    sweepIntervalMs: toNumber(env.WEBHOOK_RETRY_SWEEP_INTERVAL_MS, 10 * 1000),
+    allowPrivateUrls: env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true'
+  }
+});
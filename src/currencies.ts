@@ -0,0 +1,69 @@
+// ISO 4217 currencies the gateway accepts. `minorUnits` is the exponent: amounts are integers in 10^-minorUnits.
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  minorUnits: number;
+  symbol?: string;
+}
+
+const CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', name: 'US Dollar', minorUnits: 2, symbol: '$' },
+  { code: 'EUR', name: 'Euro', minorUnits: 2, symbol: '€' },
+  { code: 'GBP', name: 'Pound Sterling', minorUnits: 2, symbol: '£' },
+  { code: 'JPY', name: 'Yen', minorUnits: 0, symbol: '¥' },
+  { code: 'CHF', name: 'Swiss Franc', minorUnits: 2 },
+  { code: 'CAD', name: 'Canadian Dollar', minorUnits: 2, symbol: 'CA$' },
+  { code: 'AUD', name: 'Australian Dollar', minorUnits: 2, symbol: 'A$' },
+  { code: 'NZD', name: 'New Zealand Dollar', minorUnits: 2, symbol: 'NZ$' },
+  { code: 'SEK', name: 'Swedish Krona', minorUnits: 2 },
+  { code: 'NOK', name: 'Norwegian Krone', minorUnits: 2 },
+  { code: 'DKK', name: 'Danish Krone', minorUnits: 2 },
+  { code: 'PLN', name: 'Zloty', minorUnits: 2 },
+  { code: 'CZK', name: 'Czech Koruna', minorUnits: 2 },
+  { code: 'HUF', name: 'Forint', minorUnits: 2 },
+  { code: 'ISK', name: 'Iceland Krona', minorUnits: 0 },
+  { code: 'TRY', name: 'Turkish Lira', minorUnits: 2 },
+  { code: 'ILS', name: 'New Israeli Sheqel', minorUnits: 2, symbol: '₪' },
+  { code: 'AED', name: 'UAE Dirham', minorUnits: 2 },
+  { code: 'SAR', name: 'Saudi Riyal', minorUnits: 2 },
+  { code: 'KWD', name: 'Kuwaiti Dinar', minorUnits: 3 },
+  { code: 'BHD', name: 'Bahraini Dinar', minorUnits: 3 },
+  { code: 'OMR', name: 'Rial Omani', minorUnits: 3 },
+  { code: 'JOD', name: 'Jordanian Dinar', minorUnits: 3 },
+  { code: 'TND', name: 'Tunisian Dinar', minorUnits: 3 },
+  { code: 'INR', name: 'Indian Rupee', minorUnits: 2, symbol: '₹' },
+  { code: 'CNY', name: 'Yuan Renminbi', minorUnits: 2, symbol: 'CN¥' },
+  { code: 'HKD', name: 'Hong Kong Dollar', minorUnits: 2, symbol: 'HK$' },
+  { code: 'SGD', name: 'Singapore Dollar', minorUnits: 2, symbol: 'S$' },
+  { code: 'KRW', name: 'Won', minorUnits: 0, symbol: '₩' },
+  { code: 'VND', name: 'Dong', minorUnits: 0, symbol: '₫' },
+  { code: 'MXN', name: 'Mexican Peso', minorUnits: 2, symbol: 'MX$' },
+  { code: 'BRL', name: 'Brazilian Real', minorUnits: 2, symbol: 'R$' },
+  { code: 'CLP', name: 'Chilean Peso', minorUnits: 0 },
+  { code: 'ZAR', name: 'Rand', minorUnits: 2 }
+];
+
+const BY_CODE = new Map(CURRENCIES.map(currency => [currency.code, currency]));
+
+export const SUPPORTED_CURRENCIES = CURRENCIES.map(currency => currency.code);
+
+export const getCurrency = (code: string): CurrencyInfo | undefined => BY_CODE.get(code);
+
+const exponent = (code: string): number => {
+  const currency = BY_CODE.get(code);
+  if (!currency) {
+    throw new Error(`Unsupported currency ${code}`);
+  }
+  return currency.minorUnits;
+};
+
+export const toMajorUnits = (amount: number, currency: string): number => amount / 10 ** exponent(currency);
+
+export const toMinorUnits = (major: number, currency: string): number => Math.round(major * 10 ** exponent(currency));
+
+// "$10.00", "¥1000", "1.500 KWD": the symbol when the currency has an unambiguous one, otherwise the code
+export const formatAmount = (amount: number, currency: string): string => {
+  const value = toMajorUnits(amount, currency).toFixed(exponent(currency));
+  const symbol = BY_CODE.get(currency)!.symbol;
+  return symbol ? `${symbol}${value}` : `${value} ${currency}`;
+};
@@ -0,0 +1,237 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+interface Migration {
+  version: number;
+  description: string;
+  sql: string;
+}
+
+// Append new migrations to the end; applied versions are never edited
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'create transactions and refunds',
+    sql: `
+      CREATE TABLE transactions (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        status TEXT NOT NULL,
+        authorization_expires_at TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_transactions_created_at ON transactions (created_at, id);
+      CREATE INDEX idx_transactions_authorization_expiry ON transactions (status, authorization_expires_at);
+
+      CREATE TABLE refunds (
+        id TEXT PRIMARY KEY,
+        transaction_id TEXT NOT NULL REFERENCES transactions (id),
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_refunds_transaction_id ON refunds (transaction_id, created_at);
+    `
+  },
+  {
+    version: 2,
+    description: 'add filterable transaction columns',
+    sql: `
+      ALTER TABLE transactions ADD COLUMN provider TEXT;
+      ALTER TABLE transactions ADD COLUMN email TEXT;
+      ALTER TABLE transactions ADD COLUMN currency TEXT;
+      ALTER TABLE transactions ADD COLUMN amount INTEGER;
+      ALTER TABLE transactions ADD COLUMN risk_score REAL;
+
+      UPDATE transactions SET
+        provider = json_extract(data, '$.response.provider'),
+        email = lower(json_extract(data, '$.request.email')),
+        currency = json_extract(data, '$.request.currency'),
+        amount = json_extract(data, '$.request.amount'),
+        risk_score = json_extract(data, '$.response.riskScore');
+
+      CREATE INDEX idx_transactions_email ON transactions (email, created_at);
+      CREATE INDEX idx_transactions_status ON transactions (status, created_at);
+    `
+  },
+  {
+    version: 3,
+    description: 'add review due date',
+    sql: `
+      ALTER TABLE transactions ADD COLUMN review_due_at TEXT;
+      CREATE INDEX idx_transactions_review_due ON transactions (status, review_due_at);
+    `
+  },
+  {
+    version: 4,
+    description: 'create allow/deny list entries and audit log',
+    sql: `
+      CREATE TABLE risk_list_entries (
+        id TEXT PRIMARY KEY,
+        list TEXT NOT NULL,
+        type TEXT NOT NULL,
+        value TEXT NOT NULL,
+        expires_at TEXT,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_risk_list_entries_value ON risk_list_entries (type, value);
+
+      CREATE TABLE risk_list_audit (
+        id TEXT PRIMARY KEY,
+        at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_risk_list_audit_at ON risk_list_audit (at);
+    `
+  },
+  {
+    version: 5,
+    description: 'add shadow evaluation version',
+    sql: `
+      ALTER TABLE transactions ADD COLUMN shadow_version TEXT;
+      CREATE INDEX idx_transactions_shadow_version ON transactions (shadow_version, created_at);
+    `
+  },
+  {
+    version: 6,
+    description: 'create webhook endpoints and deliveries',
+    sql: `
+      CREATE TABLE webhook_endpoints (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        endpoint_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        next_attempt_at TEXT,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+      CREATE INDEX idx_webhook_deliveries_endpoint ON webhook_deliveries (endpoint_id, created_at);
+      CREATE INDEX idx_webhook_deliveries_created_at ON webhook_deliveries (created_at);
+    `
+  },
+  {
+    version: 7,
+    description: 'add provider references and inbound provider events',
+    sql: `
+      ALTER TABLE transactions ADD COLUMN provider_reference TEXT;
+      UPDATE transactions SET provider_reference = json_extract(data, '$.providerReference');
+      CREATE INDEX idx_transactions_provider_reference ON transactions (provider, provider_reference);
+
+      CREATE TABLE provider_events (
+        id TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        UNIQUE (provider, event_id)
+      );
+      CREATE INDEX idx_provider_events_status ON provider_events (status, received_at);
+    `
+  },
+  {
+    version: 8,
+    description: 'create merchants and API keys, and scope transactions and webhook deliveries to merchants',
+    sql: `
+      CREATE TABLE merchants (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL REFERENCES merchants (id),
+        hash TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_api_keys_merchant_id ON api_keys (merchant_id, created_at);
+
+      ALTER TABLE transactions ADD COLUMN merchant_id TEXT;
+      UPDATE transactions SET merchant_id = json_extract(data, '$.request.merchantId');
+      CREATE INDEX idx_transactions_merchant_id ON transactions (merchant_id, created_at);
+
+      ALTER TABLE webhook_deliveries ADD COLUMN merchant_id TEXT;
+      UPDATE webhook_deliveries SET merchant_id = (
+        SELECT json_extract(webhook_endpoints.data, '$.merchantId')
+        FROM webhook_endpoints
+        WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      );
+      CREATE INDEX idx_webhook_deliveries_merchant_id ON webhook_deliveries (merchant_id, created_at);
+    `
+  },
+  {
+    version: 9,
+    description: 'create merchant settings',
+    sql: `
+      CREATE TABLE merchant_settings (
+        scope TEXT PRIMARY KEY,
+        updated_at TEXT,
+        data TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 10,
+    description: 'create the card vault',
+    sql: `
+      CREATE TABLE card_tokens (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE UNIQUE INDEX idx_card_tokens_fingerprint ON card_tokens (merchant_id, fingerprint);
+    `
+  }
+];
+
+export const migrate = (db: Database.Database): number => {
+  db.exec('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, applied_at TEXT NOT NULL)');
+
+  const applied = new Set(
+    (db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[]).map(row => row.version)
+  );
+  const pending = MIGRATIONS.filter(migration => !applied.has(migration.version));
+
+  const apply = db.transaction(() => {
+    for (const migration of pending) {
+      db.exec(migration.sql);
+      db.prepare('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)').run(
+        migration.version,
+        new Date().toISOString()
+      );
+    }
+  });
+  apply();
+
+  return pending.length;
+};
+
+// Opens (creating if needed) the database file and brings its schema up to date
+export const openDatabase = (filename: string): Database.Database => {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+// Records are stored as JSON, so Date fields have to be revived on the way out
+export const parseRecord = <T>(data: string): T =>
+  JSON.parse(data, (_key, value) => (typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value));
@@ -0,0 +1,37 @@
+import { PaymentProvider } from './types';
+
+export type ProviderErrorCode =
+  | 'timeout'
+  | 'provider_unavailable'
+  | 'rate_limited'
+  | 'invalid_request'
+  | 'not_found';
+
+const RETRYABLE_CODES: ProviderErrorCode[] = ['timeout', 'provider_unavailable', 'rate_limited'];
+
+// Raised when a provider call fails outright, as opposed to a decline which is a normal outcome
+export class ProviderError extends Error {
+  readonly retryable: boolean;
+
+  constructor(
+    readonly provider: PaymentProvider,
+    readonly code: ProviderErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.retryable = RETRYABLE_CODES.includes(code);
+  }
+}
+
+// Raised for requests the gateway refuses; carries the HTTP status to respond with
+export class GatewayError extends Error {
+  constructor(
+    readonly statusCode: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
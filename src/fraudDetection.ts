@@ -1,35 +1,94 @@
-import { ChargeRequest } from './types';
+import { ChargeRequest, MerchantSettings, RiskAssessment, RiskDecision, RiskFactor, RiskListEntry } from './types';
+import { DEFAULT_RULE_SET, FraudRuleSet, buildRiskContext } from './fraudRules';
+import { VelocityTracker } from './velocityTracker';
+import { RiskLists } from './riskLists';
+import { RiskModel, RuleSetModel } from './riskModel';
+import { FxConverter } from './fx';
+
+const DEFAULT_VELOCITY_WINDOW_MS = 60 * 60 * 1000;
+
+export type RiskThresholds = Pick<MerchantSettings, 'blockThreshold' | 'reviewThreshold'>;
+
+const listFactor = (entry: RiskListEntry): RiskFactor => ({
+  code: `${entry.list}listed_${entry.type}`,
+  listEntryId: entry.id,
+  ...(entry.reason && { description: entry.reason }),
+  contribution: entry.list === 'deny' ? 1.0 : 0
+});
 
 export class FraudDetector {
-  calculateRiskScore(request: ChargeRequest): number {
-    let score = 0;
+  constructor(
+    private ruleSet: FraudRuleSet = DEFAULT_RULE_SET,
+    private velocity = new VelocityTracker(DEFAULT_VELOCITY_WINDOW_MS),
+    private lists?: RiskLists,
+    private model?: RiskModel,
+    private fx?: FxConverter
+  ) {}
 
-    // Large amount heuristic (amounts over $500)
-    if (request.amount > 50000) { // 50000 cents = $500
-      score += 0.3;
-    }
+  // Swaps the active rules; used for hot reloads while the server keeps running
+  setRuleSet(ruleSet: FraudRuleSet): void {
+    this.ruleSet = ruleSet;
+  }
 
-    // Suspicious domain heuristic
-    const email = request.email.toLowerCase();
-    const suspiciousDomains = ['.ru', 'test.com', '.tk', '.ml', '.ga'];
-    
-    if (suspiciousDomains.some(domain => email.includes(domain))) {
-      score += 0.4;
-    }
+  getRuleSet(): FraudRuleSet {
+    return this.ruleSet;
+  }
 
-    // Additional risk factors
-    if (request.amount > 100000) { // $1000+
-      score += 0.2;
-    }
+  // The loaded model's version, or the rule set's when the rules do the scoring
+  getVersion(): string {
+    return this.model?.version ?? this.ruleSet.version;
+  }
 
-    if (email.includes('temp') || email.includes('fake')) {
-      score += 0.3;
+  /**
+   * Checks the allow/deny lists first: a denylisted charge scores 1.0 and an
+   * allowlisted one scores 0 without running the model. Everything else is
+   * scored by the model.
+   */
+  async assessRisk(request: ChargeRequest, now = Date.now()): Promise<RiskAssessment> {
+    const listed = await this.lists?.match(request, new Date(now));
+    if (listed) {
+      return { score: listed.list === 'deny' ? 1.0 : 0, factors: [listFactor(listed)] };
     }
+    return this.scoreWithModel(request, now);
+  }
+
+  // Without a loaded model the active rule set does the scoring
+  scoreWithModel(request: ChargeRequest, now = Date.now()): RiskAssessment {
+    const model = this.model ?? new RuleSetModel(this.ruleSet);
+    const normalized = this.inBaseCurrency(request);
+    return model.score(buildRiskContext(request, this.velocity.signals(normalized, now), normalized.amount));
+  }
+
+  // Model score only; allow/deny lists are applied by assessRisk
+  calculateRiskScore(request: ChargeRequest): number {
+    return this.scoreWithModel(request).score;
+  }
+
+  // Adds a charge attempt to the history that velocity rules look at
+  recordCharge(request: ChargeRequest, blocked: boolean, now = Date.now()): void {
+    this.velocity.record(this.inBaseCurrency(request), blocked, now);
+  }
+
+  // A merchant's own thresholds win over the rule set's
+  shouldBlock(riskScore: number, thresholds: RiskThresholds = {}): boolean {
+    return riskScore >= (thresholds.blockThreshold ?? this.ruleSet.blockThreshold);
+  }
+
+  shouldReview(riskScore: number, thresholds: RiskThresholds = {}): boolean {
+    const reviewThreshold = thresholds.reviewThreshold ?? this.ruleSet.reviewThreshold;
+    return reviewThreshold !== undefined && riskScore >= reviewThreshold && !this.shouldBlock(riskScore, thresholds);
+  }
 
-    return Math.min(score, 1.0);
+  decide(riskScore: number, thresholds: RiskThresholds = {}): RiskDecision {
+    return this.shouldBlock(riskScore, thresholds)
+      ? 'block'
+      : this.shouldReview(riskScore, thresholds)
+        ? 'review'
+        : 'approve';
   }
 
-  shouldBlock(riskScore: number): boolean {
-    return riskScore >= 0.5;
+  // Amount thresholds and velocity history compare like with like across currencies
+  private inBaseCurrency(request: ChargeRequest): ChargeRequest {
+    return this.fx ? { ...request, amount: this.fx.toBase(request.amount, request.currency) } : request;
   }
-}
\ No newline at end of file
+}
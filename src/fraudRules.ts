@@ -0,0 +1,259 @@
+import Joi from 'joi';
+import fs from 'fs';
+import { ChargeRequest } from './types';
+import defaultRules from './defaultFraudRules.json';
+import { NO_VELOCITY, VelocitySignals } from './velocityTracker';
+
+// `amount` is in the FX base currency's minor units; `localAmount` is the amount as charged
+export const RULE_FIELDS = [
+  'amount',
+  'localAmount',
+  'currency',
+  'email',
+  'emailDomain',
+  'source',
+  'cardBrand',
+  'bin',
+  'emailChargeCount',
+  'sourceChargeCount',
+  'sourceEmailCount',
+  'amountIncreaseRatio',
+  'blockedRetryCount'
+] as const;
+
+export type RuleField = (typeof RULE_FIELDS)[number];
+
+// Fields whose value is always a number, so they can feed a model directly
+export const NUMERIC_FIELDS: RuleField[] = [
+  'amount',
+  'localAmount',
+  'emailChargeCount',
+  'sourceChargeCount',
+  'sourceEmailCount',
+  'amountIncreaseRatio',
+  'blockedRetryCount'
+];
+
+const NUMERIC_OPS = ['gt', 'gte', 'lt', 'lte'] as const;
+const LIST_OPS = ['in', 'notIn', 'containsAny'] as const;
+const SCALAR_OPS = ['eq', 'neq', 'contains', 'startsWith', 'endsWith'] as const;
+
+export type RuleOperator =
+  | (typeof NUMERIC_OPS)[number]
+  | (typeof LIST_OPS)[number]
+  | (typeof SCALAR_OPS)[number]
+  | 'matches';
+
+export type RuleValue = string | number | boolean | (string | number)[];
+
+// Generic over the field names so other rule files (e.g. routing) can share the condition language
+export type RuleCondition<F extends string = RuleField> =
+  | { all: RuleCondition<F>[] }
+  | { any: RuleCondition<F>[] }
+  | { not: RuleCondition<F> }
+  | { field: F; op: RuleOperator; value: RuleValue };
+
+export interface FraudRule {
+  id: string;
+  reasonCode?: string;
+  description?: string;
+  weight: number;
+  enabled: boolean;
+  when: RuleCondition;
+}
+
+export interface FraudRuleSet {
+  version: string;
+  reviewThreshold?: number;
+  blockThreshold: number;
+  rules: FraudRule[];
+}
+
+// The values a rule condition can look at for a single charge
+export type RiskContext = Record<RuleField, string | number>;
+
+export class FraudRulesError extends Error {
+  constructor(
+    readonly source: string,
+    readonly details: string[]
+  ) {
+    super(`Invalid fraud rules in ${source}: ${details.join('; ')}`);
+    this.name = 'FraudRulesError';
+  }
+}
+
+const regexValue = Joi.string().custom((value: string, helpers) => {
+  try {
+    new RegExp(value);
+    return value;
+  } catch {
+    return helpers.message({ custom: `"${value}" is not a valid regular expression` });
+  }
+});
+
+// One object type for every condition shape so validation errors point at the offending key
+export const buildConditionSchema = (fields: readonly string[]) =>
+  Joi.object({
+    all: Joi.array().items(Joi.link('#condition')).min(1),
+    any: Joi.array().items(Joi.link('#condition')).min(1),
+    not: Joi.link('#condition'),
+    field: Joi.string().valid(...fields),
+    op: Joi.string().valid(...NUMERIC_OPS, ...LIST_OPS, ...SCALAR_OPS, 'matches'),
+    value: Joi.when('op', {
+      switch: [
+        { is: Joi.valid(...NUMERIC_OPS), then: Joi.number() },
+        { is: Joi.valid(...LIST_OPS), then: Joi.array().items(Joi.string(), Joi.number()).min(1) },
+        { is: 'matches', then: regexValue }
+      ],
+      otherwise: Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean())
+    })
+  })
+    .xor('all', 'any', 'not', 'field')
+    .with('field', ['op', 'value'])
+    .id('condition');
+
+export const conditionSchema = buildConditionSchema(RULE_FIELDS);
+
+export const fraudRuleSetSchema = Joi.object({
+  version: Joi.string().max(100).required(),
+  blockThreshold: Joi.number().min(0).max(1).default(0.5),
+  // Scores from here up to the block threshold are held for manual review
+  reviewThreshold: Joi.number().min(0).less(Joi.ref('blockThreshold')),
+  rules: Joi.array()
+    .items(
+      Joi.object({
+        id: Joi.string().pattern(/^[a-z0-9_]+$/).max(100).required(),
+        reasonCode: Joi.string().pattern(/^[a-z0-9_]+$/).max(100),
+        description: Joi.string().max(500),
+        weight: Joi.number().min(-1).max(1).required(),
+        enabled: Joi.boolean().default(true),
+        when: conditionSchema.required()
+      })
+    )
+    .unique('id')
+    .required()
+});
+
+export const parseRuleSet = (data: unknown, source: string): FraudRuleSet => {
+  const { error, value } = fraudRuleSetSchema.validate(data, { abortEarly: false });
+  if (error) {
+    throw new FraudRulesError(source, error.details.map(d => d.message));
+  }
+  return value;
+};
+
+export const loadRuleSet = (path: string): FraudRuleSet => {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new FraudRulesError(path, [(err as Error).message]);
+  }
+  return parseRuleSet(data, path);
+};
+
+export const DEFAULT_RULE_SET = parseRuleSet(defaultRules, 'defaultFraudRules.json');
+
+/**
+ * Polls the rule file and hands every valid new version to `onReload`. A
+ * malformed edit is reported through `onError` and the previous rules stay live.
+ * Returns a function that stops watching.
+ */
+export const watchRuleSet = (
+  path: string,
+  onReload: (ruleSet: FraudRuleSet) => void,
+  onError: (error: FraudRulesError) => void,
+  intervalMs = 1000
+): (() => void) => {
+  const listener = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+
+    try {
+      onReload(loadRuleSet(path));
+    } catch (err) {
+      onError(err as FraudRulesError);
+    }
+  };
+
+  fs.watchFile(path, { interval: intervalMs }, listener);
+  return () => fs.unwatchFile(path, listener);
+};
+
+export const buildRiskContext = (
+  request: ChargeRequest,
+  velocity: VelocitySignals = NO_VELOCITY,
+  baseAmount = request.amount
+): RiskContext => {
+  const email = request.email.toLowerCase();
+  return {
+    amount: baseAmount,
+    localAmount: request.amount,
+    currency: request.currency,
+    email,
+    emailDomain: email.slice(email.lastIndexOf('@') + 1),
+    source: request.source,
+    // Empty for charges made without the vault
+    cardBrand: request.card?.brand ?? '',
+    bin: request.card?.bin ?? '',
+    ...velocity
+  };
+};
+
+// String comparisons ignore case so rule authors do not have to match the input exactly
+const normalize = (value: string | number | boolean) => (typeof value === 'string' ? value.toLowerCase() : value);
+
+const compare = (actual: string | number, op: RuleOperator, expected: RuleValue): boolean => {
+  const left = normalize(actual);
+  const list = Array.isArray(expected) ? expected.map(normalize) : [];
+  const right = Array.isArray(expected) ? undefined : normalize(expected);
+
+  switch (op) {
+    case 'gt':
+      return Number(left) > Number(right);
+    case 'gte':
+      return Number(left) >= Number(right);
+    case 'lt':
+      return Number(left) < Number(right);
+    case 'lte':
+      return Number(left) <= Number(right);
+    case 'eq':
+      return left === right;
+    case 'neq':
+      return left !== right;
+    case 'in':
+      return list.includes(left);
+    case 'notIn':
+      return !list.includes(left);
+    case 'contains':
+      return String(left).includes(String(right));
+    case 'containsAny':
+      return list.some(item => String(left).includes(String(item)));
+    case 'startsWith':
+      return String(left).startsWith(String(right));
+    case 'endsWith':
+      return String(left).endsWith(String(right));
+    case 'matches':
+      return new RegExp(String(expected), 'i').test(String(actual));
+  }
+};
+
+export const evaluateCondition = <F extends string>(
+  condition: RuleCondition<F>,
+  context: Record<F, string | number>
+): boolean => {
+  if ('all' in condition) {
+    return condition.all.every(child => evaluateCondition(child, context));
+  }
+
+  if ('any' in condition) {
+    return condition.any.some(child => evaluateCondition(child, context));
+  }
+
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, context);
+  }
+
+  return compare(context[condition.field], condition.op, condition.value);
+};
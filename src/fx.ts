@@ -0,0 +1,86 @@
+import Joi from 'joi';
+import fs from 'fs';
+import { GatewayError } from './errors';
+import { SUPPORTED_CURRENCIES, toMajorUnits, toMinorUnits } from './currencies';
+import defaultRates from './defaultFxRates.json';
+
+// Units of each currency per one unit of `base`, as of `asOf`
+export interface FxRateTable {
+  base: string;
+  asOf: string;
+  rates: Record<string, number>;
+}
+
+export class FxRatesError extends Error {
+  constructor(
+    readonly source: string,
+    readonly details: string[]
+  ) {
+    super(`Invalid FX rates in ${source}: ${details.join('; ')}`);
+    this.name = 'FxRatesError';
+  }
+}
+
+const currencySchema = Joi.string().valid(...SUPPORTED_CURRENCIES);
+
+export const fxRateTableSchema = Joi.object({
+  base: currencySchema.required(),
+  asOf: Joi.string().isoDate().required(),
+  rates: Joi.object().pattern(currencySchema, Joi.number().positive()).min(1).required()
+});
+
+export const parseFxRates = (data: unknown, source: string): FxRateTable => {
+  const { error, value } = fxRateTableSchema.validate(data, { abortEarly: false });
+  if (error) {
+    throw new FxRatesError(source, error.details.map(d => d.message));
+  }
+
+  const table = value as FxRateTable;
+  if (table.rates[table.base] !== 1) {
+    throw new FxRatesError(source, [`the base currency ${table.base} must have a rate of 1`]);
+  }
+  return table;
+};
+
+export const loadFxRates = (path: string): FxRateTable => {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new FxRatesError(path, [(err as Error).message]);
+  }
+  return parseFxRates(data, path);
+};
+
+export const DEFAULT_FX_RATES = parseFxRates(defaultRates, 'defaultFxRates.json');
+
+/**
+ * Converts minor-unit amounts between currencies with a locally loaded rate
+ * table, respecting each currency's exponent (JPY has none, KWD has three).
+ */
+export class FxConverter {
+  constructor(private table: FxRateTable = DEFAULT_FX_RATES) {}
+
+  get base(): string {
+    return this.table.base;
+  }
+
+  convert(amount: number, from: string, to: string): number {
+    if (from === to) {
+      return amount;
+    }
+    return toMinorUnits((toMajorUnits(amount, from) / this.rate(from)) * this.rate(to), to);
+  }
+
+  toBase(amount: number, currency: string): number {
+    return this.convert(amount, currency, this.table.base);
+  }
+
+  private rate(currency: string): number {
+    const rate = this.table.rates[currency];
+    if (rate === undefined) {
+      throw new GatewayError(422, 'fx_rate_unavailable', `No FX rate for ${currency} in the rates as of ${this.table.asOf}`);
+    }
+    return rate;
+  }
+}
@@ -0,0 +1,90 @@
+import { createHash } from 'crypto';
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  state: 'in_flight' | 'completed';
+  statusCode?: number;
+  body?: string;
+  expiresAt: number;
+}
+
+export type IdempotencyLookup =
+  | { kind: 'new' }
+  | { kind: 'in_flight' }
+  | { kind: 'mismatch' }
+  | { kind: 'replay'; statusCode: number; body: string };
+
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return sorted;
+      }, {});
+  }
+
+  return value;
+};
+
+// Key order in the JSON body should not make two otherwise identical requests look different
+export const fingerprintRequest = (body: unknown): string =>
+  createHash('sha256').update(JSON.stringify(canonicalize(body ?? null))).digest('hex');
+
+/**
+ * Remembers the serialized response for each Idempotency-Key so retries can be
+ * replayed exactly. Records are kept for `ttlMs` from the first request.
+ */
+export class IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  constructor(private ttlMs: number) {}
+
+  begin(key: string, fingerprint: string, now = Date.now()): IdempotencyLookup {
+    this.purgeExpired(now);
+
+    const record = this.records.get(key);
+    if (!record) {
+      this.records.set(key, { fingerprint, state: 'in_flight', expiresAt: now + this.ttlMs });
+      return { kind: 'new' };
+    }
+
+    if (record.fingerprint !== fingerprint) {
+      return { kind: 'mismatch' };
+    }
+
+    if (record.state === 'in_flight') {
+      return { kind: 'in_flight' };
+    }
+
+    return { kind: 'replay', statusCode: record.statusCode!, body: record.body! };
+  }
+
+  complete(key: string, statusCode: number, body: string): void {
+    const record = this.records.get(key);
+    if (record) {
+      record.state = 'completed';
+      record.statusCode = statusCode;
+      record.body = body;
+    }
+  }
+
+  // Forget a key whose request failed before producing a result, so the client can retry it
+  release(key: string): void {
+    this.records.delete(key);
+  }
+
+  private purgeExpired(now: number): void {
+    // Records are inserted in expiry order, so stop at the first live one
+    for (const [key, record] of this.records) {
+      if (record.expiresAt > now) {
+        break;
+      }
+      this.records.delete(key);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { IncomingHttpHeaders } from 'http';
+import { v4 as uuidv4 } from 'uuid';
+import { PaymentProvider, ProviderEventQuery, ProviderEventRecord } from './types';
+import { ProviderWebhookHandler } from './providerWebhooks';
+import { ProviderEventRepository } from './providerEventRepository';
+import { PaymentService } from './paymentService';
+import { GatewayError } from './errors';
+
+export interface InboundWebhookResult {
+  record: ProviderEventRecord;
+  duplicate: boolean;
+}
+
+/**
+ * Receives provider webhooks: verifies the signature, drops redeliveries of an
+ * event id already seen, and applies the event to its transaction. Events for
+ * transactions we do not know are parked for reconciliation.
+ */
+export class InboundWebhooks {
+  private handlers: Map<PaymentProvider, ProviderWebhookHandler>;
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(
+    handlers: ProviderWebhookHandler[],
+    private repository: ProviderEventRepository,
+    private paymentService: PaymentService
+  ) {
+    this.handlers = new Map(handlers.map(handler => [handler.provider, handler]));
+  }
+
+  async receive(
+    provider: PaymentProvider,
+    rawBody: Buffer,
+    headers: IncomingHttpHeaders,
+    now = new Date()
+  ): Promise<InboundWebhookResult> {
+    const handler = this.handlers.get(provider);
+    if (!handler) {
+      throw new GatewayError(404, 'webhook_not_configured', `No webhook is configured for ${provider}`);
+    }
+
+    if (!handler.verify(rawBody, headers, now.getTime())) {
+      console.warn(`Rejected ${provider} webhook: invalid signature`);
+      throw new GatewayError(401, 'invalid_signature', 'Webhook signature verification failed');
+    }
+
+    let event;
+    try {
+      event = handler.parse(rawBody);
+    } catch (err) {
+      console.warn(`Rejected ${provider} webhook: ${(err as Error).message}`);
+      throw err;
+    }
+
+    // Serialized per event id so two concurrent deliveries of one event cannot both apply it
+    return this.withLock(`${provider}:${event.id}`, async () => {
+      const existing = await this.repository.findByEventId(provider, event.id);
+      if (existing) {
+        return { record: existing, duplicate: true };
+      }
+
+      const record: ProviderEventRecord = { id: uuidv4(), event, status: 'parked', receivedAt: now, updatedAt: now };
+      await this.apply(record, now);
+      return { record, duplicate: false };
+    });
+  }
+
+  list(query: ProviderEventQuery): Promise<ProviderEventRecord[]> {
+    return this.repository.list(query);
+  }
+
+  // Tries a parked event again, e.g. once the charge it refers to has been recorded
+  async replay(id: string, now = new Date()): Promise<ProviderEventRecord> {
+    const record = await this.repository.findById(id);
+    if (!record) {
+      throw new GatewayError(404, 'provider_event_not_found', 'Provider event not found');
+    }
+
+    return this.withLock(`${record.event.provider}:${record.event.id}`, async () => {
+      const current = (await this.repository.findById(id))!;
+      if (current.status !== 'parked') {
+        throw new GatewayError(409, 'not_parked', `A ${current.status} provider event cannot be replayed`);
+      }
+      await this.apply(current, now);
+      return current;
+    });
+  }
+
+  private async apply(record: ProviderEventRecord, now: Date): Promise<void> {
+    const { event } = record;
+    record.note = undefined;
+
+    try {
+      const transaction = await this.paymentService.applyProviderEvent(event);
+      if (transaction) {
+        record.status = 'applied';
+        record.transactionId = transaction.id;
+      } else {
+        record.status = 'parked';
+        record.note = `No ${event.provider} transaction with reference ${event.reference}`;
+        console.warn(`Parked ${event.provider} event ${event.id}: ${record.note}`);
+      }
+    } catch (err) {
+      // Anything but a state conflict is left unrecorded so the provider's retry can try again
+      if (!(err instanceof GatewayError) || err.statusCode !== 409) {
+        throw err;
+      }
+      record.status = 'ignored';
+      record.note = err.message;
+      console.warn(`Ignored ${event.provider} event ${event.id} (${event.type}): ${err.message}`);
+    }
+
+    record.updatedAt = now;
+    await this.repository.save(record);
+  }
+
+  private async withLock<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    this.locks.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(key) === current) {
+        this.locks.delete(key);
+      }
+    }
+  }
+}
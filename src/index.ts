@@ -1,8 +1,47 @@
 import { createApp } from './app';
+import { loadConfig } from './config';
+import { PaymentService } from './paymentService';
+import { FraudDetector } from './fraudDetection';
+import { watchRuleSet } from './fraudRules';
+import { WebhookDispatcher } from './webhooks';
 
 const PORT = process.env.PORT || 3000;
 
-const app = createApp();
+const config = loadConfig();
+const app = createApp(config);
+const paymentService: PaymentService = app.locals.paymentService;
+const fraudDetector: FraudDetector = app.locals.fraudDetector;
+const webhooks: WebhookDispatcher = app.locals.webhooks;
+
+if (!config.auth.adminKey) {
+  console.warn('ADMIN_API_KEY is not set: admin routes, including merchant sign-up, are closed');
+}
+if (!config.vault.encryptionKey) {
+  console.warn('VAULT_ENCRYPTION_KEY is not set: card tokens will stop working when the server restarts');
+}
+
+setInterval(() => {
+  paymentService.expireAuthorizations().catch(err => console.error('Authorization expiry sweep failed', err));
+}, config.authorization.sweepIntervalMs).unref();
+
+setInterval(() => {
+  paymentService.expireReviews().catch(err => console.error('Review SLA sweep failed', err));
+}, config.review.sweepIntervalMs).unref();
+
+setInterval(() => {
+  webhooks.retryDue().catch(err => console.error('Webhook retry sweep failed', err));
+}, config.webhooks.sweepIntervalMs).unref();
+
+if (config.fraud.rulesPath && config.fraud.watchRules) {
+  watchRuleSet(
+    config.fraud.rulesPath,
+    ruleSet => {
+      fraudDetector.setRuleSet(ruleSet);
+      console.log(`Loaded fraud rules ${ruleSet.version} from ${config.fraud.rulesPath}`);
+    },
+    err => console.error(`${err.message}; keeping fraud rules ${fraudDetector.getRuleSet().version}`)
+  );
+}
 
 app.listen(PORT, () => {
   console.log(`Mini Payment Gateway running on port ${PORT}`);
@@ -1,5 +1,38 @@
 import OpenAI from "openai";
-import { ChargeRequest, PaymentProvider } from "./types";
+import { ChargeRequest, ChargeStatus, PaymentProvider, RiskFactor } from "./types";
+import { formatAmount } from "./currencies";
+import { chargeFeatures, redactFactors } from "./redaction";
+
+const describeFactor = (factor: RiskFactor): string =>
+  factor.description ?? factor.code.replace(/_/g, " ");
+
+const formatContribution = (contribution: number): string =>
+  `${contribution >= 0 ? "+" : ""}${contribution.toFixed(2)}`;
+
+// What became of the charge; explanations are worded for it, not just for the risk score
+export interface ExplainedOutcome {
+  status: ChargeStatus;
+  provider?: PaymentProvider;
+  declineCode?: string;
+  errorCode?: string;
+}
+
+const describeDecision = (outcome: ExplainedOutcome): string => {
+  switch (outcome.status) {
+    case "blocked":
+      return "Decision: BLOCKED";
+    case "declined":
+      return `Decision: APPROVED by risk checks, DECLINED by ${outcome.provider} (${outcome.declineCode})`;
+    case "failed":
+      return `Decision: APPROVED by risk checks, FAILED at ${outcome.provider ?? "every provider"} (${outcome.errorCode})`;
+    case "authorized":
+      return `Decision: AUTHORIZED via ${outcome.provider}, not yet captured`;
+    case "pending_review":
+      return "Decision: HELD FOR MANUAL REVIEW, not yet sent to a provider";
+    default:
+      return `Decision: APPROVED via ${outcome.provider}`;
+  }
+};
 
 export class LLMService {
   private openai: OpenAI;
@@ -14,10 +47,27 @@ export class LLMService {
   async generateExplanation(
     request: ChargeRequest,
     riskScore: number,
-    provider: PaymentProvider | null,
-    isBlocked: boolean
+    outcome: ExplainedOutcome,
+    riskFactors: RiskFactor[] = [],
+    useModel = true
   ): Promise<string> {
-    const cacheKey = `${request.amount}-${request.email}-${riskScore}-${isBlocked}`;
+    // Merchants can turn the model off; the template needs nothing sent anywhere
+    if (!useModel) {
+      return this.generateFallbackExplanation(request, riskScore, outcome, riskFactors);
+    }
+
+    // Keyed on everything the explanation names: failover and split routing mean the score no longer implies the provider
+    const features = chargeFeatures(request);
+    const cacheKey = [
+      request.amount,
+      features.currency,
+      features.cardBrand ?? "",
+      riskScore,
+      outcome.status,
+      outcome.provider ?? "",
+      outcome.declineCode ?? outcome.errorCode ?? "",
+      riskFactors.map((factor) => factor.code).join(","),
+    ].join("-");
 
     if (this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey)!;
@@ -31,8 +81,8 @@ export class LLMService {
       const explanation = this.generateFallbackExplanation(
         request,
         riskScore,
-        provider,
-        isBlocked
+        outcome,
+        riskFactors
       );
       this.cache.set(cacheKey, explanation);
       return explanation;
@@ -40,12 +90,23 @@ export class LLMService {
 
     try {
       const prompt = `Generate a brief explanation for a payment decision:
-Amount: $${(request.amount / 100).toFixed(2)} ${request.currency}
-Email: ${request.email}
+Amount: ${features.amount}
+Currency: ${features.currency}
+Card: ${features.cardBrand ?? "unknown"}
 Risk Score: ${riskScore.toFixed(2)}
-${isBlocked ? "Decision: BLOCKED" : `Decision: APPROVED via ${provider}`}
+Risk Factors: ${
+        riskFactors.length
+          ? redactFactors(riskFactors)
+              .map(
+                (factor) =>
+                  `${factor.code} (${describeFactor(factor)}, ${formatContribution(factor.contribution)})`
+              )
+              .join("; ")
+          : "none"
+      }
+${describeDecision(outcome)}
 
-Explain why this decision was made based on the risk factors. Keep it under 50 words.`;
+Explain why this decision was made based on the listed risk factors. Keep it under 50 words.`;
 
       const response = await this.openai.chat.completions.create({
         model: "gpt-3.5-turbo",
@@ -59,8 +120,8 @@ Explain why this decision was made based on the risk factors. Keep it under 50 w
         this.generateFallbackExplanation(
           request,
           riskScore,
-          provider,
-          isBlocked
+          outcome,
+          riskFactors
         );
 
       this.cache.set(cacheKey, explanation);
@@ -69,8 +130,8 @@ Explain why this decision was made based on the risk factors. Keep it under 50 w
       return this.generateFallbackExplanation(
         request,
         riskScore,
-        provider,
-        isBlocked
+        outcome,
+        riskFactors
       );
     }
   }
@@ -78,21 +139,31 @@ Explain why this decision was made based on the risk factors. Keep it under 50 w
   private generateFallbackExplanation(
     request: ChargeRequest,
     riskScore: number,
-    provider: PaymentProvider | null,
-    isBlocked: boolean
+    outcome: ExplainedOutcome,
+    riskFactors: RiskFactor[]
   ): string {
-    const amount = request.amount / 100;
+    const amount = formatAmount(request.amount, request.currency);
     const riskLevel =
       riskScore < 0.3 ? "low" : riskScore < 0.7 ? "moderate" : "high";
+    // Explanations reach merchants and webhooks, so list entries go by their code here too
+    const factors = redactFactors(riskFactors).map(describeFactor).join(", ");
+    const score = `${riskLevel} risk score (${riskScore.toFixed(2)})`;
+    const factorList = factors ? `. Risk factors: ${factors}` : "";
+    const { provider } = outcome;
 
-    if (isBlocked) {
-      return `Payment blocked due to ${riskLevel} risk score (${riskScore.toFixed(
-        2
-      )}) from suspicious patterns.`;
+    switch (outcome.status) {
+      case "blocked":
+        return `Payment blocked due to ${score}${factors ? `: ${factors}` : ""}.`;
+      case "declined":
+        return `Payment declined by ${provider} (${outcome.declineCode}) for ${amount} transaction with ${score}${factorList}.`;
+      case "failed":
+        return `Payment failed at ${provider ?? "every provider"} (${outcome.errorCode}) for ${amount} transaction with ${score}${factorList}.`;
+      case "authorized":
+        return `Payment authorized via ${provider} with ${score} for ${amount} transaction${factorList}.`;
+      case "pending_review":
+        return `Payment held for manual review due to ${score} for ${amount} transaction${factorList}.`;
+      default:
+        return `Payment routed to ${provider} with ${score} for ${amount} transaction${factorList}.`;
     }
-
-    return `Payment routed to ${provider} with ${riskLevel} risk score (${riskScore.toFixed(
-      2
-    )}) for $${amount.toFixed(2)} transaction.`;
   }
 }
@@ -0,0 +1,80 @@
+import { ApiKey, Merchant, MerchantSettingsRecord } from './types';
+import { GatewayConfig } from './config';
+import { SqliteMerchantRepository } from './sqliteMerchantRepository';
+
+/**
+ * Storage for merchant accounts and their API keys. Keys are stored by hash
+ * only; revoked and expired keys are kept so key lists stay auditable.
+ */
+export interface MerchantRepository {
+  saveMerchant(merchant: Merchant): Promise<void>;
+  findMerchant(id: string): Promise<Merchant | undefined>;
+  // Oldest first
+  listMerchants(): Promise<Merchant[]>;
+  saveKey(key: ApiKey): Promise<void>;
+  findKey(id: string): Promise<ApiKey | undefined>;
+  findKeyByHash(hash: string): Promise<ApiKey | undefined>;
+  // Oldest first
+  listKeys(merchantId: string): Promise<ApiKey[]>;
+  saveSettings(record: MerchantSettingsRecord): Promise<void>;
+  // Pass null for the gateway-wide defaults
+  findSettings(merchantId: string | null): Promise<MerchantSettingsRecord | undefined>;
+}
+
+export class InMemoryMerchantRepository implements MerchantRepository {
+  private merchants = new Map<string, Merchant>();
+  private keys = new Map<string, ApiKey>();
+  private settings = new Map<string | null, MerchantSettingsRecord>();
+
+  async saveMerchant(merchant: Merchant): Promise<void> {
+    this.merchants.set(merchant.id, structuredClone(merchant));
+  }
+
+  async findMerchant(id: string): Promise<Merchant | undefined> {
+    const merchant = this.merchants.get(id);
+    return merchant && structuredClone(merchant);
+  }
+
+  async listMerchants(): Promise<Merchant[]> {
+    return [...this.merchants.values()]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(merchant => structuredClone(merchant));
+  }
+
+  async saveKey(key: ApiKey): Promise<void> {
+    this.keys.set(key.id, structuredClone(key));
+  }
+
+  async findKey(id: string): Promise<ApiKey | undefined> {
+    const key = this.keys.get(id);
+    return key && structuredClone(key);
+  }
+
+  async findKeyByHash(hash: string): Promise<ApiKey | undefined> {
+    const key = [...this.keys.values()].find(candidate => candidate.hash === hash);
+    return key && structuredClone(key);
+  }
+
+  async listKeys(merchantId: string): Promise<ApiKey[]> {
+    return [...this.keys.values()]
+      .filter(key => key.merchantId === merchantId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(key => structuredClone(key));
+  }
+
+  async saveSettings(record: MerchantSettingsRecord): Promise<void> {
+    this.settings.set(record.merchantId, structuredClone(record));
+  }
+
+  async findSettings(merchantId: string | null): Promise<MerchantSettingsRecord | undefined> {
+    const record = this.settings.get(merchantId);
+    return record && structuredClone(record);
+  }
+}
+
+export const createMerchantRepository = (config: GatewayConfig): MerchantRepository => {
+  if (config.storage.driver === 'sqlite') {
+    return new SqliteMerchantRepository(config.storage.sqlitePath);
+  }
+  return new InMemoryMerchantRepository();
+};
@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKey, ApiKeyType, Merchant, MerchantInput, MerchantSettings, MerchantSettingsRecord } from './types';
+import { MerchantRepository } from './merchantRepository';
+import { GatewayError } from './errors';
+
+// Keys as listed; the hash never leaves the gateway
+export type ApiKeySummary = Omit<ApiKey, 'hash'>;
+
+// A key as issued: the only time its full value is returned
+export interface IssuedApiKey extends ApiKeySummary {
+  key: string;
+}
+
+export interface MerchantAccount {
+  merchant: Merchant;
+  keys: IssuedApiKey[];
+}
+
+// Who a request acts as. The admin key manages merchants and the gateway; merchant keys act for one merchant
+export type Principal = { role: 'admin' } | { role: ApiKeyType; merchant: Merchant; keyId: string };
+
+const KEY_PREFIXES: Record<ApiKeyType, string> = { secret: 'sk_', publishable: 'pk_' };
+
+// Keys are 192 random bits, so a plain SHA-256 is enough to make the stored hash useless to an attacker
+export const hashApiKey = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+const summarize = ({ hash: _hash, ...key }: ApiKey): ApiKeySummary => key;
+
+const isActive = (key: ApiKey, now: Date): boolean => !key.revokedAt && (!key.expiresAt || key.expiresAt > now);
+
+const invalidKey = () => new GatewayError(401, 'invalid_api_key', 'Invalid API key');
+
+/**
+ * Merchant accounts and the API keys requests authenticate with. Each
+ * merchant gets a secret and a publishable key; either can be rotated, with
+ * an optional grace period for the old one, or revoked.
+ */
+export class Merchants {
+  private adminKeyHash?: Buffer;
+
+  constructor(
+    private repository: MerchantRepository,
+    adminKey?: string
+  ) {
+    this.adminKeyHash = adminKey ? Buffer.from(hashApiKey(adminKey)) : undefined;
+  }
+
+  async create(input: MerchantInput, now = new Date()): Promise<MerchantAccount> {
+    const id = input.id ?? uuidv4();
+    if (await this.repository.findMerchant(id)) {
+      throw new GatewayError(409, 'merchant_exists', `Merchant ${id} already exists`);
+    }
+
+    const merchant: Merchant = { id, name: input.name, createdAt: now };
+    await this.repository.saveMerchant(merchant);
+    const keys = [await this.issue(id, 'secret', now), await this.issue(id, 'publishable', now)];
+    return { merchant, keys };
+  }
+
+  list(): Promise<Merchant[]> {
+    return this.repository.listMerchants();
+  }
+
+  /**
+   * The settings a merchant's charges run with: its own over the gateway-wide
+   * defaults. Fields neither sets are left for the fraud and routing rules.
+   */
+  async settingsFor(merchantId?: string): Promise<MerchantSettings> {
+    const defaults = await this.repository.findSettings(null);
+    const own = merchantId ? await this.repository.findSettings(merchantId) : undefined;
+    return { ...defaults?.settings, ...own?.settings };
+  }
+
+  // Pass null for the gateway-wide defaults. Settings never set read as empty
+  async getSettings(merchantId: string | null): Promise<MerchantSettingsRecord> {
+    if (merchantId !== null) {
+      await this.findMerchant(merchantId);
+    }
+    return (await this.repository.findSettings(merchantId)) ?? { merchantId, settings: {} };
+  }
+
+  // Replaces the whole set; a field left out goes back to being inherited
+  async updateSettings(
+    merchantId: string | null,
+    settings: MerchantSettings,
+    actor: string,
+    now = new Date()
+  ): Promise<MerchantSettingsRecord> {
+    if (merchantId !== null) {
+      await this.findMerchant(merchantId);
+    }
+    const record: MerchantSettingsRecord = { merchantId, settings, updatedAt: now, updatedBy: actor };
+    await this.repository.saveSettings(record);
+    return record;
+  }
+
+  // Resolves an `Authorization: Bearer <key>` header to the principal the request acts as
+  async authenticate(authorization: string | undefined, now = new Date()): Promise<Principal> {
+    const [scheme, key] = authorization?.trim().split(/\s+/) ?? [];
+    if (scheme?.toLowerCase() !== 'bearer' || !key) {
+      throw new GatewayError(401, 'missing_api_key', 'An API key is required: send "Authorization: Bearer <key>"');
+    }
+
+    const hash = hashApiKey(key);
+    if (this.adminKeyHash && crypto.timingSafeEqual(Buffer.from(hash), this.adminKeyHash)) {
+      return { role: 'admin' };
+    }
+
+    const apiKey = await this.repository.findKeyByHash(hash);
+    if (!apiKey || !isActive(apiKey, now)) {
+      throw invalidKey();
+    }
+    const merchant = await this.repository.findMerchant(apiKey.merchantId);
+    if (!merchant) {
+      throw invalidKey();
+    }
+    return { role: apiKey.type, merchant, keyId: apiKey.id };
+  }
+
+  async listKeys(merchantId: string): Promise<ApiKeySummary[]> {
+    return (await this.repository.listKeys(merchantId)).map(summarize);
+  }
+
+  /**
+   * Issues a replacement of the same type. The old key stops working now, or
+   * after `graceMs` so deployments can switch over without failed requests.
+   */
+  async rotateKey(merchantId: string, keyId: string, graceMs = 0, now = new Date()): Promise<IssuedApiKey> {
+    const key = await this.findKey(merchantId, keyId);
+    if (!isActive(key, now)) {
+      throw new GatewayError(409, 'api_key_inactive', 'Only an active key can be rotated');
+    }
+
+    if (graceMs > 0) {
+      key.expiresAt = new Date(now.getTime() + graceMs);
+    } else {
+      key.revokedAt = now;
+    }
+    await this.repository.saveKey(key);
+    return this.issue(merchantId, key.type, now);
+  }
+
+  async revokeKey(merchantId: string, keyId: string, now = new Date()): Promise<ApiKeySummary> {
+    const key = await this.findKey(merchantId, keyId);
+    if (key.revokedAt) {
+      return summarize(key);
+    }
+
+    // Without an active secret key the merchant could not call the API again, not even to issue a new one
+    const otherSecrets = (await this.repository.listKeys(merchantId)).filter(
+      other => other.id !== key.id && other.type === 'secret' && isActive(other, now)
+    );
+    if (key.type === 'secret' && isActive(key, now) && otherSecrets.length === 0) {
+      throw new GatewayError(409, 'last_secret_key', 'The last active secret key cannot be revoked; rotate it instead');
+    }
+
+    key.revokedAt = now;
+    await this.repository.saveKey(key);
+    return summarize(key);
+  }
+
+  private async findMerchant(id: string): Promise<Merchant> {
+    const merchant = await this.repository.findMerchant(id);
+    if (!merchant) {
+      throw new GatewayError(404, 'merchant_not_found', 'Merchant not found');
+    }
+    return merchant;
+  }
+
+  private async findKey(merchantId: string, keyId: string): Promise<ApiKey> {
+    const key = await this.repository.findKey(keyId);
+    if (!key || key.merchantId !== merchantId) {
+      throw new GatewayError(404, 'api_key_not_found', 'API key not found');
+    }
+    return key;
+  }
+
+  private async issue(merchantId: string, type: ApiKeyType, now: Date): Promise<IssuedApiKey> {
+    const value = `${KEY_PREFIXES[type]}${crypto.randomBytes(24).toString('hex')}`;
+    const key: ApiKey = {
+      id: uuidv4(),
+      merchantId,
+      type,
+      prefix: value.slice(0, 11),
+      hash: hashApiKey(value),
+      createdAt: now
+    };
+    await this.repository.saveKey(key);
+    return { ...summarize(key), key: value };
+  }
+}
@@ -0,0 +1,158 @@
+import Joi from 'joi';
+import { ChargeRequest } from './types';
+import { chargeRequestSchema } from './validation';
+import { FraudDetector } from './fraudDetection';
+
+export interface LabelledCharge {
+  request: ChargeRequest;
+  fraud: boolean;
+  at?: Date;
+}
+
+export interface ScoredCharge {
+  score: number;
+  fraud: boolean;
+}
+
+export interface ThresholdMetrics {
+  threshold: number;
+  precision: number | null;
+  recall: number | null;
+  blockRate: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+export interface EvaluationReport {
+  modelVersion: string;
+  charges: number;
+  fraudulent: number;
+  auc: number | null;
+  thresholds: ThresholdMetrics[];
+}
+
+export const DEFAULT_THRESHOLDS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+// One charge per line, with its label and an optional time used to replay velocity
+const labelledChargeSchema = chargeRequestSchema.keys({
+  label: Joi.alternatives().try(Joi.boolean(), Joi.number().valid(0, 1)).required(),
+  timestamp: Joi.date().iso()
+});
+
+export const parseLabelledCharges = (text: string, source: string): LabelledCharge[] =>
+  text.split('\n').flatMap((line, index) => {
+    if (!line.trim()) {
+      return [];
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(line);
+    } catch (err) {
+      throw new Error(`${source}:${index + 1}: ${(err as Error).message}`);
+    }
+
+    const { error, value } = labelledChargeSchema.validate(data, { abortEarly: false });
+    if (error) {
+      throw new Error(`${source}:${index + 1}: ${error.details.map(d => d.message).join('; ')}`);
+    }
+
+    const { label, timestamp, ...request } = value;
+    return [{ request, fraud: label === true || label === 1, ...(timestamp && { at: timestamp }) }];
+  });
+
+/**
+ * Replays charges in file order through the detector's model so velocity
+ * features see the same history they would have seen live. Lines without a
+ * timestamp are spaced one second apart.
+ */
+export const scoreCharges = (detector: FraudDetector, charges: LabelledCharge[], start = Date.now()): ScoredCharge[] =>
+  charges.map(({ request, fraud, at }, index) => {
+    const now = at?.getTime() ?? start + index * 1000;
+    const { score } = detector.scoreWithModel(request, now);
+    detector.recordCharge(request, detector.shouldBlock(score), now);
+    return { score, fraud };
+  });
+
+// Probability that a random fraudulent charge outscores a random legitimate one (ties count half)
+export const areaUnderCurve = (scored: ScoredCharge[]): number | null => {
+  const positives = scored.filter(charge => charge.fraud).length;
+  const negatives = scored.length - positives;
+  if (positives === 0 || negatives === 0) {
+    return null;
+  }
+
+  const sorted = [...scored].sort((a, b) => a.score - b.score);
+  let positiveRankSum = 0;
+
+  for (let start = 0; start < sorted.length; ) {
+    let end = start;
+    while (end < sorted.length && sorted[end].score === sorted[start].score) {
+      end++;
+    }
+
+    const averageRank = (start + 1 + end) / 2;
+    positiveRankSum += sorted.slice(start, end).filter(charge => charge.fraud).length * averageRank;
+    start = end;
+  }
+
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+};
+
+export const metricsAt = (scored: ScoredCharge[], threshold: number): ThresholdMetrics => {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  for (const { score, fraud } of scored) {
+    const blocked = score >= threshold;
+    if (blocked && fraud) truePositives++;
+    if (blocked && !fraud) falsePositives++;
+    if (!blocked && fraud) falseNegatives++;
+  }
+
+  const blocked = truePositives + falsePositives;
+  const fraudulent = truePositives + falseNegatives;
+
+  return {
+    threshold,
+    precision: blocked ? truePositives / blocked : null,
+    recall: fraudulent ? truePositives / fraudulent : null,
+    blockRate: scored.length ? blocked / scored.length : 0,
+    truePositives,
+    falsePositives,
+    falseNegatives
+  };
+};
+
+export const evaluateModel = (
+  modelVersion: string,
+  scored: ScoredCharge[],
+  thresholds: number[] = DEFAULT_THRESHOLDS
+): EvaluationReport => ({
+  modelVersion,
+  charges: scored.length,
+  fraudulent: scored.filter(charge => charge.fraud).length,
+  auc: areaUnderCurve(scored),
+  thresholds: thresholds.map(threshold => metricsAt(scored, threshold))
+});
+
+const percent = (value: number | null): string => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+
+export const formatReport = (report: EvaluationReport): string =>
+  [
+    `Model: ${report.modelVersion}`,
+    `Charges: ${report.charges} (${report.fraudulent} fraudulent)`,
+    `AUC: ${report.auc === null ? 'n/a' : report.auc.toFixed(4)}`,
+    '',
+    'threshold  precision  recall   block rate',
+    ...report.thresholds.map(metrics =>
+      [
+        metrics.threshold.toFixed(2).padEnd(10),
+        percent(metrics.precision).padEnd(10),
+        percent(metrics.recall).padEnd(8),
+        percent(metrics.blockRate)
+      ].join(' ')
+    )
+  ].join('\n');
@@ -1,58 +1,829 @@
 import { v4 as uuidv4 } from 'uuid';
-import { ChargeRequest, ChargeResponse, Transaction, PaymentProvider } from './types';
+import {
+  CardDetails,
+  ChargeRequest,
+  ChargeResponse,
+  ChargeStatus,
+  MerchantSettings,
+  Transaction,
+  TransactionDetails,
+  TransactionPage,
+  TransactionQuery,
+  TransactionStatus,
+  PaymentProvider,
+  ProviderAttempt,
+  ProviderEvent,
+  Refund,
+  RefundRequest,
+  CaptureRequest,
+  ReviewDecision,
+  RiskDecision,
+  RoutingDecision,
+  ShadowReport,
+  ShadowReportQuery,
+  WebhookEventType
+} from './types';
 import { FraudDetector } from './fraudDetection';
 import { LLMService } from './llmService';
+import { ProviderAdapter } from './providerAdapters';
+import { ProviderRegistry, createProviderRegistry } from './providerRegistry';
+import { GatewayError, ProviderError } from './errors';
+import { CircuitBreaker, CircuitState } from './circuitBreaker';
+import { GatewayConfig, loadConfig } from './config';
+import { assertTransition, transition } from './transactionState';
+import { TransactionRepository, createTransactionRepository } from './transactionRepository';
+import { ShadowEvaluator, buildShadowReport } from './shadowEvaluator';
+import { ProviderRouter } from './providerRouter';
+import { WebhookDispatcher } from './webhooks';
+import { Merchants } from './merchants';
+import { formatAmount } from './currencies';
+import { CardVault } from './vault';
+import { FxConverter } from './fx';
+
+export interface PaymentServiceOptions {
+  adapters?: ProviderAdapter[];
+  config?: GatewayConfig;
+  repository?: TransactionRepository;
+  fraudDetector?: FraudDetector;
+  shadowEvaluator?: ShadowEvaluator;
+  router?: ProviderRouter;
+  registry?: ProviderRegistry;
+  webhooks?: WebhookDispatcher;
+  // Where per-merchant settings come from; without it every charge runs on the rules alone
+  merchants?: Merchants;
+  // With a vault, charges must be made with its card tokens
+  vault?: CardVault;
+  // Converts charges to the base currency merchant amount limits are set in
+  fx?: FxConverter;
+}
+
+interface ChargeOutcome {
+  status: ChargeStatus;
+  provider?: PaymentProvider;
+  attempts: ProviderAttempt[];
+  reference?: string;
+  declineCode?: string;
+  errorCode?: string;
+}
+
+const STATUS_FOR_OUTCOME: Record<ChargeStatus, TransactionStatus> = {
+  success: 'succeeded',
+  authorized: 'authorized',
+  pending_review: 'pending_review',
+  blocked: 'blocked',
+  declined: 'declined',
+  failed: 'failed'
+};
+
+// The event sent when a charge reaches a status; captures and refunds have their own
+const CHARGE_EVENTS: Partial<Record<TransactionStatus, WebhookEventType>> = {
+  succeeded: 'charge.succeeded',
+  authorized: 'charge.authorized',
+  pending_review: 'charge.pending_review',
+  blocked: 'charge.blocked',
+  declined: 'charge.declined',
+  failed: 'charge.failed',
+  voided: 'charge.voided',
+  expired: 'charge.expired',
+  disputed: 'charge.disputed',
+  charged_back: 'charge.charged_back'
+};
+
+const describeOutcome = (outcome: ChargeOutcome, riskScore: number): string => {
+  switch (outcome.status) {
+    case 'success':
+      return `Charged via ${outcome.provider}`;
+    case 'authorized':
+      return `Authorized via ${outcome.provider}`;
+    case 'declined':
+      return `Declined by ${outcome.provider}: ${outcome.declineCode}`;
+    case 'failed':
+      return `Provider error: ${outcome.errorCode}`;
+    case 'pending_review':
+      return `Held for manual review with risk score ${riskScore.toFixed(2)}`;
+    case 'blocked':
+      return `Blocked with risk score ${riskScore.toFixed(2)}`;
+  }
+};
+
+// The BIN is read from the vault for each charge and never stored; transactions keep the brand and last4
+const storedRequest = ({ card, ...request }: ChargeRequest): ChargeRequest =>
+  card ? { ...request, card: { brand: card.brand, last4: card.last4 } } : request;
+
+// Only what was given, so a bare approval leaves no empty `review` on the timeline
+const reviewDetails = ({ reviewer, note }: ReviewDecision): ReviewDecision | undefined =>
+  reviewer || note ? { ...(reviewer && { reviewer }), ...(note && { note }) } : undefined;
 
 export class PaymentService {
-  private transactions: Transaction[] = [];
-  private fraudDetector = new FraudDetector();
+  private repository: TransactionRepository;
+  private fraudDetector: FraudDetector;
+  private shadowEvaluator?: ShadowEvaluator;
+  private router: ProviderRouter;
+  private registry: ProviderRegistry;
+  private webhooks?: WebhookDispatcher;
+  private merchants?: Merchants;
+  private vault?: CardVault;
+  private fx: FxConverter;
   private llmService = new LLMService();
+  private adapters: Map<PaymentProvider, ProviderAdapter>;
+  private breakers = new Map<PaymentProvider, CircuitBreaker>();
+  private authorizationExpiryMs: number;
+  private reviewSlaMs: number;
+  private locks = new Map<string, Promise<void>>();
+
+  constructor(options: PaymentServiceOptions = {}) {
+    const config = options.config ?? loadConfig();
+    this.registry = options.registry ?? createProviderRegistry(config);
+    const adapters = options.adapters ?? this.registry.createAdapters();
 
-  async processCharge(request: ChargeRequest): Promise<ChargeResponse> {
+    this.repository = options.repository ?? createTransactionRepository(config);
+    this.fraudDetector = options.fraudDetector ?? new FraudDetector();
+    this.shadowEvaluator = options.shadowEvaluator;
+    this.router = options.router ?? new ProviderRouter();
+    this.webhooks = options.webhooks;
+    this.merchants = options.merchants;
+    this.vault = options.vault;
+    this.fx = options.fx ?? new FxConverter();
+    this.authorizationExpiryMs = config.authorization.expiryMs;
+    this.reviewSlaMs = config.review.slaMs;
+    this.adapters = new Map(adapters.map(adapter => [adapter.id, adapter]));
+    for (const adapter of adapters) {
+      this.breakers.set(adapter.id, new CircuitBreaker(config.circuitBreaker));
+    }
+  }
+
+  async processCharge(charge: ChargeRequest): Promise<ChargeResponse> {
     const transactionId = uuidv4();
-    const riskScore = this.fraudDetector.calculateRiskScore(request);
-    const isBlocked = this.fraudDetector.shouldBlock(riskScore);
-    
-    let provider: PaymentProvider | null = null;
-    let status: 'success' | 'blocked' = 'blocked';
+    const { request, card } = await this.revealCard(charge);
+    const settings = await this.settingsFor(request);
+    this.assertAccepted(request, settings);
+    const { score: riskScore, factors: riskFactors } = await this.fraudDetector.assessRisk(request);
+    const isBlocked = this.fraudDetector.shouldBlock(riskScore, settings);
+    const needsReview = this.fraudDetector.shouldReview(riskScore, settings);
+    const liveDecision: RiskDecision = isBlocked ? 'block' : needsReview ? 'review' : 'approve';
+    // Scored before the charge is recorded so the candidate sees the same velocity history
+    const shadow = await this.shadowEvaluator?.evaluate(request, liveDecision, settings);
+    this.fraudDetector.recordCharge(request, isBlocked);
+
+    let outcome: ChargeOutcome = { status: 'blocked', attempts: [] };
+    let routing: RoutingDecision | undefined;
 
-    if (!isBlocked) {
-      provider = this.selectProvider(riskScore);
-      status = 'success';
+    if (needsReview) {
+      outcome = { status: 'pending_review', attempts: [] };
+    } else if (!isBlocked) {
+      routing = this.selectRoute(request, riskScore, settings);
+      outcome = await this.routeWithFailover(routing.provider, request, settings, card);
     }
 
     const explanation = await this.llmService.generateExplanation(
-      request, 
-      riskScore, 
-      provider, 
-      isBlocked
+      request,
+      riskScore,
+      outcome,
+      riskFactors,
+      settings.llmExplanations ?? true
     );
 
     const response: ChargeResponse = {
       transactionId,
-      provider: provider || 'none',
-      status,
+      provider: 'none',
+      status: outcome.status,
       riskScore,
+      riskFactors,
       explanation
     };
 
     // Log transaction
-    this.transactions.push({
+    const timestamp = new Date();
+    const transaction: Transaction = {
       id: transactionId,
-      timestamp: new Date(),
-      request,
-      response
-    });
+      timestamp,
+      request: storedRequest(request),
+      response,
+      status: STATUS_FOR_OUTCOME[outcome.status],
+      attempts: [],
+      authorizedAmount: 0,
+      capturedAmount: 0,
+      refundedAmount: 0,
+      timeline: [{ at: timestamp, status: STATUS_FOR_OUTCOME[outcome.status], note: describeOutcome(outcome, riskScore) }]
+    };
+
+    this.applyOutcome(transaction, outcome, timestamp);
+
+    if (outcome.status === 'pending_review') {
+      transaction.reviewDueAt = new Date(timestamp.getTime() + this.reviewSlaMs);
+    }
+    if (shadow) {
+      transaction.shadow = shadow;
+    }
+    if (routing) {
+      transaction.routing = routing;
+    }
+
+    await this.repository.save(transaction);
+    await this.notify(CHARGE_EVENTS[transaction.status]!, transaction);
 
     return response;
   }
 
-  getTransactions(): Transaction[] {
-    return [...this.transactions];
+  async getTransactions(): Promise<Transaction[]> {
+    await this.expireAuthorizations();
+    await this.expireReviews();
+    return this.repository.list();
+  }
+
+  async listTransactions(query: TransactionQuery): Promise<TransactionPage> {
+    await this.expireAuthorizations();
+    await this.expireReviews();
+    return this.repository.query(query);
+  }
+
+  // Defaults to the candidate currently running; without one it covers every candidate recorded
+  async getShadowReport(query: ShadowReportQuery): Promise<ShadowReport> {
+    const version = query.version ?? this.shadowEvaluator?.version;
+    const evaluated = await this.repository.findShadowEvaluated(version);
+    return buildShadowReport(evaluated, { ...query, version });
+  }
+
+  // The review queue, oldest deadline first
+  async listReviews(): Promise<Transaction[]> {
+    await this.expireReviews();
+    return this.repository.findPendingReviews();
+  }
+
+  // Sends a held charge to the provider it would have been routed to without review
+  approveReview(transactionId: string, decision: ReviewDecision): Promise<Transaction> {
+    return this.withLock(transactionId, async () => {
+      const transaction = await this.findPendingReview(transactionId);
+      const { response } = transaction;
+      // Revealed again for the BIN, which routing rules may match on
+      const { request, card } = await this.revealCard(transaction.request);
+      const settings = await this.settingsFor(request);
+      // Settings may have changed while the charge was held; refused, it stays held for a reviewer to reject
+      this.assertAccepted(request, settings);
+
+      const routing = this.selectRoute(request, response.riskScore, settings);
+      const outcome = await this.routeWithFailover(routing.provider, request, settings, card);
+      const at = new Date();
+      transition(
+        transaction,
+        STATUS_FOR_OUTCOME[outcome.status],
+        `Approved in review. ${describeOutcome(outcome, response.riskScore)}`,
+        at,
+        reviewDetails(decision)
+      );
+      transaction.reviewDueAt = undefined;
+      transaction.routing = routing;
+      this.applyOutcome(transaction, outcome, at);
+      response.explanation = await this.llmService.generateExplanation(
+        request,
+        response.riskScore,
+        outcome,
+        response.riskFactors,
+        settings.llmExplanations ?? true
+      );
+
+      await this.repository.save(transaction);
+      await this.notify(CHARGE_EVENTS[transaction.status]!, transaction);
+      return transaction;
+    });
+  }
+
+  rejectReview(transactionId: string, decision: ReviewDecision): Promise<Transaction> {
+    return this.withLock(transactionId, async () => {
+      const transaction = await this.findPendingReview(transactionId);
+      this.declineReview(transaction, 'review_rejected', 'Rejected in review', new Date(), reviewDetails(decision));
+      await this.repository.save(transaction);
+      await this.notify('charge.declined', transaction);
+      return transaction;
+    });
+  }
+
+  // Declines charges nobody reviewed within the SLA
+  async expireReviews(now = Date.now()): Promise<number> {
+    const overdue = await this.repository.findPendingReviews(new Date(now));
+    let expired = 0;
+
+    for (const { id } of overdue) {
+      const didExpire = await this.withLock(id, async () =>
+        this.expireIfStale(await this.findTransaction(id), now)
+      );
+      if (didExpire) {
+        expired++;
+      }
+    }
+
+    return expired;
+  }
+
+  async getTransaction(id: string): Promise<TransactionDetails | undefined> {
+    const transaction = await this.repository.findById(id);
+    if (!transaction) {
+      return undefined;
+    }
+
+    if (this.isStale(transaction)) {
+      return this.withLock(id, async () => {
+        await this.expireIfStale(await this.findTransaction(id));
+        return this.getTransaction(id);
+      });
+    }
+
+    return {
+      ...transaction,
+      refunds: await this.repository.listRefunds(id),
+      refundableAmount: transaction.capturedAmount - transaction.refundedAmount
+    };
+  }
+
+  captureCharge(transactionId: string, request: CaptureRequest): Promise<Transaction> {
+    return this.withLock(transactionId, async () => {
+      const transaction = await this.findTransaction(transactionId);
+      await this.expireIfStale(transaction);
+      assertTransition(transaction.status, 'succeeded');
+
+      const amount = request.amount ?? transaction.authorizedAmount;
+      if (amount > transaction.authorizedAmount) {
+        throw new GatewayError(
+          422,
+          'amount_exceeds_authorized',
+          `Capture amount ${amount} exceeds the authorized amount ${transaction.authorizedAmount}`
+        );
+      }
+
+      const adapter = this.adapterFor(transaction);
+      try {
+        const result = await adapter.capture(transaction.providerReference!, amount);
+        transition(transaction, 'succeeded', `Captured ${result.amount} of ${transaction.authorizedAmount}`);
+        transaction.capturedAmount = result.amount;
+        transaction.authorizationExpiresAt = undefined;
+      } catch (error) {
+        throw this.toGatewayError(error);
+      }
+
+      await this.repository.save(transaction);
+      await this.notify('charge.captured', transaction);
+      return transaction;
+    });
+  }
+
+  voidCharge(transactionId: string): Promise<Transaction> {
+    return this.withLock(transactionId, async () => {
+      const transaction = await this.findTransaction(transactionId);
+      await this.expireIfStale(transaction);
+      assertTransition(transaction.status, 'voided');
+
+      const adapter = this.adapterFor(transaction);
+      try {
+        await adapter.void(transaction.providerReference!);
+        transition(transaction, 'voided', 'Authorization voided');
+        transaction.authorizationExpiresAt = undefined;
+      } catch (error) {
+        throw this.toGatewayError(error);
+      }
+
+      await this.repository.save(transaction);
+      await this.notify('charge.voided', transaction);
+      return transaction;
+    });
+  }
+
+  // Expires authorizations that were not captured in time and releases the hold at the provider
+  async expireAuthorizations(now = Date.now()): Promise<number> {
+    const stale = await this.repository.findExpiredAuthorizations(new Date(now));
+    let expired = 0;
+
+    for (const { id } of stale) {
+      const didExpire = await this.withLock(id, async () =>
+        this.expireIfStale(await this.findTransaction(id), now)
+      );
+      if (didExpire) {
+        expired++;
+      }
+    }
+
+    return expired;
+  }
+
+  refundCharge(transactionId: string, request: RefundRequest): Promise<Refund> {
+    return this.withLock(transactionId, async () => {
+      const transaction = await this.findTransaction(transactionId);
+
+      if (transaction.status !== 'succeeded' && transaction.status !== 'partially_refunded') {
+        throw new GatewayError(409, 'not_refundable', `A ${transaction.status} transaction cannot be refunded`);
+      }
+
+      const refundable = transaction.capturedAmount - transaction.refundedAmount;
+      const amount = request.amount ?? refundable;
+      if (amount <= 0 || amount > refundable) {
+        throw new GatewayError(
+          422,
+          'amount_exceeds_refundable',
+          `Refund amount ${amount} exceeds the refundable amount ${refundable}`
+        );
+      }
+
+      const adapter = this.adapterFor(transaction);
+      const refund: Refund = {
+        id: uuidv4(),
+        transactionId,
+        amount,
+        status: 'succeeded',
+        createdAt: new Date()
+      };
+
+      if (request.reason) {
+        refund.reason = request.reason;
+      }
+
+      try {
+        const result = await adapter.refund(transaction.providerReference!, amount);
+        refund.providerReference = result.reference;
+      } catch (error) {
+        if (!(error instanceof ProviderError)) {
+          throw error;
+        }
+        refund.status = 'failed';
+        refund.errorCode = error.code;
+      }
+
+      if (refund.status === 'succeeded') {
+        transaction.refundedAmount += amount;
+        const status = transaction.refundedAmount === transaction.capturedAmount ? 'refunded' : 'partially_refunded';
+        transition(transaction, status, `Refunded ${amount} (refund ${refund.id})`);
+        await this.repository.save(transaction);
+      }
+
+      await this.repository.saveRefund(refund);
+      await this.notify(refund.status === 'succeeded' ? 'refund.created' : 'refund.failed', transaction, refund);
+      return refund;
+    });
+  }
+
+  /**
+   * Applies a verified provider webhook to the charge it is about. Returns
+   * undefined when no transaction has the reference, and throws a 409 when the
+   * event does not fit the transaction's current state.
+   */
+  async applyProviderEvent(event: ProviderEvent): Promise<Transaction | undefined> {
+    const match = await this.repository.findByProviderReference(event.provider, event.reference);
+    if (!match) {
+      return undefined;
+    }
+
+    return this.withLock(match.id, async () => {
+      const transaction = await this.findTransaction(match.id);
+      const type = this.applyEvent(transaction, event);
+      await this.repository.save(transaction);
+      await this.notify(type, transaction);
+      return transaction;
+    });
+  }
+
+  getCircuitStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    this.breakers.forEach((breaker, provider) => {
+      states[provider] = breaker.getState();
+    });
+    return states;
+  }
+
+  private async findTransaction(id: string): Promise<Transaction> {
+    const transaction = await this.repository.findById(id);
+    if (!transaction) {
+      throw new GatewayError(404, 'transaction_not_found', 'Transaction not found');
+    }
+    return transaction;
+  }
+
+  // Serializes state changes per transaction so concurrent captures, voids and refunds cannot interleave
+  private async withLock<T>(id: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) ?? Promise.resolve();
+    let release!: () => void;
+    const held = new Promise<void>(resolve => (release = resolve));
+    const current = previous.then(() => held);
+    this.locks.set(id, current);
+
+    await previous;
+    try {
+      return await operation();
+    } finally {
+      release();
+      if (this.locks.get(id) === current) {
+        this.locks.delete(id);
+      }
+    }
+  }
+
+  private async findPendingReview(id: string): Promise<Transaction> {
+    const transaction = await this.findTransaction(id);
+    await this.expireIfStale(transaction);
+
+    if (transaction.status !== 'pending_review') {
+      throw new GatewayError(409, 'not_pending_review', `A ${transaction.status} transaction is not awaiting review`);
+    }
+    return transaction;
+  }
+
+  private declineReview(
+    transaction: Transaction,
+    declineCode: string,
+    note: string,
+    at = new Date(),
+    review?: ReviewDecision
+  ): void {
+    transition(transaction, 'declined', note, at, review);
+    transaction.response.status = 'declined';
+    transaction.response.declineCode = declineCode;
+    transaction.reviewDueAt = undefined;
+  }
+
+  private applyEvent(transaction: Transaction, event: ProviderEvent): WebhookEventType {
+    const { provider } = event;
+
+    switch (event.kind) {
+      case 'dispute_opened':
+        transition(transaction, 'disputed', `Disputed via ${provider}${event.reason ? `: ${event.reason}` : ''}`);
+        transaction.dispute = {
+          id: event.disputeId ?? event.id,
+          amount: event.amount ?? transaction.capturedAmount,
+          openedAt: event.occurredAt,
+          ...(event.reason && { reason: event.reason })
+        };
+        return 'charge.disputed';
+
+      case 'dispute_won':
+        // partially_refunded -> partially_refunded is a legal move, so check for an open dispute explicitly
+        this.assertDisputed(transaction);
+        transition(
+          transaction,
+          transaction.refundedAmount > 0 ? 'partially_refunded' : 'succeeded',
+          `Dispute won via ${provider}`
+        );
+        transaction.dispute = { ...transaction.dispute!, outcome: 'won', closedAt: event.occurredAt };
+        return 'charge.dispute_won';
+
+      case 'dispute_lost':
+        this.assertDisputed(transaction);
+        transition(transaction, 'charged_back', `Dispute lost via ${provider}`);
+        transaction.dispute = { ...transaction.dispute!, outcome: 'lost', closedAt: event.occurredAt };
+        return 'charge.charged_back';
+
+      case 'late_decline':
+        transition(transaction, 'declined', `Declined by ${provider} after acceptance: ${event.declineCode}`);
+        transaction.response.status = 'declined';
+        transaction.response.declineCode = event.declineCode;
+        transaction.authorizedAmount = 0;
+        transaction.capturedAmount = 0;
+        transaction.authorizationExpiresAt = undefined;
+        return 'charge.declined';
+
+      case 'settled':
+        if (transaction.capturedAmount === 0) {
+          throw new GatewayError(409, 'not_settleable', `A ${transaction.status} transaction has nothing to settle`);
+        }
+        transaction.settledAt = event.occurredAt;
+        return 'charge.settled';
+    }
+  }
+
+  private assertDisputed(transaction: Transaction): void {
+    if (transaction.status !== 'disputed') {
+      throw new GatewayError(409, 'not_disputed', `A ${transaction.status} transaction has no open dispute`);
+    }
+  }
+
+  // Copies the result of routing a charge onto its transaction
+  private applyOutcome(transaction: Transaction, outcome: ChargeOutcome, at: Date): void {
+    const { request, response } = transaction;
+
+    response.provider = outcome.provider ?? 'none';
+    response.status = outcome.status;
+    if (outcome.declineCode) {
+      response.declineCode = outcome.declineCode;
+    }
+    if (outcome.errorCode) {
+      response.errorCode = outcome.errorCode;
+    }
+
+    transaction.providerReference = outcome.reference;
+    transaction.attempts = outcome.attempts;
+    transaction.authorizedAmount = outcome.status === 'success' || outcome.status === 'authorized' ? request.amount : 0;
+    transaction.capturedAmount = outcome.status === 'success' ? request.amount : 0;
+
+    if (outcome.status === 'authorized') {
+      transaction.authorizationExpiresAt = new Date(at.getTime() + this.authorizationExpiryMs);
+    }
+  }
+
+  private adapterFor(transaction: Transaction): ProviderAdapter {
+    const adapter = this.adapters.get(transaction.response.provider as PaymentProvider);
+    if (!adapter || !transaction.providerReference) {
+      throw new GatewayError(409, 'provider_unavailable', `Provider ${transaction.response.provider} is not configured`);
+    }
+    return adapter;
+  }
+
+  // Authorizations past their expiry and reviews past their SLA are both settled lazily on read
+  private isStale(transaction: Transaction, now = Date.now()): boolean {
+    const deadline =
+      transaction.status === 'authorized'
+        ? transaction.authorizationExpiresAt
+        : transaction.status === 'pending_review'
+          ? transaction.reviewDueAt
+          : undefined;
+    return !!deadline && deadline.getTime() <= now;
+  }
+
+  private async expireIfStale(transaction: Transaction, now = Date.now()): Promise<boolean> {
+    if (!this.isStale(transaction, now)) {
+      return false;
+    }
+
+    if (transaction.status === 'pending_review') {
+      this.declineReview(transaction, 'review_expired', 'Review SLA expired', new Date(now));
+      await this.repository.save(transaction);
+      await this.notify('charge.declined', transaction);
+      return true;
+    }
+
+    transition(transaction, 'expired', 'Authorization was not captured in time', new Date(now));
+    transaction.authorizationExpiresAt = undefined;
+    await this.repository.save(transaction);
+    await this.notify('charge.expired', transaction);
+
+    // Best effort: the provider drops stale holds on its own if this fails
+    this.adapters.get(transaction.response.provider as PaymentProvider)
+      ?.void(transaction.providerReference!)
+      .catch(() => undefined);
+    return true;
   }
 
-  private selectProvider(riskScore: number): PaymentProvider {
-    // Simple routing: lower risk goes to Stripe, higher risk to PayPal
-    return riskScore < 0.3 ? 'stripe' : 'paypal';
+  // Webhooks go to the charge's merchant; refund events carry the refund rather than the charge
+  private async notify(type: WebhookEventType, transaction: Transaction, object: Transaction | Refund = transaction): Promise<void> {
+    await this.webhooks?.publish(type, object, transaction.request.merchantId);
+  }
+
+  private toGatewayError(error: unknown): unknown {
+    if (error instanceof ProviderError) {
+      return new GatewayError(502, error.code, error.message);
+    }
+    return error;
+  }
+
+  // The request keeps the token and gains the brand, BIN and last4; the number itself only goes to providers
+  private async revealCard(request: ChargeRequest): Promise<{ request: ChargeRequest; card?: CardDetails }> {
+    if (!this.vault) {
+      return { request };
+    }
+    const { card, summary } = await this.vault.reveal(request.source, request.merchantId);
+    return { request: { ...request, card: summary }, card };
+  }
+
+  private settingsFor(request: ChargeRequest): Promise<MerchantSettings> {
+    return this.merchants?.settingsFor(request.merchantId) ?? Promise.resolve({});
+  }
+
+  // Refused outright, before scoring, so a charge the merchant never takes leaves no history
+  private assertAccepted(request: ChargeRequest, settings: MerchantSettings): void {
+    const { currencies, minAmount, maxAmount } = settings;
+    if (currencies && !currencies.includes(request.currency)) {
+      throw new GatewayError(422, 'currency_not_allowed', `This merchant does not accept ${request.currency}`);
+    }
+    if (minAmount === undefined && maxAmount === undefined) {
+      return;
+    }
+
+    // Limits are in the base currency, so one limit means the same whatever the charge is in
+    const amount = this.fx.toBase(request.amount, request.currency);
+    if (minAmount !== undefined && amount < minAmount) {
+      const limit = formatAmount(minAmount, this.fx.base);
+      throw new GatewayError(422, 'amount_not_allowed', `This merchant accepts charges of at least ${limit}`);
+    }
+    if (maxAmount !== undefined && amount > maxAmount) {
+      const limit = formatAmount(maxAmount, this.fx.base);
+      throw new GatewayError(422, 'amount_not_allowed', `This merchant accepts charges of at most ${limit}`);
+    }
+  }
+
+  private selectRoute(request: ChargeRequest, riskScore: number, settings: MerchantSettings): RoutingDecision {
+    return settings.preferredProviders?.length
+      ? this.router.prefer(settings.preferredProviders, request)
+      : this.router.select(request, riskScore);
+  }
+
+  /**
+   * Tries the preferred provider first, then the merchant's other preferred
+   * providers, then the rest. Fails over on retryable errors only.
+   */
+  private async routeWithFailover(
+    preferred: PaymentProvider,
+    request: ChargeRequest,
+    settings: MerchantSettings = {},
+    card?: CardDetails
+  ): Promise<ChargeOutcome> {
+    const candidates = [...new Set([preferred, ...(settings.preferredProviders ?? []), ...this.adapters.keys()])];
+    const attempts: ProviderAttempt[] = [];
+    let lastError: ProviderError | null = null;
+
+    for (const provider of candidates) {
+      const adapter = this.adapters.get(provider);
+      const breaker = this.breakers.get(provider);
+      if (!adapter || !breaker) {
+        continue;
+      }
+
+      const unsupported = this.registry.unsupportedReason(provider, request);
+      if (unsupported) {
+        attempts.push({
+          provider,
+          startedAt: new Date(),
+          latencyMs: 0,
+          outcome: 'skipped',
+          errorCode: unsupported.code,
+          error: unsupported.message
+        });
+        continue;
+      }
+
+      if (!breaker.canRequest()) {
+        attempts.push({
+          provider,
+          startedAt: new Date(),
+          latencyMs: 0,
+          outcome: 'skipped',
+          errorCode: 'circuit_open',
+          error: `Circuit breaker for ${provider} is open`
+        });
+        continue;
+      }
+
+      const startedAt = new Date();
+      try {
+        const authorization = await adapter.authorize(request, card);
+        breaker.recordSuccess();
+        attempts.push({
+          provider,
+          startedAt,
+          latencyMs: Date.now() - startedAt.getTime(),
+          outcome: authorization.outcome
+        });
+
+        if (authorization.outcome === 'declined') {
+          return { status: 'declined', provider, attempts, declineCode: authorization.declineCode };
+        }
+
+        if (request.capture === false) {
+          return { status: 'authorized', provider, attempts, reference: authorization.reference };
+        }
+
+        return await this.capture(adapter, authorization.reference, attempts);
+      } catch (error) {
+        if (!(error instanceof ProviderError)) {
+          // Counted as a failure so a half-open trial is released rather than left in flight for good
+          breaker.recordFailure();
+          throw error;
+        }
+
+        attempts.push({
+          provider,
+          startedAt,
+          latencyMs: Date.now() - startedAt.getTime(),
+          outcome: 'error',
+          errorCode: error.code,
+          error: error.message
+        });
+
+        if (!error.retryable) {
+          breaker.recordSuccess();
+          return { status: 'failed', provider, attempts, errorCode: error.code };
+        }
+
+        breaker.recordFailure();
+        lastError = error;
+      }
+    }
+
+    if (lastError) {
+      return { status: 'failed', provider: lastError.provider, attempts, errorCode: lastError.code };
+    }
+
+    return { status: 'failed', attempts, errorCode: 'no_provider_available' };
+  }
+
+  // Capture stays on the provider holding the authorization, so its errors never fail over
+  private async capture(
+    adapter: ProviderAdapter,
+    reference: string,
+    attempts: ProviderAttempt[]
+  ): Promise<ChargeOutcome> {
+    try {
+      const capture = await adapter.capture(reference);
+      return { status: 'success', provider: adapter.id, attempts, reference: capture.reference };
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        return { status: 'failed', provider: adapter.id, attempts, reference, errorCode: error.code };
+      }
+      throw error;
+    }
   }
-}
\ No newline at end of file
+}
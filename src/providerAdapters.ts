@@ -0,0 +1,120 @@
+import { CardDetails, ChargeRequest, PaymentProvider, ProviderResult } from './types';
+import { ProviderError, ProviderErrorCode } from './errors';
+import {
+  ProviderSimulator,
+  SimulatedDeclineReason,
+  SimulatedFailure,
+  SimulatedOutcome,
+  TEST_CARDS
+} from './providerSimulator';
+
+export interface ProviderAdapter {
+  readonly id: PaymentProvider;
+  // `card` is the vaulted card behind `request.source`, when the charge was made with one
+  authorize(request: ChargeRequest, card?: CardDetails): Promise<ProviderResult>;
+  capture(reference: string, amount?: number): Promise<ProviderResult>;
+  refund(reference: string, amount: number): Promise<ProviderResult>;
+  void(reference: string): Promise<ProviderResult>;
+}
+
+const FAILURE_CODES: Record<SimulatedFailure, ProviderErrorCode> = {
+  timeout: 'timeout',
+  unavailable: 'provider_unavailable',
+  rate_limited: 'rate_limited',
+  not_found: 'not_found',
+  invalid_state: 'invalid_request'
+};
+
+abstract class SimulatedProviderAdapter implements ProviderAdapter {
+  abstract readonly id: PaymentProvider;
+
+  constructor(protected simulator: ProviderSimulator) {}
+
+  // Each provider reports declines in its own vocabulary
+  protected abstract declineCode(reason: SimulatedDeclineReason): string;
+
+  async authorize(request: ChargeRequest, card?: CardDetails): Promise<ProviderResult> {
+    const source = card ? (TEST_CARDS[card.number] ?? card.number) : request.source;
+    return this.toResult(this.simulator.authorize(source, request.amount, request.currency));
+  }
+
+  async capture(reference: string, amount?: number): Promise<ProviderResult> {
+    return this.toResult(this.simulator.capture(reference, amount));
+  }
+
+  async refund(reference: string, amount: number): Promise<ProviderResult> {
+    return this.toResult(this.simulator.refund(reference, amount));
+  }
+
+  async void(reference: string): Promise<ProviderResult> {
+    return this.toResult(this.simulator.void(reference));
+  }
+
+  private toResult(outcome: SimulatedOutcome): ProviderResult {
+    if (outcome.ok) {
+      return { provider: this.id, outcome: 'approved', reference: outcome.reference, amount: outcome.amount };
+    }
+
+    if (outcome.kind === 'decline') {
+      return {
+        provider: this.id,
+        outcome: 'declined',
+        reference: '',
+        amount: 0,
+        declineCode: this.declineCode(outcome.reason)
+      };
+    }
+
+    throw new ProviderError(this.id, FAILURE_CODES[outcome.failure], outcome.message);
+  }
+}
+
+export class StripeAdapter extends SimulatedProviderAdapter {
+  readonly id = 'stripe' as const;
+
+  constructor(simulator = new ProviderSimulator('stripe', 'ch_')) {
+    super(simulator);
+  }
+
+  protected declineCode(reason: SimulatedDeclineReason): string {
+    return reason === 'insufficient_funds' ? 'insufficient_funds' : 'card_declined';
+  }
+}
+
+export class PayPalAdapter extends SimulatedProviderAdapter {
+  readonly id = 'paypal' as const;
+
+  constructor(simulator = new ProviderSimulator('paypal', 'PAY-')) {
+    super(simulator);
+  }
+
+  protected declineCode(reason: SimulatedDeclineReason): string {
+    return reason === 'insufficient_funds' ? 'INSUFFICIENT_FUNDS' : 'INSTRUMENT_DECLINED';
+  }
+}
+
+export class AdyenAdapter extends SimulatedProviderAdapter {
+  readonly id = 'adyen' as const;
+
+  constructor(simulator = new ProviderSimulator('adyen', 'psp_')) {
+    super(simulator);
+  }
+
+  // Adyen's refusal reasons are human-readable strings
+  protected declineCode(reason: SimulatedDeclineReason): string {
+    return reason === 'insufficient_funds' ? 'Not enough balance' : 'Refused';
+  }
+}
+
+export class BraintreeAdapter extends SimulatedProviderAdapter {
+  readonly id = 'braintree' as const;
+
+  constructor(simulator = new ProviderSimulator('braintree', 'bt_')) {
+    super(simulator);
+  }
+
+  // Braintree reports numeric processor response codes
+  protected declineCode(reason: SimulatedDeclineReason): string {
+    return reason === 'insufficient_funds' ? '2001' : '2000';
+  }
+}
@@ -0,0 +1,55 @@
+import { PaymentProvider, ProviderEventQuery, ProviderEventRecord } from './types';
+import { GatewayConfig } from './config';
+import { SqliteProviderEventRepository } from './sqliteProviderEventRepository';
+
+/**
+ * Storage for inbound provider webhooks. Every verified event is kept, so a
+ * redelivery of the same provider event id can be recognised and dropped.
+ */
+export interface ProviderEventRepository {
+  save(record: ProviderEventRecord): Promise<void>;
+  findById(id: string): Promise<ProviderEventRecord | undefined>;
+  findByEventId(provider: PaymentProvider, eventId: string): Promise<ProviderEventRecord | undefined>;
+  // Newest first
+  list(query: ProviderEventQuery): Promise<ProviderEventRecord[]>;
+}
+
+export class InMemoryProviderEventRepository implements ProviderEventRepository {
+  private records = new Map<string, ProviderEventRecord>();
+
+  async save(record: ProviderEventRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async findById(id: string): Promise<ProviderEventRecord | undefined> {
+    const record = this.records.get(id);
+    return record && structuredClone(record);
+  }
+
+  async findByEventId(provider: PaymentProvider, eventId: string): Promise<ProviderEventRecord | undefined> {
+    const record = [...this.records.values()].find(
+      candidate => candidate.event.provider === provider && candidate.event.id === eventId
+    );
+    return record && structuredClone(record);
+  }
+
+  async list(query: ProviderEventQuery): Promise<ProviderEventRecord[]> {
+    return [...this.records.values()]
+      .filter(
+        record =>
+          (!query.status || record.status === query.status) &&
+          (!query.provider || record.event.provider === query.provider)
+      )
+      .reverse()
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime())
+      .slice(0, query.limit)
+      .map(record => structuredClone(record));
+  }
+}
+
+export const createProviderEventRepository = (config: GatewayConfig): ProviderEventRepository => {
+  if (config.storage.driver === 'sqlite') {
+    return new SqliteProviderEventRepository(config.storage.sqlitePath);
+  }
+  return new InMemoryProviderEventRepository();
+};
@@ -0,0 +1,188 @@
+import Joi from 'joi';
+import fs from 'fs';
+import { ChargeRequest, PaymentProvider } from './types';
+import { GatewayConfig } from './config';
+import { AdyenAdapter, BraintreeAdapter, PayPalAdapter, ProviderAdapter, StripeAdapter } from './providerAdapters';
+import { SUPPORTED_CURRENCIES } from './currencies';
+
+/**
+ * Everything the gateway needs to know about a provider. Adding a provider
+ * means writing its adapter and registering a plugin; nothing else changes.
+ */
+export interface ProviderPlugin {
+  id: PaymentProvider;
+  name: string;
+  // ISO 4217 codes, or '*' for any currency
+  currencies: string[] | '*';
+  minAmount: number;
+  maxAmount: number;
+  createAdapter(): ProviderAdapter;
+}
+
+// What a deployment may override per provider without touching code
+export type ProviderSettings = Partial<Pick<ProviderPlugin, 'currencies' | 'minAmount' | 'maxAmount'>>;
+
+export interface ProviderInfo extends Omit<ProviderPlugin, 'createAdapter'> {
+  enabled: boolean;
+}
+
+export interface UnsupportedReason {
+  code: 'provider_disabled' | 'currency_not_supported' | 'amount_not_supported';
+  message: string;
+}
+
+export class ProviderConfigError extends Error {
+  constructor(
+    readonly source: string,
+    readonly details: string[]
+  ) {
+    super(`Invalid provider configuration in ${source}: ${details.join('; ')}`);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+export const BUILT_IN_PROVIDERS: ProviderPlugin[] = [
+  { id: 'stripe', name: 'Stripe', currencies: '*', minAmount: 1, maxAmount: 10000000, createAdapter: () => new StripeAdapter() },
+  { id: 'paypal', name: 'PayPal', currencies: '*', minAmount: 1, maxAmount: 10000000, createAdapter: () => new PayPalAdapter() },
+  {
+    id: 'adyen',
+    name: 'Adyen',
+    currencies: ['EUR', 'GBP', 'USD', 'SEK', 'DKK', 'NOK', 'CHF'],
+    minAmount: 1,
+    maxAmount: 10000000,
+    createAdapter: () => new AdyenAdapter()
+  },
+  {
+    id: 'braintree',
+    name: 'Braintree',
+    currencies: ['USD', 'EUR', 'GBP', 'AUD', 'CAD'],
+    minAmount: 1,
+    maxAmount: 10000000,
+    createAdapter: () => new BraintreeAdapter()
+  }
+];
+
+export const BUILT_IN_PROVIDER_IDS = BUILT_IN_PROVIDERS.map(plugin => plugin.id);
+
+/**
+ * The registered providers and which of them are enabled. The enabled order is
+ * the failover order after the routed provider.
+ */
+export class ProviderRegistry {
+  private plugins = new Map<PaymentProvider, ProviderPlugin>();
+  private enabled: PaymentProvider[];
+
+  constructor(plugins: ProviderPlugin[] = BUILT_IN_PROVIDERS, enabled: PaymentProvider[] = ['stripe', 'paypal']) {
+    for (const plugin of plugins) {
+      if (this.plugins.has(plugin.id)) {
+        throw new ProviderConfigError('registry', [`Provider ${plugin.id} is registered twice`]);
+      }
+      this.plugins.set(plugin.id, plugin);
+    }
+
+    const unknown = enabled.filter(id => !this.plugins.has(id));
+    if (unknown.length) {
+      throw new ProviderConfigError('PAYMENT_PROVIDERS', unknown.map(id => `Unknown provider ${id}`));
+    }
+    this.enabled = [...new Set(enabled)];
+  }
+
+  ids(): PaymentProvider[] {
+    return [...this.plugins.keys()];
+  }
+
+  enabledIds(): PaymentProvider[] {
+    return [...this.enabled];
+  }
+
+  get(id: PaymentProvider): ProviderPlugin | undefined {
+    return this.plugins.get(id);
+  }
+
+  isEnabled(id: PaymentProvider): boolean {
+    return this.enabled.includes(id);
+  }
+
+  // Providers the registry does not know about (e.g. test adapters) are never ruled out
+  unsupportedReason(id: PaymentProvider, request: ChargeRequest): UnsupportedReason | undefined {
+    const plugin = this.plugins.get(id);
+    if (!plugin) {
+      return undefined;
+    }
+
+    if (!this.isEnabled(id)) {
+      return { code: 'provider_disabled', message: `${plugin.name} is disabled` };
+    }
+    if (plugin.currencies !== '*' && !plugin.currencies.includes(request.currency)) {
+      return { code: 'currency_not_supported', message: `${plugin.name} does not support ${request.currency}` };
+    }
+    if (request.amount < plugin.minAmount || request.amount > plugin.maxAmount) {
+      return {
+        code: 'amount_not_supported',
+        message: `${plugin.name} accepts amounts from ${plugin.minAmount} to ${plugin.maxAmount}`
+      };
+    }
+    return undefined;
+  }
+
+  describe(): ProviderInfo[] {
+    return [...this.plugins.values()].map(({ createAdapter: _createAdapter, ...plugin }) => ({
+      ...plugin,
+      enabled: this.isEnabled(plugin.id)
+    }));
+  }
+
+  createAdapters(): ProviderAdapter[] {
+    return this.enabled.map(id => this.plugins.get(id)!.createAdapter());
+  }
+}
+
+const providerSettingsSchema = Joi.object()
+  .pattern(
+    Joi.string(),
+    Joi.object({
+      currencies: Joi.alternatives().try(
+        Joi.string().valid('*'),
+        Joi.array().items(Joi.string().valid(...SUPPORTED_CURRENCIES)).unique().min(1)
+      ),
+      minAmount: Joi.number().integer().min(1),
+      maxAmount: Joi.when('minAmount', {
+        is: Joi.exist(),
+        then: Joi.number().integer().min(Joi.ref('minAmount')),
+        otherwise: Joi.number().integer().min(1)
+      })
+    })
+  )
+  .required();
+
+export const loadProviderSettings = (path: string, known: PaymentProvider[]): Record<PaymentProvider, ProviderSettings> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new ProviderConfigError(path, [(err as Error).message]);
+  }
+
+  const { error, value } = providerSettingsSchema.validate(data, { abortEarly: false });
+  if (error) {
+    throw new ProviderConfigError(path, error.details.map(d => d.message));
+  }
+
+  const unknown = Object.keys(value).filter(id => !known.includes(id));
+  if (unknown.length) {
+    throw new ProviderConfigError(path, unknown.map(id => `Unknown provider ${id}`));
+  }
+  return value;
+};
+
+export const createProviderRegistry = (
+  config: GatewayConfig,
+  plugins: ProviderPlugin[] = BUILT_IN_PROVIDERS
+): ProviderRegistry => {
+  const { enabled, settingsPath } = config.providers;
+  const settings = settingsPath ? loadProviderSettings(settingsPath, plugins.map(plugin => plugin.id)) : {};
+  return new ProviderRegistry(
+    plugins.map(plugin => ({ ...plugin, ...settings[plugin.id] })),
+    enabled
+  );
+};
@@ -0,0 +1,96 @@
+import { ChargeRequest, PaymentProvider, RoutingDecision } from './types';
+import { evaluateCondition } from './fraudRules';
+import {
+  DEFAULT_ROUTING_RULES,
+  RoutingRule,
+  RoutingRuleSet,
+  SplitTarget,
+  buildRoutingContext,
+  estimateFee
+} from './routingRules';
+
+/**
+ * Picks the preferred provider for a charge. Rules are tried in file order and
+ * the first enabled match decides; failover still tries the others afterwards.
+ */
+export class ProviderRouter {
+  constructor(
+    private ruleSet: RoutingRuleSet = DEFAULT_ROUTING_RULES,
+    private random: () => number = Math.random
+  ) {}
+
+  select(request: ChargeRequest, riskScore: number, now = new Date()): RoutingDecision {
+    const context = buildRoutingContext(request, riskScore, now);
+    const rule = this.ruleSet.rules.find(
+      candidate => candidate.enabled && (!candidate.when || evaluateCondition(candidate.when, context))
+    );
+
+    if (!rule) {
+      return this.decide(null, 'default', this.ruleSet.defaultProvider, request, 'No routing rule matched');
+    }
+
+    if (rule.split) {
+      const provider = this.pickWeighted(rule.split);
+      const shares = rule.split.map(target => `${target.provider} ${target.weight}`).join(' / ');
+      return this.decide(rule, 'split', provider, request, `Weighted split (${shares})`);
+    }
+
+    if (rule.cheapest) {
+      const provider = this.cheapest(rule.cheapest, request.amount);
+      return this.decide(rule, 'lowest_cost', provider, request, `Lowest fee among ${rule.cheapest.join(', ')}`);
+    }
+
+    return this.decide(rule, 'fixed', rule.provider!, request, `Matched ${rule.id}`);
+  }
+
+  // A merchant's own provider order replaces the rules; failover follows it before trying the rest
+  prefer(providers: PaymentProvider[], request: ChargeRequest): RoutingDecision {
+    return this.decide(null, 'merchant_preference', providers[0], request, `Merchant prefers ${providers.join(', ')}`);
+  }
+
+  setRuleSet(ruleSet: RoutingRuleSet): void {
+    this.ruleSet = ruleSet;
+  }
+
+  getRuleSet(): RoutingRuleSet {
+    return this.ruleSet;
+  }
+
+  private decide(
+    rule: RoutingRule | null,
+    strategy: RoutingDecision['strategy'],
+    provider: PaymentProvider,
+    request: ChargeRequest,
+    reason: string
+  ): RoutingDecision {
+    const fee = this.ruleSet.fees[provider];
+    return {
+      ruleSetVersion: this.ruleSet.version,
+      ruleId: rule?.id ?? null,
+      strategy,
+      provider,
+      reason: rule?.description ? `${reason}: ${rule.description}` : reason,
+      ...(fee && { estimatedFee: estimateFee(fee, request.amount) })
+    };
+  }
+
+  private pickWeighted(targets: SplitTarget[]): PaymentProvider {
+    const total = targets.reduce((sum, target) => sum + target.weight, 0);
+    let point = this.random() * total;
+
+    for (const target of targets) {
+      point -= target.weight;
+      if (point < 0) {
+        return target.provider;
+      }
+    }
+    return targets[targets.length - 1].provider;
+  }
+
+  // Ties go to the provider listed first
+  private cheapest(providers: PaymentProvider[], amount: number): PaymentProvider {
+    return providers.reduce((best, provider) =>
+      estimateFee(this.ruleSet.fees[provider]!, amount) < estimateFee(this.ruleSet.fees[best]!, amount) ? provider : best
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { v4 as uuidv4 } from 'uuid';
+
+export type SimulatedDeclineReason = 'generic' | 'insufficient_funds';
+
+export type SimulatedFailure = 'timeout' | 'unavailable' | 'rate_limited' | 'not_found' | 'invalid_state';
+
+export type SimulatedOutcome =
+  | { ok: true; reference: string; amount: number }
+  | { ok: false; kind: 'decline'; reason: SimulatedDeclineReason }
+  | { ok: false; kind: 'failure'; failure: SimulatedFailure; message: string };
+
+type SimulatedPaymentState = 'authorized' | 'captured' | 'voided';
+
+interface SimulatedPayment {
+  reference: string;
+  source: string;
+  amount: number;
+  currency: string;
+  capturedAmount: number;
+  refundedAmount: number;
+  state: SimulatedPaymentState;
+}
+
+// Test source tokens understood by every simulator. `tok_<name>_unavailable` only fails on the named provider.
+export const TEST_TOKENS = {
+  decline: 'tok_decline',
+  insufficientFunds: 'tok_insufficient_funds',
+  timeout: 'tok_timeout',
+  unavailable: 'tok_provider_error',
+  rateLimited: 'tok_rate_limited'
+};
+
+// Test card numbers, each behaving like one of the test tokens. Any other valid card is approved
+export const TEST_CARDS: Record<string, string> = {
+  '4000000000000002': TEST_TOKENS.decline,
+  '4000000000009995': TEST_TOKENS.insufficientFunds,
+  '4000000000000119': TEST_TOKENS.timeout,
+  '4000000000000127': TEST_TOKENS.unavailable,
+  '4000000000000135': TEST_TOKENS.rateLimited,
+  '4000000000000143': 'tok_stripe_unavailable',
+  '4000000000000150': 'tok_paypal_unavailable',
+  '4000000000000168': 'tok_adyen_unavailable',
+  '4000000000000176': 'tok_braintree_unavailable'
+};
+
+/**
+ * In-process stand-in for a remote payment provider. Keeps its own ledger of
+ * payments so capture, refund and void behave like the real thing.
+ */
+export class ProviderSimulator {
+  private payments = new Map<string, SimulatedPayment>();
+
+  constructor(
+    readonly name: string,
+    private referencePrefix: string
+  ) {}
+
+  authorize(source: string, amount: number, currency: string): SimulatedOutcome {
+    const failure = this.failureForSource(source);
+    if (failure) {
+      return failure;
+    }
+
+    if (source === TEST_TOKENS.decline) {
+      return { ok: false, kind: 'decline', reason: 'generic' };
+    }
+
+    if (source === TEST_TOKENS.insufficientFunds) {
+      return { ok: false, kind: 'decline', reason: 'insufficient_funds' };
+    }
+
+    const reference = `${this.referencePrefix}${uuidv4().replace(/-/g, '').slice(0, 24)}`;
+    this.payments.set(reference, {
+      reference,
+      source,
+      amount,
+      currency,
+      capturedAmount: 0,
+      refundedAmount: 0,
+      state: 'authorized'
+    });
+
+    return { ok: true, reference, amount };
+  }
+
+  capture(reference: string, amount?: number): SimulatedOutcome {
+    const payment = this.payments.get(reference);
+    if (!payment) {
+      return this.notFound(reference);
+    }
+
+    const failure = this.failureForSource(payment.source);
+    if (failure) {
+      return failure;
+    }
+
+    const captureAmount = amount ?? payment.amount;
+    if (payment.state !== 'authorized' || captureAmount > payment.amount) {
+      return this.invalidState(`Cannot capture ${captureAmount} on ${reference}`);
+    }
+
+    payment.capturedAmount = captureAmount;
+    payment.state = 'captured';
+    return { ok: true, reference, amount: captureAmount };
+  }
+
+  refund(reference: string, amount: number): SimulatedOutcome {
+    const payment = this.payments.get(reference);
+    if (!payment) {
+      return this.notFound(reference);
+    }
+
+    const failure = this.failureForSource(payment.source);
+    if (failure) {
+      return failure;
+    }
+
+    if (payment.state !== 'captured' || payment.refundedAmount + amount > payment.capturedAmount) {
+      return this.invalidState(`Cannot refund ${amount} on ${reference}`);
+    }
+
+    payment.refundedAmount += amount;
+    return { ok: true, reference: `${this.referencePrefix}re_${uuidv4().slice(0, 8)}`, amount };
+  }
+
+  void(reference: string): SimulatedOutcome {
+    const payment = this.payments.get(reference);
+    if (!payment) {
+      return this.notFound(reference);
+    }
+
+    if (payment.state !== 'authorized') {
+      return this.invalidState(`Cannot void ${reference} in state ${payment.state}`);
+    }
+
+    payment.state = 'voided';
+    return { ok: true, reference, amount: payment.amount };
+  }
+
+  private failureForSource(source: string): SimulatedOutcome | null {
+    if (source === TEST_TOKENS.timeout) {
+      return { ok: false, kind: 'failure', failure: 'timeout', message: `${this.name} did not respond in time` };
+    }
+
+    if (source === TEST_TOKENS.unavailable || source === `tok_${this.name}_unavailable`) {
+      return { ok: false, kind: 'failure', failure: 'unavailable', message: `${this.name} returned 503` };
+    }
+
+    if (source === TEST_TOKENS.rateLimited) {
+      return { ok: false, kind: 'failure', failure: 'rate_limited', message: `${this.name} returned 429` };
+    }
+
+    return null;
+  }
+
+  private notFound(reference: string): SimulatedOutcome {
+    return { ok: false, kind: 'failure', failure: 'not_found', message: `Unknown payment ${reference}` };
+  }
+
+  private invalidState(message: string): SimulatedOutcome {
+    return { ok: false, kind: 'failure', failure: 'invalid_state', message };
+  }
+}
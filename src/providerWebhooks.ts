@@ -0,0 +1,297 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import Joi from 'joi';
+import { IncomingHttpHeaders } from 'http';
+import { PaymentProvider, ProviderEvent, ProviderEventKind } from './types';
+import { GatewayConfig } from './config';
+import { GatewayError } from './errors';
+import { toMinorUnits } from './currencies';
+
+/**
+ * Verifies and translates one provider's webhooks. `verify` always sees the
+ * raw request body: re-serialized JSON would not match the signature.
+ */
+export interface ProviderWebhookHandler {
+  readonly provider: PaymentProvider;
+  verify(rawBody: Buffer, headers: IncomingHttpHeaders, now?: number): boolean;
+  // Throws a 400 GatewayError for malformed payloads and event types the gateway does not handle
+  parse(rawBody: Buffer): ProviderEvent;
+}
+
+export const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const header = (headers: IncomingHttpHeaders, name: string): string | undefined => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const safeEqual = (a: string, b: string): boolean =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const invalidEvent = (message: string) => new GatewayError(400, 'invalid_event', message);
+
+const unsupportedEvent = (type: string) =>
+  new GatewayError(400, 'unsupported_event_type', `Event type ${type} is not handled`);
+
+const parseJson = (rawBody: Buffer): unknown => {
+  try {
+    return JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    throw invalidEvent('Body is not valid JSON');
+  }
+};
+
+const validate = <T>(schema: Joi.Schema, data: unknown): T => {
+  const { error, value } = schema.validate(data, { allowUnknown: true });
+  if (error) {
+    throw invalidEvent(error.details.map(d => d.message).join('; '));
+  }
+  return value as T;
+};
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: Record<string, unknown> };
+}
+
+const stripeEventSchema = Joi.object({
+  id: Joi.string().required(),
+  type: Joi.string().required(),
+  created: Joi.number().integer().required(),
+  data: Joi.object({ object: Joi.object().required() }).required()
+});
+
+const stripeDisputeSchema = Joi.object({
+  id: Joi.string().required(),
+  charge: Joi.string().required(),
+  amount: Joi.number().integer().min(0).required(),
+  reason: Joi.string(),
+  status: Joi.string().required()
+});
+
+const stripeChargeSchema = Joi.object({
+  id: Joi.string().required(),
+  failure_code: Joi.string().allow(null)
+});
+
+/**
+ * Stripe signs `${t}.${body}` with HMAC-SHA256 and sends it as
+ * `Stripe-Signature: t=<unix seconds>,v1=<hex>` (more than one `v1` while a
+ * secret is being rolled).
+ */
+export class StripeWebhookHandler implements ProviderWebhookHandler {
+  readonly provider = 'stripe';
+
+  constructor(
+    private secret: string,
+    private toleranceSeconds = STRIPE_SIGNATURE_TOLERANCE_SECONDS
+  ) {}
+
+  verify(rawBody: Buffer, headers: IncomingHttpHeaders, now = Date.now()): boolean {
+    const parts = (header(headers, 'stripe-signature') ?? '').split(',').map(part => part.split('='));
+    const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+
+    if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > this.toleranceSeconds) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.secret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest('hex');
+    return signatures.some(signature => safeEqual(signature, expected));
+  }
+
+  parse(rawBody: Buffer): ProviderEvent {
+    const event = validate<StripeEvent>(stripeEventSchema, parseJson(rawBody));
+    const base = { provider: this.provider, id: event.id, type: event.type, occurredAt: new Date(event.created * 1000) };
+
+    switch (event.type) {
+      case 'charge.dispute.created':
+      case 'charge.dispute.closed': {
+        const dispute = validate<{ id: string; charge: string; amount: number; reason?: string; status: string }>(
+          stripeDisputeSchema,
+          event.data.object
+        );
+        const kind: ProviderEventKind =
+          event.type === 'charge.dispute.created' ? 'dispute_opened' : dispute.status === 'lost' ? 'dispute_lost' : 'dispute_won';
+        return {
+          ...base,
+          kind,
+          reference: dispute.charge,
+          amount: dispute.amount,
+          disputeId: dispute.id,
+          ...(dispute.reason && { reason: dispute.reason })
+        };
+      }
+      case 'charge.failed': {
+        const charge = validate<{ id: string; failure_code?: string | null }>(stripeChargeSchema, event.data.object);
+        return { ...base, kind: 'late_decline', reference: charge.id, declineCode: charge.failure_code ?? 'card_declined' };
+      }
+      default:
+        throw unsupportedEvent(event.type);
+    }
+  }
+}
+
+interface PayPalEvent {
+  id: string;
+  event_type: string;
+  create_time: Date;
+  resource: Record<string, unknown>;
+}
+
+const paypalEventSchema = Joi.object({
+  id: Joi.string().required(),
+  event_type: Joi.string().required(),
+  create_time: Joi.date().iso().required(),
+  resource: Joi.object().required()
+});
+
+const paypalMoneySchema = Joi.object({ value: Joi.string().pattern(/^\d+(\.\d+)?$/).required(), currency_code: Joi.string().required() });
+
+const paypalCaptureSchema = Joi.object({
+  id: Joi.string().required(),
+  amount: paypalMoneySchema,
+  status_details: Joi.object({ reason: Joi.string() })
+});
+
+const paypalDisputeSchema = Joi.object({
+  dispute_id: Joi.string().required(),
+  reason: Joi.string(),
+  dispute_amount: paypalMoneySchema,
+  disputed_transactions: Joi.array()
+    .items(Joi.object({ seller_transaction_id: Joi.string().required() }))
+    .min(1)
+    .required(),
+  dispute_outcome: Joi.object({ outcome_code: Joi.string().required() })
+});
+
+interface PayPalMoney {
+  value: string;
+  currency_code: string;
+}
+
+// PayPal sends decimal strings in major units
+const paypalAmount = (money?: PayPalMoney): number | undefined => {
+  if (!money) {
+    return undefined;
+  }
+  try {
+    return toMinorUnits(Number(money.value), money.currency_code);
+  } catch {
+    throw invalidEvent(`Unsupported currency ${money.currency_code}`);
+  }
+};
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// `zlib.crc32` only arrived in Node 20.15, and the image runs Node 18
+export const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * PayPal signs `${transmissionId}|${transmissionTime}|${webhookId}|${crc32(body)}`
+ * with SHA256withRSA. The certificate comes from configuration rather than the
+ * `PAYPAL-CERT-URL` header, so a forged request cannot point us at its own key.
+ */
+export class PayPalWebhookHandler implements ProviderWebhookHandler {
+  readonly provider = 'paypal';
+
+  constructor(
+    private webhookId: string,
+    private certificate: string
+  ) {}
+
+  verify(rawBody: Buffer, headers: IncomingHttpHeaders): boolean {
+    const transmissionId = header(headers, 'paypal-transmission-id');
+    const transmissionTime = header(headers, 'paypal-transmission-time');
+    const signature = header(headers, 'paypal-transmission-sig');
+    const algorithm = header(headers, 'paypal-auth-algo');
+
+    if (!transmissionId || !transmissionTime || !signature || algorithm !== 'SHA256withRSA') {
+      return false;
+    }
+
+    const message = `${transmissionId}|${transmissionTime}|${this.webhookId}|${crc32(rawBody)}`;
+    try {
+      return crypto.verify('sha256', Buffer.from(message), this.certificate, Buffer.from(signature, 'base64'));
+    } catch {
+      return false;
+    }
+  }
+
+  parse(rawBody: Buffer): ProviderEvent {
+    const event = validate<PayPalEvent>(paypalEventSchema, parseJson(rawBody));
+    const base = { provider: this.provider, id: event.id, type: event.event_type, occurredAt: event.create_time };
+
+    switch (event.event_type) {
+      case 'PAYMENT.CAPTURE.COMPLETED':
+      case 'PAYMENT.CAPTURE.DENIED': {
+        const capture = validate<{ id: string; amount?: PayPalMoney; status_details?: { reason?: string } }>(
+          paypalCaptureSchema,
+          event.resource
+        );
+        if (event.event_type === 'PAYMENT.CAPTURE.COMPLETED') {
+          return { ...base, kind: 'settled', reference: capture.id, amount: paypalAmount(capture.amount) };
+        }
+        return { ...base, kind: 'late_decline', reference: capture.id, declineCode: capture.status_details?.reason ?? 'DENIED' };
+      }
+      case 'CUSTOMER.DISPUTE.CREATED':
+      case 'CUSTOMER.DISPUTE.RESOLVED': {
+        const dispute = validate<{
+          dispute_id: string;
+          reason?: string;
+          dispute_amount?: PayPalMoney;
+          disputed_transactions: { seller_transaction_id: string }[];
+          dispute_outcome?: { outcome_code: string };
+        }>(paypalDisputeSchema, event.resource);
+        const kind: ProviderEventKind =
+          event.event_type === 'CUSTOMER.DISPUTE.CREATED'
+            ? 'dispute_opened'
+            : dispute.dispute_outcome?.outcome_code === 'RESOLVED_BUYER_FAVOUR'
+              ? 'dispute_lost'
+              : 'dispute_won';
+        return {
+          ...base,
+          kind,
+          reference: dispute.disputed_transactions[0].seller_transaction_id,
+          amount: paypalAmount(dispute.dispute_amount),
+          disputeId: dispute.dispute_id,
+          ...(dispute.reason && { reason: dispute.reason })
+        };
+      }
+      default:
+        throw unsupportedEvent(event.event_type);
+    }
+  }
+}
+
+// Only providers with verification settings get a handler; the others' routes answer 404
+export const createProviderWebhookHandlers = (config: GatewayConfig): ProviderWebhookHandler[] => {
+  const { stripeSecret, paypalWebhookId, paypalCertPath } = config.providerWebhooks;
+  const handlers: ProviderWebhookHandler[] = [];
+
+  if (stripeSecret) {
+    handlers.push(new StripeWebhookHandler(stripeSecret));
+  }
+  if (paypalWebhookId && paypalCertPath) {
+    handlers.push(new PayPalWebhookHandler(paypalWebhookId, fs.readFileSync(paypalCertPath, 'utf8')));
+  }
+  return handlers;
+};
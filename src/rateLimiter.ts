@@ -0,0 +1,88 @@
+// `limit` requests per `windowMs`, in bursts of up to `limit`. A limit of 0 turns the bucket off
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Until the bucket is full again
+  resetMs: number;
+  // Until the next request would be allowed; 0 when this one was
+  retryAfterMs: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Where token buckets live. `take` must refill and take atomically: a store
+ * shared between gateway instances, such as Redis, would run `takeToken` as a
+ * script on the server rather than read and write the state separately.
+ */
+export interface RateLimitStore {
+  take(key: string, limit: RateLimit, now?: number): Promise<RateLimitResult>;
+}
+
+/**
+ * Refills the bucket for the time since it was last used and takes one token
+ * if there is one. Buckets start full.
+ */
+export const takeToken = (
+  state: BucketState | undefined,
+  { limit, windowMs }: RateLimit,
+  now: number
+): { state: BucketState; result: RateLimitResult } => {
+  const msPerToken = windowMs / limit;
+  const refilled = state ? Math.min(limit, state.tokens + (now - state.updatedAt) / msPerToken) : limit;
+  const allowed = refilled >= 1;
+  const tokens = allowed ? refilled - 1 : refilled;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((limit - tokens) * msPerToken),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) * msPerToken)
+    }
+  };
+};
+
+interface StoredBucket extends BucketState {
+  // When the bucket will be full again, after which forgetting it changes nothing
+  fullAt: number;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, StoredBucket>();
+  private nextSweepAt = 0;
+
+  constructor(private sweepIntervalMs = 60 * 1000) {}
+
+  async take(key: string, limit: RateLimit, now = Date.now()): Promise<RateLimitResult> {
+    this.sweep(now);
+
+    const { state, result } = takeToken(this.buckets.get(key), limit, now);
+    this.buckets.set(key, { ...state, fullAt: now + result.resetMs });
+    return result;
+  }
+
+  // One bucket per client IP adds up; full ones are dropped so idle clients cost nothing
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+    this.nextSweepAt = now + this.sweepIntervalMs;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { ChargeRequest, ChargeResponse, ProviderAttempt, Refund, RiskFactor, TimelineEvent, Transaction } from './types';
+import { Principal } from './merchants';
+import { formatAmount } from './currencies';
+
+/**
+ * What the gateway shows of a customer outside its own storage. Emails and
+ * sources are kept in full where charges are scored and stored, and masked
+ * everywhere else: in responses to anything but the admin key and in webhook
+ * payloads. Log lines name charges by transaction id and go through these
+ * helpers for anything more. Prompts get no customer details at all, only
+ * the features below. Allow/deny list entries are the gateway's own records,
+ * so outside the admin key a factor from one shows only its code.
+ *
+ * Merchants see what happened to their charge: statuses, providers, codes and
+ * the gateway's own timeline notes. Whatever people typed or another system
+ * said is left out, being reviewer names and notes, provider error messages
+ * and routing rule descriptions, as are the shadow and routing decisions.
+ */
+
+// Only the admin key sees customer details in full
+export const seesPii = (caller: Principal): boolean => caller.role === 'admin';
+
+// `jane@example.com` becomes `j***@example.com`
+export const maskEmail = (email: string): string => {
+  const at = email.lastIndexOf('@');
+  return at > 0 ? `${email[0]}***${email.slice(at)}` : '***';
+};
+
+// Keeps the type prefix and the last four characters: `tok_****1b2d`
+export const maskSource = (source: string): string => {
+  const prefix = /^[a-z]+_/i.exec(source)?.[0] ?? '';
+  const rest = source.slice(prefix.length);
+  return rest.length > 8 ? `${prefix}****${rest.slice(-4)}` : `${prefix}****`;
+};
+
+export const redactRequest = (request: ChargeRequest): ChargeRequest => ({
+  ...request,
+  email: maskEmail(request.email),
+  source: maskSource(request.source)
+});
+
+// List entry reasons are free text and may name the customer, and entry ids point into admin-only lists
+export const redactFactors = (factors: RiskFactor[]): RiskFactor[] =>
+  factors.map(({ listEntryId, description, ...factor }) => (listEntryId ? factor : { ...factor, description }));
+
+export const redactResponse = (response: ChargeResponse): ChargeResponse => ({
+  ...response,
+  riskFactors: redactFactors(response.riskFactors)
+});
+
+// The response already names the provider; how the gateway chose it and what a candidate would have done are its own
+export type RedactedTransaction<T extends Transaction = Transaction> = Omit<T, 'shadow' | 'routing'>;
+
+const redactAttempt = ({ error: _error, ...attempt }: ProviderAttempt): ProviderAttempt => attempt;
+
+const redactTimelineEvent = ({ review: _review, ...event }: TimelineEvent): TimelineEvent => event;
+
+export const redactTransaction = <T extends Transaction>({
+  shadow: _shadow,
+  routing: _routing,
+  ...transaction
+}: T): RedactedTransaction<T> => ({
+  ...transaction,
+  request: redactRequest(transaction.request),
+  response: redactResponse(transaction.response),
+  attempts: transaction.attempts.map(redactAttempt),
+  timeline: transaction.timeline.map(redactTimelineEvent)
+});
+
+// Webhook payloads go to URLs outside the gateway, so they always carry the redacted form
+export const redactEventObject = (object: Transaction | Refund): RedactedTransaction | Refund =>
+  'request' in object ? redactTransaction(object) : object;
+
+// A transaction as the caller may see it
+export const presentTransaction = <T extends Transaction>(caller: Principal, transaction: T): T | RedactedTransaction<T> =>
+  seesPii(caller) ? transaction : redactTransaction(transaction);
+
+// What a charge may be described by to a model: no email, no source
+export interface ChargeFeatures {
+  amount: string;
+  currency: string;
+  cardBrand?: string;
+}
+
+export const chargeFeatures = (request: ChargeRequest): ChargeFeatures => ({
+  amount: formatAmount(request.amount, request.currency),
+  currency: request.currency,
+  ...(request.card && { cardBrand: request.card.brand })
+});
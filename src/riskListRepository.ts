@@ -0,0 +1,69 @@
+import { RiskListAuditEvent, RiskListEntry, RiskListType } from './types';
+import { GatewayConfig } from './config';
+import { SqliteRiskListRepository } from './sqliteRiskListRepository';
+
+export interface RiskListKey {
+  type: RiskListType;
+  value: string;
+}
+
+/**
+ * Storage for allow/deny list entries and the audit trail of changes to them.
+ * Expiry is left to callers, so expired entries are still returned here.
+ */
+export interface RiskListRepository {
+  saveEntry(entry: RiskListEntry): Promise<void>;
+  findEntry(id: string): Promise<RiskListEntry | undefined>;
+  deleteEntry(id: string): Promise<void>;
+  // Oldest first
+  listEntries(): Promise<RiskListEntry[]>;
+  findByKeys(keys: RiskListKey[]): Promise<RiskListEntry[]>;
+  appendAudit(event: RiskListAuditEvent): Promise<void>;
+  // Newest first
+  listAudit(): Promise<RiskListAuditEvent[]>;
+}
+
+export class InMemoryRiskListRepository implements RiskListRepository {
+  private entries = new Map<string, RiskListEntry>();
+  private audit: RiskListAuditEvent[] = [];
+
+  async saveEntry(entry: RiskListEntry): Promise<void> {
+    this.entries.set(entry.id, structuredClone(entry));
+  }
+
+  async findEntry(id: string): Promise<RiskListEntry | undefined> {
+    const entry = this.entries.get(id);
+    return entry && structuredClone(entry);
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  async listEntries(): Promise<RiskListEntry[]> {
+    return [...this.entries.values()]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(entry => structuredClone(entry));
+  }
+
+  async findByKeys(keys: RiskListKey[]): Promise<RiskListEntry[]> {
+    return [...this.entries.values()]
+      .filter(entry => keys.some(key => key.type === entry.type && key.value === entry.value))
+      .map(entry => structuredClone(entry));
+  }
+
+  async appendAudit(event: RiskListAuditEvent): Promise<void> {
+    this.audit.push(structuredClone(event));
+  }
+
+  async listAudit(): Promise<RiskListAuditEvent[]> {
+    return [...this.audit].reverse().map(event => structuredClone(event));
+  }
+}
+
+export const createRiskListRepository = (config: GatewayConfig): RiskListRepository => {
+  if (config.storage.driver === 'sqlite') {
+    return new SqliteRiskListRepository(config.storage.sqlitePath);
+  }
+  return new InMemoryRiskListRepository();
+};
@@ -0,0 +1,92 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ChargeRequest,
+  RiskListAuditEvent,
+  RiskListEntry,
+  RiskListEntryInput,
+  RiskListName,
+  RiskListType
+} from './types';
+import { RiskListKey, RiskListRepository } from './riskListRepository';
+import { GatewayError } from './errors';
+
+export interface RiskListFilter {
+  list?: RiskListName;
+  type?: RiskListType;
+  includeExpired?: boolean;
+}
+
+const isActive = (entry: RiskListEntry, now: Date): boolean => !entry.expiresAt || entry.expiresAt > now;
+
+// Every key a charge can be listed under; a domain entry also covers its subdomains
+export const riskListKeys = (request: ChargeRequest): RiskListKey[] => {
+  const email = request.email.toLowerCase();
+  const labels = email.slice(email.lastIndexOf('@') + 1).split('.');
+  const domains = labels.slice(0, -1).map((_label, i) => labels.slice(i).join('.'));
+
+  return [
+    { type: 'email', value: email },
+    ...domains.map(value => ({ type: 'domain' as const, value })),
+    { type: 'source', value: request.source }
+  ];
+};
+
+/**
+ * Allow and deny lists the fraud team edits at runtime. Every change is written
+ * to the audit log with the actor who made it.
+ */
+export class RiskLists {
+  constructor(private repository: RiskListRepository) {}
+
+  // Deny entries win over allow entries so an old allowlisting cannot mask an incident
+  async match(request: ChargeRequest, now = new Date()): Promise<RiskListEntry | undefined> {
+    const entries = (await this.repository.findByKeys(riskListKeys(request))).filter(entry => isActive(entry, now));
+    return entries.find(entry => entry.list === 'deny') ?? entries.find(entry => entry.list === 'allow');
+  }
+
+  async list(filter: RiskListFilter = {}, now = new Date()): Promise<RiskListEntry[]> {
+    return (await this.repository.listEntries()).filter(
+      entry =>
+        (!filter.list || entry.list === filter.list) &&
+        (!filter.type || entry.type === filter.type) &&
+        (filter.includeExpired || isActive(entry, now))
+    );
+  }
+
+  async add(input: RiskListEntryInput, actor: string, now = new Date()): Promise<RiskListEntry> {
+    const existing = (await this.repository.findByKeys([input])).find(
+      entry => entry.list === input.list && isActive(entry, now)
+    );
+    if (existing) {
+      throw new GatewayError(
+        409,
+        'list_entry_exists',
+        `${input.type} ${input.value} is already on the ${input.list} list (entry ${existing.id})`
+      );
+    }
+
+    const entry: RiskListEntry = { id: uuidv4(), ...input, createdAt: now, createdBy: actor };
+    await this.repository.saveEntry(entry);
+    await this.audit('added', entry, actor, now);
+    return entry;
+  }
+
+  async remove(id: string, actor: string, now = new Date()): Promise<RiskListEntry> {
+    const entry = await this.repository.findEntry(id);
+    if (!entry) {
+      throw new GatewayError(404, 'list_entry_not_found', 'List entry not found');
+    }
+
+    await this.repository.deleteEntry(id);
+    await this.audit('removed', entry, actor, now);
+    return entry;
+  }
+
+  auditLog(): Promise<RiskListAuditEvent[]> {
+    return this.repository.listAudit();
+  }
+
+  private audit(action: RiskListAuditEvent['action'], entry: RiskListEntry, actor: string, at: Date): Promise<void> {
+    return this.repository.appendAudit({ id: uuidv4(), at, actor, action, entry });
+  }
+}
@@ -0,0 +1,220 @@
+import Joi from 'joi';
+import fs from 'fs';
+import { RiskAssessment, RiskFactor } from './types';
+import {
+  FraudRuleSet,
+  NUMERIC_FIELDS,
+  RiskContext,
+  RuleCondition,
+  RuleField,
+  conditionSchema,
+  evaluateCondition
+} from './fraudRules';
+
+/**
+ * Turns the risk context of a charge into a 0–1 score and the factors behind it.
+ * Block and review thresholds are policy and stay in the rule set.
+ */
+export interface RiskModel {
+  readonly version: string;
+  score(context: RiskContext): RiskAssessment;
+}
+
+// The hand-tuned heuristics: matching rules add their weight
+export class RuleSetModel implements RiskModel {
+  constructor(private ruleSet: FraudRuleSet) {}
+
+  get version(): string {
+    return this.ruleSet.version;
+  }
+
+  score(context: RiskContext): RiskAssessment {
+    const factors: RiskFactor[] = [];
+    let score = 0;
+
+    for (const rule of this.ruleSet.rules) {
+      if (rule.enabled && evaluateCondition(rule.when, context)) {
+        score += rule.weight;
+        factors.push({
+          code: rule.reasonCode ?? rule.id,
+          ruleId: rule.id,
+          ...(rule.description && { description: rule.description }),
+          contribution: rule.weight
+        });
+      }
+    }
+
+    return { score: Math.min(Math.max(score, 0), 1.0), factors };
+  }
+}
+
+// A model input: a numeric context field as-is, or 1/0 for whether a condition holds
+export type ModelFeature = { name: string; field: RuleField } | { name: string; when: RuleCondition };
+
+export type TreeNode = { leaf: number } | { feature: string; threshold: number; left: TreeNode; right: TreeNode };
+
+export interface LogisticRegressionSpec {
+  type: 'logistic_regression';
+  version: string;
+  features: ModelFeature[];
+  intercept: number;
+  weights: Record<string, number>;
+}
+
+export interface GradientBoostedTreesSpec {
+  type: 'gradient_boosted_trees';
+  version: string;
+  features: ModelFeature[];
+  baseScore: number;
+  trees: TreeNode[];
+}
+
+export type RiskModelSpec = LogisticRegressionSpec | GradientBoostedTreesSpec;
+
+export class RiskModelError extends Error {
+  constructor(
+    readonly source: string,
+    readonly details: string[]
+  ) {
+    super(`Invalid risk model in ${source}: ${details.join('; ')}`);
+    this.name = 'RiskModelError';
+  }
+}
+
+const sigmoid = (z: number): number => 1 / (1 + Math.exp(-z));
+
+const extractFeatures = (features: ModelFeature[], context: RiskContext): Record<string, number> =>
+  Object.fromEntries(
+    features.map(feature => [
+      feature.name,
+      'field' in feature ? Number(context[feature.field]) : evaluateCondition(feature.when, context) ? 1 : 0
+    ])
+  );
+
+// Factors are the features that pushed the score up, largest first; contributions are in log-odds
+const positiveFactors = (contributions: Map<string, number>): RiskFactor[] =>
+  [...contributions]
+    .filter(([, contribution]) => contribution > 0)
+    .sort(([, a], [, b]) => b - a)
+    .map(([code, contribution]) => ({ code, contribution }));
+
+export class LogisticRegressionModel implements RiskModel {
+  readonly version: string;
+
+  constructor(private spec: LogisticRegressionSpec) {
+    this.version = spec.version;
+  }
+
+  score(context: RiskContext): RiskAssessment {
+    const values = extractFeatures(this.spec.features, context);
+    const contributions = new Map<string, number>();
+    let z = this.spec.intercept;
+
+    for (const [name, weight] of Object.entries(this.spec.weights)) {
+      const contribution = weight * values[name];
+      contributions.set(name, contribution);
+      z += contribution;
+    }
+
+    return { score: sigmoid(z), factors: positiveFactors(contributions) };
+  }
+}
+
+export class GradientBoostedTreesModel implements RiskModel {
+  readonly version: string;
+
+  constructor(private spec: GradientBoostedTreesSpec) {
+    this.version = spec.version;
+  }
+
+  // Each tree's leaf value is credited to the last feature it split on
+  score(context: RiskContext): RiskAssessment {
+    const values = extractFeatures(this.spec.features, context);
+    const contributions = new Map<string, number>();
+    let z = this.spec.baseScore;
+
+    for (const tree of this.spec.trees) {
+      let node = tree;
+      let lastFeature: string | undefined;
+
+      while (!('leaf' in node)) {
+        lastFeature = node.feature;
+        node = values[node.feature] <= node.threshold ? node.left : node.right;
+      }
+
+      z += node.leaf;
+      if (lastFeature) {
+        contributions.set(lastFeature, (contributions.get(lastFeature) ?? 0) + node.leaf);
+      }
+    }
+
+    return { score: sigmoid(z), factors: positiveFactors(contributions) };
+  }
+}
+
+const FEATURE_NAME = Joi.string().pattern(/^[a-z0-9_]+$/).max(100);
+
+const featureSchema = Joi.object({
+  name: FEATURE_NAME.required(),
+  field: Joi.string().valid(...NUMERIC_FIELDS),
+  when: conditionSchema
+}).xor('field', 'when');
+
+const treeNodeSchema = Joi.object({
+  leaf: Joi.number(),
+  feature: FEATURE_NAME,
+  threshold: Joi.number(),
+  left: Joi.link('#treeNode'),
+  right: Joi.link('#treeNode')
+})
+  .xor('leaf', 'feature')
+  .with('feature', ['threshold', 'left', 'right'])
+  .id('treeNode');
+
+export const riskModelSchema = Joi.object({
+  type: Joi.string().valid('logistic_regression', 'gradient_boosted_trees').required(),
+  version: Joi.string().max(100).required(),
+  features: Joi.array().items(featureSchema).unique('name').min(1).required(),
+  intercept: Joi.when('type', { is: 'logistic_regression', then: Joi.number().required(), otherwise: Joi.forbidden() }),
+  weights: Joi.when('type', {
+    is: 'logistic_regression',
+    then: Joi.object().pattern(FEATURE_NAME, Joi.number()).min(1).required(),
+    otherwise: Joi.forbidden()
+  }),
+  baseScore: Joi.when('type', { is: 'gradient_boosted_trees', then: Joi.number().default(0), otherwise: Joi.forbidden() }),
+  trees: Joi.when('type', {
+    is: 'gradient_boosted_trees',
+    then: Joi.array().items(treeNodeSchema).min(1).required(),
+    otherwise: Joi.forbidden()
+  })
+});
+
+const treeFeatures = (node: TreeNode): string[] =>
+  'leaf' in node ? [] : [node.feature, ...treeFeatures(node.left), ...treeFeatures(node.right)];
+
+export const parseRiskModel = (data: unknown, source: string): RiskModel => {
+  const { error, value } = riskModelSchema.validate(data, { abortEarly: false });
+  if (error) {
+    throw new RiskModelError(source, error.details.map(d => d.message));
+  }
+
+  const spec = value as RiskModelSpec;
+  const declared = new Set(spec.features.map(feature => feature.name));
+  const used = spec.type === 'logistic_regression' ? Object.keys(spec.weights) : spec.trees.flatMap(treeFeatures);
+  const unknown = [...new Set(used)].filter(name => !declared.has(name));
+  if (unknown.length) {
+    throw new RiskModelError(source, unknown.map(name => `"${name}" is not a declared feature`));
+  }
+
+  return spec.type === 'logistic_regression' ? new LogisticRegressionModel(spec) : new GradientBoostedTreesModel(spec);
+};
+
+export const loadRiskModel = (path: string): RiskModel => {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new RiskModelError(path, [(err as Error).message]);
+  }
+  return parseRiskModel(data, path);
+};
@@ -0,0 +1,160 @@
+import Joi from 'joi';
+import fs from 'fs';
+import { ChargeRequest, PaymentProvider } from './types';
+import { RuleCondition, buildConditionSchema } from './fraudRules';
+import defaultRules from './defaultRoutingRules.json';
+
+export const ROUTING_FIELDS = [
+  'amount',
+  'currency',
+  'source',
+  'cardBrand',
+  'bin',
+  'email',
+  'emailDomain',
+  'merchantId',
+  'hour',
+  'dayOfWeek',
+  'riskScore'
+] as const;
+
+export type RoutingField = (typeof ROUTING_FIELDS)[number];
+
+export interface ProviderFee {
+  fixed: number;
+  percent: number;
+}
+
+export interface SplitTarget {
+  provider: PaymentProvider;
+  weight: number;
+}
+
+/**
+ * A routing rule picks the preferred provider in exactly one way: a fixed
+ * `provider`, a weighted `split`, or the `cheapest` of a list by the fee table.
+ */
+export interface RoutingRule {
+  id: string;
+  description?: string;
+  enabled: boolean;
+  when?: RuleCondition<RoutingField>;
+  provider?: PaymentProvider;
+  split?: SplitTarget[];
+  cheapest?: PaymentProvider[];
+}
+
+export interface RoutingRuleSet {
+  version: string;
+  defaultProvider: PaymentProvider;
+  rules: RoutingRule[];
+  fees: Partial<Record<PaymentProvider, ProviderFee>>;
+}
+
+// The values a routing condition can look at; time fields are in UTC
+export type RoutingContext = Record<RoutingField, string | number>;
+
+export class RoutingRulesError extends Error {
+  constructor(
+    readonly source: string,
+    readonly details: string[]
+  ) {
+    super(`Invalid routing rules in ${source}: ${details.join('; ')}`);
+    this.name = 'RoutingRulesError';
+  }
+}
+
+const providerSchema = Joi.string().pattern(/^[a-z0-9_]+$/).max(50);
+
+export const routingRuleSetSchema = Joi.object({
+  version: Joi.string().max(100).required(),
+  defaultProvider: providerSchema.required(),
+  rules: Joi.array()
+    .items(
+      Joi.object({
+        id: Joi.string().pattern(/^[a-z0-9_]+$/).max(100).required(),
+        description: Joi.string().max(500),
+        enabled: Joi.boolean().default(true),
+        when: buildConditionSchema(ROUTING_FIELDS),
+        provider: providerSchema,
+        split: Joi.array()
+          .items(Joi.object({ provider: providerSchema.required(), weight: Joi.number().positive().required() }))
+          .unique('provider')
+          .min(2),
+        cheapest: Joi.array().items(providerSchema).unique().min(1)
+      }).xor('provider', 'split', 'cheapest')
+    )
+    .unique('id')
+    .required(),
+  // Fees in minor units: `fixed` per charge plus `percent` of the amount
+  fees: Joi.object()
+    .pattern(providerSchema, Joi.object({ fixed: Joi.number().min(0).required(), percent: Joi.number().min(0).max(100).required() }))
+    .default({})
+});
+
+const routedProviders = (ruleSet: RoutingRuleSet): [string, PaymentProvider][] => [
+  ['defaultProvider', ruleSet.defaultProvider],
+  ...ruleSet.rules.flatMap(rule =>
+    [rule.provider, ...(rule.split ?? []).map(target => target.provider), ...(rule.cheapest ?? [])]
+      .filter((provider): provider is PaymentProvider => !!provider)
+      .map((provider): [string, PaymentProvider] => [rule.id, provider])
+  )
+];
+
+// `providers`, when given, is the set of enabled providers the rules may route to
+export const parseRoutingRules = (data: unknown, source: string, providers?: PaymentProvider[]): RoutingRuleSet => {
+  const { error, value } = routingRuleSetSchema.validate(data, { abortEarly: false });
+  if (error) {
+    throw new RoutingRulesError(source, error.details.map(d => d.message));
+  }
+
+  const ruleSet = value as RoutingRuleSet;
+  const unpriced = ruleSet.rules.flatMap(rule =>
+    (rule.cheapest ?? []).filter(provider => !ruleSet.fees[provider]).map(provider => `"${rule.id}" needs a fee for ${provider}`)
+  );
+  if (unpriced.length) {
+    throw new RoutingRulesError(source, unpriced);
+  }
+
+  const unavailable = providers
+    ? routedProviders(ruleSet)
+        .filter(([, provider]) => !providers.includes(provider))
+        .map(([id, provider]) => `"${id}" routes to ${provider}, which is not an enabled provider`)
+    : [];
+  if (unavailable.length) {
+    throw new RoutingRulesError(source, [...new Set(unavailable)]);
+  }
+  return ruleSet;
+};
+
+export const loadRoutingRules = (path: string, providers?: PaymentProvider[]): RoutingRuleSet => {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new RoutingRulesError(path, [(err as Error).message]);
+  }
+  return parseRoutingRules(data, path, providers);
+};
+
+export const DEFAULT_ROUTING_RULES = parseRoutingRules(defaultRules, 'defaultRoutingRules.json');
+
+export const buildRoutingContext = (request: ChargeRequest, riskScore: number, now: Date): RoutingContext => {
+  const email = request.email.toLowerCase();
+  return {
+    amount: request.amount,
+    currency: request.currency,
+    source: request.source,
+    cardBrand: request.card?.brand ?? '',
+    bin: request.card?.bin ?? '',
+    email,
+    emailDomain: email.slice(email.lastIndexOf('@') + 1),
+    merchantId: request.merchantId ?? '',
+    hour: now.getUTCHours(),
+    dayOfWeek: now.getUTCDay(),
+    riskScore
+  };
+};
+
+export const estimateFee = (fee: ProviderFee, amount: number): number =>
+  Math.round(fee.fixed + (amount * fee.percent) / 100);
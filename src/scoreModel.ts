@@ -0,0 +1,94 @@
+import fs from 'fs';
+import { FraudDetector } from './fraudDetection';
+import { DEFAULT_RULE_SET, loadRuleSet } from './fraudRules';
+import { RuleSetModel, loadRiskModel } from './riskModel';
+import { VelocityTracker } from './velocityTracker';
+import { FxConverter, loadFxRates } from './fx';
+import { DEFAULT_THRESHOLDS, evaluateModel, formatReport, parseLabelledCharges, scoreCharges } from './modelEvaluation';
+
+const USAGE = `Usage: score-model <labelled.jsonl> [options]
+
+Options:
+  --model <file>         JSON risk model to evaluate (default: the rule set)
+  --rules <file>         Fraud rule set (default: built-in rules)
+  --fx-rates <file>      FX rate table amounts are normalized with (default: built-in rates)
+  --thresholds <list>    Comma-separated block thresholds (default: ${DEFAULT_THRESHOLDS.join(',')})
+  --window-ms <ms>       Velocity window used while replaying (default: 3600000)
+  --json                 Print the report as JSON`;
+
+interface CliOptions {
+  input: string;
+  modelPath?: string;
+  rulesPath?: string;
+  fxRatesPath?: string;
+  thresholds: number[];
+  windowMs: number;
+  json: boolean;
+}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: Partial<CliOptions> = { thresholds: DEFAULT_THRESHOLDS, windowMs: 60 * 60 * 1000, json: false };
+  const args = [...argv];
+
+  while (args.length) {
+    const arg = args.shift()!;
+    const next = () => {
+      const value = args.shift();
+      if (value === undefined) {
+        throw new Error(`${arg} needs a value`);
+      }
+      return value;
+    };
+
+    if (arg === '--model') options.modelPath = next();
+    else if (arg === '--rules') options.rulesPath = next();
+    else if (arg === '--fx-rates') options.fxRatesPath = next();
+    else if (arg === '--thresholds') options.thresholds = next().split(',').map(Number);
+    else if (arg === '--window-ms') options.windowMs = Number(next());
+    else if (arg === '--json') options.json = true;
+    else if (arg.startsWith('--') || options.input) throw new Error(`Unexpected argument ${arg}`);
+    else options.input = arg;
+  }
+
+  if (!options.input) {
+    throw new Error('Missing labelled input file');
+  }
+  if (options.thresholds!.some(threshold => !(threshold >= 0 && threshold <= 1))) {
+    throw new Error('Thresholds must be numbers between 0 and 1');
+  }
+  if (!(options.windowMs! >= 0)) {
+    throw new Error('--window-ms must be a non-negative number');
+  }
+  return options as CliOptions;
+};
+
+// Returns the process exit code so tests can run it without exiting
+export const main = (argv: string[], out: (line: string) => void = console.log): number => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (err) {
+    out(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    const ruleSet = options.rulesPath ? loadRuleSet(options.rulesPath) : DEFAULT_RULE_SET;
+    const model = options.modelPath ? loadRiskModel(options.modelPath) : new RuleSetModel(ruleSet);
+    const fx = new FxConverter(options.fxRatesPath ? loadFxRates(options.fxRatesPath) : undefined);
+    const detector = new FraudDetector(ruleSet, new VelocityTracker(options.windowMs), undefined, model, fx);
+
+    const charges = parseLabelledCharges(fs.readFileSync(options.input, 'utf8'), options.input);
+    const report = evaluateModel(model.version, scoreCharges(detector, charges), options.thresholds);
+
+    out(options.json ? JSON.stringify(report, null, 2) : formatReport(report));
+    return 0;
+  } catch (err) {
+    out((err as Error).message);
+    return 1;
+  }
+};
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
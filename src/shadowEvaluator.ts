@@ -0,0 +1,86 @@
+import {
+  ChargeRequest,
+  RiskDecision,
+  ShadowDivergence,
+  ShadowEvaluation,
+  ShadowReport,
+  ShadowReportQuery,
+  Transaction
+} from './types';
+import { FraudDetector, RiskThresholds } from './fraudDetection';
+
+/**
+ * Scores charges with a candidate fraud configuration next to the live one.
+ * The candidate reads the live velocity history but never records into it, so
+ * it sees exactly what the live detector saw and cannot change live decisions.
+ */
+export class ShadowEvaluator {
+  constructor(private candidate: FraudDetector) {}
+
+  get version(): string {
+    return this.candidate.getVersion();
+  }
+
+  /**
+   * Resolves to undefined when the candidate fails; a broken candidate must not
+   * fail the charge. `thresholds` are the merchant's, as the live decision used,
+   * so only a difference in scoring shows up as disagreement.
+   */
+  async evaluate(
+    request: ChargeRequest,
+    liveDecision: RiskDecision,
+    thresholds: RiskThresholds = {},
+    now = Date.now()
+  ): Promise<ShadowEvaluation | undefined> {
+    try {
+      const { score, factors } = await this.candidate.assessRisk(request, now);
+      const decision = this.candidate.decide(score, thresholds);
+      return {
+        version: this.version,
+        riskScore: score,
+        riskFactors: factors,
+        decision,
+        liveDecision,
+        agrees: decision === liveDecision
+      };
+    } catch (err) {
+      console.error(`Shadow evaluation with ${this.version} failed:`, err);
+      return undefined;
+    }
+  }
+}
+
+const toDivergence = ({ id, timestamp, request, response, shadow }: Transaction): ShadowDivergence => ({
+  transactionId: id,
+  timestamp,
+  amount: request.amount,
+  currency: request.currency,
+  email: request.email,
+  liveDecision: shadow!.liveDecision,
+  liveRiskScore: response.riskScore,
+  shadowDecision: shadow!.decision,
+  shadowRiskScore: shadow!.riskScore
+});
+
+// Agreement counts over shadow-scored transactions, given newest first
+export const buildShadowReport = (evaluated: Transaction[], query: ShadowReportQuery): ShadowReport => {
+  const divergent = evaluated.filter(transaction => !transaction.shadow!.agrees);
+
+  const pairs = new Map<string, { live: RiskDecision; shadow: RiskDecision; count: number }>();
+  for (const { shadow } of evaluated) {
+    const key = `${shadow!.liveDecision}:${shadow!.decision}`;
+    const pair = pairs.get(key) ?? { live: shadow!.liveDecision, shadow: shadow!.decision, count: 0 };
+    pair.count++;
+    pairs.set(key, pair);
+  }
+
+  return {
+    version: query.version ?? null,
+    evaluated: evaluated.length,
+    agreed: evaluated.length - divergent.length,
+    disagreed: divergent.length,
+    agreementRate: evaluated.length ? (evaluated.length - divergent.length) / evaluated.length : null,
+    breakdown: [...pairs.values()].sort((a, b) => b.count - a.count),
+    divergent: divergent.slice(0, query.limit).map(toDivergence)
+  };
+};
@@ -0,0 +1,95 @@
+import Database from 'better-sqlite3';
+import { ApiKey, Merchant, MerchantSettingsRecord } from './types';
+import { MerchantRepository } from './merchantRepository';
+import { openDatabase, parseRecord } from './database';
+
+interface DataRow {
+  data: string;
+}
+
+// Merchant ids cannot contain "*", so it cannot collide with one
+const DEFAULTS_SCOPE = '*';
+
+export class SqliteMerchantRepository implements MerchantRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openDatabase(filename);
+  }
+
+  async saveMerchant(merchant: Merchant): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO merchants (id, created_at, data) VALUES (@id, @createdAt, @data)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+      )
+      .run({ id: merchant.id, createdAt: merchant.createdAt.toISOString(), data: JSON.stringify(merchant) });
+  }
+
+  async findMerchant(id: string): Promise<Merchant | undefined> {
+    const row = this.db.prepare('SELECT data FROM merchants WHERE id = ?').get(id) as DataRow | undefined;
+    return row && parseRecord<Merchant>(row.data);
+  }
+
+  async listMerchants(): Promise<Merchant[]> {
+    const rows = this.db.prepare('SELECT data FROM merchants ORDER BY created_at, rowid').all() as DataRow[];
+    return rows.map(row => parseRecord<Merchant>(row.data));
+  }
+
+  async saveKey(key: ApiKey): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO api_keys (id, merchant_id, hash, created_at, data)
+         VALUES (@id, @merchantId, @hash, @createdAt, @data)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+      )
+      .run({
+        id: key.id,
+        merchantId: key.merchantId,
+        hash: key.hash,
+        createdAt: key.createdAt.toISOString(),
+        data: JSON.stringify(key)
+      });
+  }
+
+  async findKey(id: string): Promise<ApiKey | undefined> {
+    const row = this.db.prepare('SELECT data FROM api_keys WHERE id = ?').get(id) as DataRow | undefined;
+    return row && parseRecord<ApiKey>(row.data);
+  }
+
+  async findKeyByHash(hash: string): Promise<ApiKey | undefined> {
+    const row = this.db.prepare('SELECT data FROM api_keys WHERE hash = ?').get(hash) as DataRow | undefined;
+    return row && parseRecord<ApiKey>(row.data);
+  }
+
+  async listKeys(merchantId: string): Promise<ApiKey[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM api_keys WHERE merchant_id = ? ORDER BY created_at, rowid')
+      .all(merchantId) as DataRow[];
+    return rows.map(row => parseRecord<ApiKey>(row.data));
+  }
+
+  async saveSettings(record: MerchantSettingsRecord): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO merchant_settings (scope, updated_at, data) VALUES (@scope, @updatedAt, @data)
+         ON CONFLICT (scope) DO UPDATE SET updated_at = excluded.updated_at, data = excluded.data`
+      )
+      .run({
+        scope: record.merchantId ?? DEFAULTS_SCOPE,
+        updatedAt: record.updatedAt?.toISOString() ?? null,
+        data: JSON.stringify(record)
+      });
+  }
+
+  async findSettings(merchantId: string | null): Promise<MerchantSettingsRecord | undefined> {
+    const row = this.db
+      .prepare('SELECT data FROM merchant_settings WHERE scope = ?')
+      .get(merchantId ?? DEFAULTS_SCOPE) as DataRow | undefined;
+    return row && parseRecord<MerchantSettingsRecord>(row.data);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
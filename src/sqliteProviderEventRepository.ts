@@ -0,0 +1,75 @@
+import Database from 'better-sqlite3';
+import { PaymentProvider, ProviderEventQuery, ProviderEventRecord } from './types';
+import { ProviderEventRepository } from './providerEventRepository';
+import { openDatabase, parseRecord } from './database';
+
+interface DataRow {
+  data: string;
+}
+
+export class SqliteProviderEventRepository implements ProviderEventRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openDatabase(filename);
+  }
+
+  async save(record: ProviderEventRecord): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO provider_events (id, provider, event_id, status, received_at, data)
+         VALUES (@id, @provider, @eventId, @status, @receivedAt, @data)
+         ON CONFLICT (id) DO UPDATE SET
+           status = excluded.status,
+           data = excluded.data`
+      )
+      .run({
+        id: record.id,
+        provider: record.event.provider,
+        eventId: record.event.id,
+        status: record.status,
+        receivedAt: record.receivedAt.toISOString(),
+        data: JSON.stringify(record)
+      });
+  }
+
+  async findById(id: string): Promise<ProviderEventRecord | undefined> {
+    const row = this.db.prepare('SELECT data FROM provider_events WHERE id = ?').get(id) as DataRow | undefined;
+    return row && parseRecord<ProviderEventRecord>(row.data);
+  }
+
+  async findByEventId(provider: PaymentProvider, eventId: string): Promise<ProviderEventRecord | undefined> {
+    const row = this.db
+      .prepare('SELECT data FROM provider_events WHERE provider = ? AND event_id = ?')
+      .get(provider, eventId) as DataRow | undefined;
+    return row && parseRecord<ProviderEventRecord>(row.data);
+  }
+
+  async list(query: ProviderEventQuery): Promise<ProviderEventRecord[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = { limit: query.limit };
+
+    if (query.status) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.provider) {
+      conditions.push('provider = @provider');
+      params.provider = query.provider;
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM provider_events
+         ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY received_at DESC, rowid DESC
+         LIMIT @limit`
+      )
+      .all(params) as DataRow[];
+    return rows.map(row => parseRecord<ProviderEventRecord>(row.data));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
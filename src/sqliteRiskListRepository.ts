@@ -0,0 +1,79 @@
+import Database from 'better-sqlite3';
+import { RiskListAuditEvent, RiskListEntry } from './types';
+import { RiskListKey, RiskListRepository } from './riskListRepository';
+import { openDatabase, parseRecord } from './database';
+
+interface DataRow {
+  data: string;
+}
+
+export class SqliteRiskListRepository implements RiskListRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openDatabase(filename);
+  }
+
+  async saveEntry(entry: RiskListEntry): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO risk_list_entries (id, list, type, value, expires_at, created_at, data)
+         VALUES (@id, @list, @type, @value, @expiresAt, @createdAt, @data)
+         ON CONFLICT (id) DO UPDATE SET
+           expires_at = excluded.expires_at,
+           data = excluded.data`
+      )
+      .run({
+        id: entry.id,
+        list: entry.list,
+        type: entry.type,
+        value: entry.value,
+        expiresAt: entry.expiresAt?.toISOString() ?? null,
+        createdAt: entry.createdAt.toISOString(),
+        data: JSON.stringify(entry)
+      });
+  }
+
+  async findEntry(id: string): Promise<RiskListEntry | undefined> {
+    const row = this.db.prepare('SELECT data FROM risk_list_entries WHERE id = ?').get(id) as DataRow | undefined;
+    return row && parseRecord<RiskListEntry>(row.data);
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM risk_list_entries WHERE id = ?').run(id);
+  }
+
+  async listEntries(): Promise<RiskListEntry[]> {
+    const rows = this.db.prepare('SELECT data FROM risk_list_entries ORDER BY created_at, rowid').all() as DataRow[];
+    return rows.map(row => parseRecord<RiskListEntry>(row.data));
+  }
+
+  async findByKeys(keys: RiskListKey[]): Promise<RiskListEntry[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM risk_list_entries
+         WHERE ${keys.map(() => '(type = ? AND value = ?)').join(' OR ')}`
+      )
+      .all(...keys.flatMap(key => [key.type, key.value])) as DataRow[];
+    return rows.map(row => parseRecord<RiskListEntry>(row.data));
+  }
+
+  async appendAudit(event: RiskListAuditEvent): Promise<void> {
+    this.db
+      .prepare('INSERT INTO risk_list_audit (id, at, data) VALUES (?, ?, ?)')
+      .run(event.id, event.at.toISOString(), JSON.stringify(event));
+  }
+
+  async listAudit(): Promise<RiskListAuditEvent[]> {
+    const rows = this.db.prepare('SELECT data FROM risk_list_audit ORDER BY at DESC, rowid DESC').all() as DataRow[];
+    return rows.map(row => parseRecord<RiskListAuditEvent>(row.data));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,162 @@
+import Database from 'better-sqlite3';
+import { PaymentProvider, Refund, Transaction, TransactionPage, TransactionQuery } from './types';
+import { TransactionRepository } from './transactionRepository';
+import { openDatabase, parseRecord } from './database';
+import { decodeCursor, encodeCursor } from './transactionQuery';
+
+interface DataRow {
+  data: string;
+}
+
+export class SqliteTransactionRepository implements TransactionRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openDatabase(filename);
+  }
+
+  async save(transaction: Transaction): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO transactions
+           (id, created_at, status, authorization_expires_at, review_due_at, provider, provider_reference, merchant_id, email, currency, amount, risk_score, shadow_version, data)
+         VALUES
+           (@id, @createdAt, @status, @authorizationExpiresAt, @reviewDueAt, @provider, @providerReference, @merchantId, @email, @currency, @amount, @riskScore, @shadowVersion, @data)
+         ON CONFLICT (id) DO UPDATE SET
+           status = excluded.status,
+           provider = excluded.provider,
+           provider_reference = excluded.provider_reference,
+           authorization_expires_at = excluded.authorization_expires_at,
+           review_due_at = excluded.review_due_at,
+           data = excluded.data`
+      )
+      .run({
+        id: transaction.id,
+        createdAt: transaction.timestamp.toISOString(),
+        status: transaction.status,
+        authorizationExpiresAt: transaction.authorizationExpiresAt?.toISOString() ?? null,
+        reviewDueAt: transaction.reviewDueAt?.toISOString() ?? null,
+        provider: transaction.response.provider,
+        providerReference: transaction.providerReference ?? null,
+        merchantId: transaction.request.merchantId ?? null,
+        email: transaction.request.email.toLowerCase(),
+        currency: transaction.request.currency,
+        amount: transaction.request.amount,
+        riskScore: transaction.response.riskScore,
+        shadowVersion: transaction.shadow?.version ?? null,
+        data: JSON.stringify(transaction)
+      });
+  }
+
+  async findById(id: string): Promise<Transaction | undefined> {
+    const row = this.db.prepare('SELECT data FROM transactions WHERE id = ?').get(id) as DataRow | undefined;
+    return row && parseRecord<Transaction>(row.data);
+  }
+
+  async findByProviderReference(provider: PaymentProvider, reference: string): Promise<Transaction | undefined> {
+    const row = this.db
+      .prepare('SELECT data FROM transactions WHERE provider = ? AND provider_reference = ?')
+      .get(provider, reference) as DataRow | undefined;
+    return row && parseRecord<Transaction>(row.data);
+  }
+
+  async list(): Promise<Transaction[]> {
+    const rows = this.db.prepare('SELECT data FROM transactions ORDER BY created_at, rowid').all() as DataRow[];
+    return rows.map(row => parseRecord<Transaction>(row.data));
+  }
+
+  async query(query: TransactionQuery): Promise<TransactionPage> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = { limit: query.limit + 1 };
+
+    const where = (condition: string, values: Record<string, string | number>) => {
+      conditions.push(condition);
+      Object.assign(params, values);
+    };
+
+    if (query.status) where('status = @status', { status: query.status });
+    if (query.provider) where('provider = @provider', { provider: query.provider });
+    if (query.email) where('email = @email', { email: query.email.toLowerCase() });
+    if (query.currency) where('currency = @currency', { currency: query.currency });
+    if (query.minAmount !== undefined) where('amount >= @minAmount', { minAmount: query.minAmount });
+    if (query.maxAmount !== undefined) where('amount <= @maxAmount', { maxAmount: query.maxAmount });
+    if (query.minRiskScore !== undefined) where('risk_score >= @minRiskScore', { minRiskScore: query.minRiskScore });
+    if (query.maxRiskScore !== undefined) where('risk_score <= @maxRiskScore', { maxRiskScore: query.maxRiskScore });
+    if (query.createdFrom) where('created_at >= @createdFrom', { createdFrom: query.createdFrom.toISOString() });
+    if (query.createdTo) where('created_at <= @createdTo', { createdTo: query.createdTo.toISOString() });
+    if (query.merchantId) where('merchant_id = @merchantId', { merchantId: query.merchantId });
+
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      where('(created_at < @cursorAt OR (created_at = @cursorAt AND id < @cursorId))', {
+        cursorAt: cursor.createdAt.toISOString(),
+        cursorId: cursor.id
+      });
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM transactions
+         ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY created_at DESC, id DESC
+         LIMIT @limit`
+      )
+      .all(params) as DataRow[];
+
+    const transactions = rows.slice(0, query.limit).map(row => parseRecord<Transaction>(row.data));
+    return {
+      transactions,
+      nextCursor: rows.length > query.limit ? encodeCursor(transactions[transactions.length - 1]) : null
+    };
+  }
+
+  async findExpiredAuthorizations(now: Date): Promise<Transaction[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM transactions
+         WHERE status = 'authorized' AND authorization_expires_at <= ?
+         ORDER BY authorization_expires_at`
+      )
+      .all(now.toISOString()) as DataRow[];
+    return rows.map(row => parseRecord<Transaction>(row.data));
+  }
+
+  async findPendingReviews(dueBy?: Date): Promise<Transaction[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM transactions
+         WHERE status = 'pending_review' ${dueBy ? 'AND review_due_at <= @dueBy' : ''}
+         ORDER BY review_due_at, rowid`
+      )
+      .all(dueBy ? { dueBy: dueBy.toISOString() } : {}) as DataRow[];
+    return rows.map(row => parseRecord<Transaction>(row.data));
+  }
+
+  async findShadowEvaluated(version?: string): Promise<Transaction[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM transactions
+         WHERE ${version ? 'shadow_version = @version' : 'shadow_version IS NOT NULL'}
+         ORDER BY created_at DESC, id DESC`
+      )
+      .all(version ? { version } : {}) as DataRow[];
+    return rows.map(row => parseRecord<Transaction>(row.data));
+  }
+
+  async saveRefund(refund: Refund): Promise<void> {
+    this.db
+      .prepare('INSERT INTO refunds (id, transaction_id, created_at, data) VALUES (?, ?, ?, ?)')
+      .run(refund.id, refund.transactionId, refund.createdAt.toISOString(), JSON.stringify(refund));
+  }
+
+  async listRefunds(transactionId: string): Promise<Refund[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM refunds WHERE transaction_id = ? ORDER BY created_at, rowid')
+      .all(transactionId) as DataRow[];
+    return rows.map(row => parseRecord<Refund>(row.data));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,48 @@
+import Database from 'better-sqlite3';
+import { VaultRecord } from './types';
+import { VaultRepository } from './vaultRepository';
+import { openDatabase, parseRecord } from './database';
+
+interface DataRow {
+  data: string;
+}
+
+export class SqliteVaultRepository implements VaultRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openDatabase(filename);
+  }
+
+  async save(record: VaultRecord): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO card_tokens (id, merchant_id, fingerprint, created_at, data)
+         VALUES (@id, @merchantId, @fingerprint, @createdAt, @data)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+      )
+      .run({
+        id: record.id,
+        merchantId: record.merchantId,
+        fingerprint: record.fingerprint,
+        createdAt: record.createdAt.toISOString(),
+        data: JSON.stringify(record)
+      });
+  }
+
+  async find(id: string): Promise<VaultRecord | undefined> {
+    const row = this.db.prepare('SELECT data FROM card_tokens WHERE id = ?').get(id) as DataRow | undefined;
+    return row && parseRecord<VaultRecord>(row.data);
+  }
+
+  async findByFingerprint(merchantId: string, fingerprint: string): Promise<VaultRecord | undefined> {
+    const row = this.db
+      .prepare('SELECT data FROM card_tokens WHERE merchant_id = ? AND fingerprint = ?')
+      .get(merchantId, fingerprint) as DataRow | undefined;
+    return row && parseRecord<VaultRecord>(row.data);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
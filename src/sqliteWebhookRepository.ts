@@ -0,0 +1,108 @@
+import Database from 'better-sqlite3';
+import { WebhookDelivery, WebhookDeliveryQuery, WebhookEndpoint } from './types';
+import { WebhookRepository } from './webhookRepository';
+import { openDatabase, parseRecord } from './database';
+
+interface DataRow {
+  data: string;
+}
+
+export class SqliteWebhookRepository implements WebhookRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openDatabase(filename);
+  }
+
+  async saveEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO webhook_endpoints (id, created_at, data) VALUES (@id, @createdAt, @data)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+      )
+      .run({ id: endpoint.id, createdAt: endpoint.createdAt.toISOString(), data: JSON.stringify(endpoint) });
+  }
+
+  async findEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const row = this.db.prepare('SELECT data FROM webhook_endpoints WHERE id = ?').get(id) as DataRow | undefined;
+    return row && parseRecord<WebhookEndpoint>(row.data);
+  }
+
+  async deleteEndpoint(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM webhook_endpoints WHERE id = ?').run(id);
+  }
+
+  async listEndpoints(): Promise<WebhookEndpoint[]> {
+    const rows = this.db.prepare('SELECT data FROM webhook_endpoints ORDER BY created_at, rowid').all() as DataRow[];
+    return rows.map(row => parseRecord<WebhookEndpoint>(row.data));
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO webhook_deliveries (id, endpoint_id, merchant_id, status, next_attempt_at, created_at, data)
+         VALUES (@id, @endpointId, @merchantId, @status, @nextAttemptAt, @createdAt, @data)
+         ON CONFLICT (id) DO UPDATE SET
+           status = excluded.status,
+           next_attempt_at = excluded.next_attempt_at,
+           data = excluded.data`
+      )
+      .run({
+        id: delivery.id,
+        endpointId: delivery.endpointId,
+        merchantId: delivery.merchantId ?? null,
+        status: delivery.status,
+        nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+        createdAt: delivery.createdAt.toISOString(),
+        data: JSON.stringify(delivery)
+      });
+  }
+
+  async findDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const row = this.db.prepare('SELECT data FROM webhook_deliveries WHERE id = ?').get(id) as DataRow | undefined;
+    return row && parseRecord<WebhookDelivery>(row.data);
+  }
+
+  async findDueDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= ?
+         ORDER BY next_attempt_at, rowid`
+      )
+      .all(now.toISOString()) as DataRow[];
+    return rows.map(row => parseRecord<WebhookDelivery>(row.data));
+  }
+
+  async listDeliveries(query: WebhookDeliveryQuery): Promise<WebhookDelivery[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = { limit: query.limit };
+
+    if (query.status) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.endpointId) {
+      conditions.push('endpoint_id = @endpointId');
+      params.endpointId = query.endpointId;
+    }
+    if (query.merchantId) {
+      conditions.push('merchant_id = @merchantId');
+      params.merchantId = query.merchantId;
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM webhook_deliveries
+         ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY created_at DESC, rowid DESC
+         LIMIT @limit`
+      )
+      .all(params) as DataRow[];
+    return rows.map(row => parseRecord<WebhookDelivery>(row.data));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
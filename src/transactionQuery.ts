@@ -0,0 +1,53 @@
+import { Transaction, TransactionQuery } from './types';
+import { GatewayError } from './errors';
+
+export interface TransactionCursor {
+  createdAt: Date;
+  id: string;
+}
+
+// Cursors point at the last transaction of a page; they are opaque to clients
+export const encodeCursor = (transaction: Transaction): string =>
+  Buffer.from(JSON.stringify({ t: transaction.timestamp.toISOString(), id: transaction.id })).toString('base64url');
+
+export const decodeCursor = (cursor: string): TransactionCursor => {
+  try {
+    const { t, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const createdAt = new Date(t);
+    if (typeof id !== 'string' || isNaN(createdAt.getTime())) {
+      throw new Error('Malformed cursor');
+    }
+    return { createdAt, id };
+  } catch {
+    throw new GatewayError(400, 'invalid_cursor', 'Invalid pagination cursor');
+  }
+};
+
+// Newest first, with the id as a tie-breaker so the order is stable across pages
+export const compareNewestFirst = (a: Transaction, b: Transaction): number =>
+  b.timestamp.getTime() - a.timestamp.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+export const isBeforeCursor = (transaction: Transaction, cursor: TransactionCursor): boolean => {
+  const time = transaction.timestamp.getTime();
+  const cursorTime = cursor.createdAt.getTime();
+  return time < cursorTime || (time === cursorTime && transaction.id < cursor.id);
+};
+
+// Applies every filter except the cursor, which callers decode once per page
+export const matchesQuery = (transaction: Transaction, query: TransactionQuery): boolean => {
+  const { request, response } = transaction;
+
+  if (query.status && transaction.status !== query.status) return false;
+  if (query.provider && response.provider !== query.provider) return false;
+  if (query.email && request.email.toLowerCase() !== query.email.toLowerCase()) return false;
+  if (query.currency && request.currency !== query.currency) return false;
+  if (query.minAmount !== undefined && request.amount < query.minAmount) return false;
+  if (query.maxAmount !== undefined && request.amount > query.maxAmount) return false;
+  if (query.minRiskScore !== undefined && response.riskScore < query.minRiskScore) return false;
+  if (query.maxRiskScore !== undefined && response.riskScore > query.maxRiskScore) return false;
+  if (query.createdFrom && transaction.timestamp < query.createdFrom) return false;
+  if (query.createdTo && transaction.timestamp > query.createdTo) return false;
+  if (query.merchantId && request.merchantId !== query.merchantId) return false;
+
+  return true;
+};
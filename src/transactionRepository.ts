@@ -0,0 +1,104 @@
+import { PaymentProvider, Refund, Transaction, TransactionPage, TransactionQuery } from './types';
+import { GatewayConfig } from './config';
+import { SqliteTransactionRepository } from './sqliteTransactionRepository';
+import { compareNewestFirst, decodeCursor, encodeCursor, isBeforeCursor, matchesQuery } from './transactionQuery';
+
+/**
+ * Storage for transactions and their refunds. Everything that reads or writes
+ * payment history goes through this interface so the store can be swapped.
+ */
+export interface TransactionRepository {
+  save(transaction: Transaction): Promise<void>;
+  findById(id: string): Promise<Transaction | undefined>;
+  // The transaction a provider knows by `reference`, for matching provider webhooks
+  findByProviderReference(provider: PaymentProvider, reference: string): Promise<Transaction | undefined>;
+  list(): Promise<Transaction[]>;
+  query(query: TransactionQuery): Promise<TransactionPage>;
+  findExpiredAuthorizations(now: Date): Promise<Transaction[]>;
+  // Transactions awaiting manual review, oldest deadline first; `dueBy` limits it to overdue ones
+  findPendingReviews(dueBy?: Date): Promise<Transaction[]>;
+  // Transactions a shadow candidate scored, newest first; `version` limits it to one candidate
+  findShadowEvaluated(version?: string): Promise<Transaction[]>;
+  saveRefund(refund: Refund): Promise<void>;
+  listRefunds(transactionId: string): Promise<Refund[]>;
+}
+
+// Copies on the way in and out so callers cannot mutate stored records without saving them
+export class InMemoryTransactionRepository implements TransactionRepository {
+  private transactions = new Map<string, Transaction>();
+  private refunds: Refund[] = [];
+
+  async save(transaction: Transaction): Promise<void> {
+    this.transactions.set(transaction.id, structuredClone(transaction));
+  }
+
+  async findById(id: string): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    return transaction && structuredClone(transaction);
+  }
+
+  async findByProviderReference(provider: PaymentProvider, reference: string): Promise<Transaction | undefined> {
+    const transaction = [...this.transactions.values()].find(
+      t => t.response.provider === provider && t.providerReference === reference
+    );
+    return transaction && structuredClone(transaction);
+  }
+
+  async list(): Promise<Transaction[]> {
+    return [...this.transactions.values()]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(transaction => structuredClone(transaction));
+  }
+
+  async query(query: TransactionQuery): Promise<TransactionPage> {
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    const matches = [...this.transactions.values()]
+      .filter(t => matchesQuery(t, query) && (!cursor || isBeforeCursor(t, cursor)))
+      .sort(compareNewestFirst);
+
+    const transactions = matches.slice(0, query.limit).map(transaction => structuredClone(transaction));
+    const hasMore = matches.length > query.limit;
+
+    return {
+      transactions,
+      nextCursor: hasMore ? encodeCursor(transactions[transactions.length - 1]) : null
+    };
+  }
+
+  async findExpiredAuthorizations(now: Date): Promise<Transaction[]> {
+    return [...this.transactions.values()]
+      .filter(t => t.status === 'authorized' && t.authorizationExpiresAt && t.authorizationExpiresAt <= now)
+      .map(transaction => structuredClone(transaction));
+  }
+
+  async findPendingReviews(dueBy?: Date): Promise<Transaction[]> {
+    return [...this.transactions.values()]
+      .filter(t => t.status === 'pending_review' && (!dueBy || (t.reviewDueAt && t.reviewDueAt <= dueBy)))
+      .sort((a, b) => (a.reviewDueAt?.getTime() ?? 0) - (b.reviewDueAt?.getTime() ?? 0))
+      .map(transaction => structuredClone(transaction));
+  }
+
+  async findShadowEvaluated(version?: string): Promise<Transaction[]> {
+    return [...this.transactions.values()]
+      .filter(t => t.shadow && (!version || t.shadow.version === version))
+      .sort(compareNewestFirst)
+      .map(transaction => structuredClone(transaction));
+  }
+
+  async saveRefund(refund: Refund): Promise<void> {
+    this.refunds.push(structuredClone(refund));
+  }
+
+  async listRefunds(transactionId: string): Promise<Refund[]> {
+    return this.refunds
+      .filter(refund => refund.transactionId === transactionId)
+      .map(refund => structuredClone(refund));
+  }
+}
+
+export const createTransactionRepository = (config: GatewayConfig): TransactionRepository => {
+  if (config.storage.driver === 'sqlite') {
+    return new SqliteTransactionRepository(config.storage.sqlitePath);
+  }
+  return new InMemoryTransactionRepository();
+};
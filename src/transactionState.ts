@@ -0,0 +1,43 @@
+import { ReviewDecision, Transaction, TransactionStatus } from './types';
+import { GatewayError } from './errors';
+
+const TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  pending_review: ['succeeded', 'authorized', 'declined', 'failed'],
+  // Providers can decline a charge after first accepting it, e.g. when a pending capture is denied
+  authorized: ['succeeded', 'voided', 'expired', 'declined'],
+  succeeded: ['partially_refunded', 'refunded', 'disputed', 'declined'],
+  partially_refunded: ['partially_refunded', 'refunded', 'disputed'],
+  // A won dispute goes back to where it was; a lost one is final
+  disputed: ['succeeded', 'partially_refunded', 'charged_back'],
+  charged_back: [],
+  refunded: [],
+  voided: [],
+  expired: [],
+  declined: [],
+  blocked: [],
+  failed: []
+};
+
+export const TRANSACTION_STATUSES = Object.keys(TRANSITIONS) as TransactionStatus[];
+
+export const canTransition = (from: TransactionStatus, to: TransactionStatus): boolean =>
+  TRANSITIONS[from].includes(to);
+
+export const assertTransition = (from: TransactionStatus, to: TransactionStatus): void => {
+  if (!canTransition(from, to)) {
+    throw new GatewayError(409, 'invalid_state_transition', `Cannot move a ${from} transaction to ${to}`);
+  }
+};
+
+// Moves a transaction to a new status and records the change on its timeline
+export const transition = (
+  transaction: Transaction,
+  to: TransactionStatus,
+  note?: string,
+  at = new Date(),
+  review?: ReviewDecision
+): void => {
+  assertTransition(transaction.status, to);
+  transaction.status = to;
+  transaction.timeline.push({ at, status: to, ...(note && { note }), ...(review && { review }) });
+};
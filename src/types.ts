@@ -1,16 +1,233 @@
 export interface ChargeRequest {
   amount: number;
   currency: string;
+  // A card token from the vault
   source: string;
   email: string;
+  merchantId?: string;
+  capture?: boolean;
+  // Set by the gateway from the vault, never by the client
+  card?: ChargeCard;
 }
 
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'jcb' | 'diners';
+
+// What may be kept and shown about a card once it is vaulted
+export interface CardSummary {
+  brand: CardBrand;
+  last4: string;
+}
+
+// The card while a charge is scored and routed; only the summary is stored with the transaction
+export interface ChargeCard extends CardSummary {
+  // Leading digits naming the issuer, which routing and fraud rules can match on
+  bin?: string;
+}
+
+export interface CardInput {
+  number: string;
+  expMonth: number;
+  expYear: number;
+  // Checked for shape only and never stored
+  cvc: string;
+}
+
+export interface CardToken extends CardSummary {
+  id: string;
+  merchantId: string;
+  expMonth: number;
+  expYear: number;
+  createdAt: Date;
+}
+
+export interface VaultRecord extends CardToken {
+  // Keyed hash of the number, so the same card tokenized twice gets the same token
+  fingerprint: string;
+  encryptedNumber: string;
+}
+
+// The card as sent to providers: only ever in memory, for the length of one charge
+export interface CardDetails {
+  number: string;
+  expMonth: number;
+  expYear: number;
+}
+
+export type ChargeStatus = 'success' | 'authorized' | 'pending_review' | 'blocked' | 'declined' | 'failed';
+
+export type TransactionStatus =
+  | 'pending_review'
+  | 'authorized'
+  | 'succeeded'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'voided'
+  | 'expired'
+  | 'declined'
+  | 'blocked'
+  | 'failed'
+  | 'disputed'
+  | 'charged_back';
+
 export interface ChargeResponse {
   transactionId: string;
   provider: string;
-  status: 'success' | 'blocked';
+  status: ChargeStatus;
   riskScore: number;
+  riskFactors: RiskFactor[];
   explanation: string;
+  declineCode?: string;
+  errorCode?: string;
+}
+
+// One fraud rule or list entry that fired for a charge and what it added to the risk score
+export interface RiskFactor {
+  code: string;
+  ruleId?: string;
+  listEntryId?: string;
+  description?: string;
+  contribution: number;
+}
+
+export interface RiskAssessment {
+  score: number;
+  factors: RiskFactor[];
+}
+
+export type RiskDecision = 'approve' | 'review' | 'block';
+
+// What a candidate fraud configuration would have decided for a charge, next to the live decision
+export interface ShadowEvaluation {
+  version: string;
+  riskScore: number;
+  riskFactors: RiskFactor[];
+  decision: RiskDecision;
+  liveDecision: RiskDecision;
+  agrees: boolean;
+}
+
+export interface ShadowReportQuery {
+  version?: string;
+  limit: number;
+}
+
+export interface ShadowDivergence {
+  transactionId: string;
+  timestamp: Date;
+  amount: number;
+  currency: string;
+  email: string;
+  liveDecision: RiskDecision;
+  liveRiskScore: number;
+  shadowDecision: RiskDecision;
+  shadowRiskScore: number;
+}
+
+export interface ShadowReport {
+  version: string | null;
+  evaluated: number;
+  agreed: number;
+  disagreed: number;
+  agreementRate: number | null;
+  breakdown: { live: RiskDecision; shadow: RiskDecision; count: number }[];
+  divergent: ShadowDivergence[];
+}
+
+export type RiskListName = 'allow' | 'deny';
+
+export type RiskListType = 'email' | 'domain' | 'source';
+
+export interface RiskListEntryInput {
+  list: RiskListName;
+  type: RiskListType;
+  value: string;
+  reason?: string;
+  expiresAt?: Date;
+}
+
+export interface RiskListEntry extends RiskListEntryInput {
+  id: string;
+  createdAt: Date;
+  createdBy: string;
+}
+
+export interface RiskListAuditEvent {
+  id: string;
+  at: Date;
+  actor: string;
+  action: 'added' | 'removed';
+  entry: RiskListEntry;
+}
+
+export type WebhookEventType =
+  | 'charge.succeeded'
+  | 'charge.authorized'
+  | 'charge.pending_review'
+  | 'charge.blocked'
+  | 'charge.declined'
+  | 'charge.failed'
+  | 'charge.captured'
+  | 'charge.voided'
+  | 'charge.expired'
+  | 'charge.disputed'
+  | 'charge.dispute_won'
+  | 'charge.charged_back'
+  | 'charge.settled'
+  | 'refund.created'
+  | 'refund.failed';
+
+export interface WebhookEndpointInput {
+  url: string;
+  // Event types to send, or ['*'] for all of them
+  events: (WebhookEventType | '*')[];
+  // Only events for this merchant's charges; every charge when absent
+  merchantId?: string;
+  description?: string;
+}
+
+export interface WebhookEndpoint extends WebhookEndpointInput {
+  id: string;
+  secret: string;
+  // Registered with the admin key, so not held to the URL rules for merchant endpoints
+  trusted?: boolean;
+  createdAt: Date;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: Date;
+  data: { object: Transaction | Refund };
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'dead';
+
+export interface WebhookDeliveryAttempt {
+  at: Date;
+  latencyMs: number;
+  statusCode?: number;
+  error?: string;
+  manual?: boolean;
+}
+
+// One event on its way to one endpoint; `dead` deliveries make up the dead-letter list
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: Date;
+  // Copied from the endpoint so a merchant's deliveries can be listed after the endpoint is gone
+  merchantId?: string;
+  createdAt: Date;
+}
+
+export interface WebhookDeliveryQuery {
+  status?: WebhookDeliveryStatus;
+  endpointId?: string;
+  merchantId?: string;
+  limit: number;
 }
 
 export interface Transaction {
@@ -18,6 +235,217 @@ export interface Transaction {
   timestamp: Date;
   request: ChargeRequest;
   response: ChargeResponse;
+  status: TransactionStatus;
+  providerReference?: string;
+  attempts: ProviderAttempt[];
+  authorizedAmount: number;
+  authorizationExpiresAt?: Date;
+  reviewDueAt?: Date;
+  shadow?: ShadowEvaluation;
+  routing?: RoutingDecision;
+  dispute?: Dispute;
+  // When the provider reported the funds as settled
+  settledAt?: Date;
+  capturedAmount: number;
+  refundedAmount: number;
+  timeline: TimelineEvent[];
+}
+
+// A chargeback opened by the cardholder, as reported by the provider
+export interface Dispute {
+  id: string;
+  amount: number;
+  reason?: string;
+  openedAt: Date;
+  outcome?: 'won' | 'lost';
+  closedAt?: Date;
+}
+
+export type ProviderEventKind = 'dispute_opened' | 'dispute_won' | 'dispute_lost' | 'late_decline' | 'settled';
+
+// An inbound provider webhook translated into the gateway's terms
+export interface ProviderEvent {
+  provider: PaymentProvider;
+  // The provider's event id, used to drop redeliveries
+  id: string;
+  // The provider's own name for the event, e.g. `charge.dispute.created`
+  type: string;
+  kind: ProviderEventKind;
+  // Provider reference of the charge the event is about
+  reference: string;
+  occurredAt: Date;
+  amount?: number;
+  reason?: string;
+  disputeId?: string;
+  declineCode?: string;
+}
+
+// `parked` events matched no transaction and wait for reconciliation; `ignored` ones did not fit its state
+export type ProviderEventStatus = 'applied' | 'parked' | 'ignored';
+
+export interface ProviderEventRecord {
+  id: string;
+  event: ProviderEvent;
+  status: ProviderEventStatus;
+  transactionId?: string;
+  note?: string;
+  receivedAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProviderEventQuery {
+  status?: ProviderEventStatus;
+  provider?: PaymentProvider;
+  limit: number;
+}
+
+export interface Merchant {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+export interface MerchantInput {
+  // Generated when absent; set it to keep ids that routing rules already refer to
+  id?: string;
+  name: string;
+}
+
+/**
+ * How the gateway treats one merchant's charges. Every field is optional:
+ * unset fields come from the gateway-wide defaults, and whatever those leave
+ * unset from the fraud rules, provider registry and routing rules.
+ */
+export interface MerchantSettings {
+  // Scores at or above this are blocked
+  blockThreshold?: number;
+  // Scores from here up to blockThreshold are held for review; equal to blockThreshold, nothing is
+  reviewThreshold?: number;
+  currencies?: string[];
+  // Minor units of the FX base currency; charges are converted before they are compared
+  minAmount?: number;
+  maxAmount?: number;
+  // Tried in this order ahead of the routing rules' choice
+  preferredProviders?: PaymentProvider[];
+  // Off, explanations are built from the risk factors without calling the model
+  llmExplanations?: boolean;
+}
+
+export interface MerchantSettingsRecord {
+  // Null for the gateway-wide defaults
+  merchantId: string | null;
+  settings: MerchantSettings;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// Secret keys act for the merchant; publishable keys are safe to ship in a browser or app
+export type ApiKeyType = 'secret' | 'publishable';
+
+export interface ApiKey {
+  id: string;
+  merchantId: string;
+  type: ApiKeyType;
+  // The start of the key, enough to tell keys apart in a list
+  prefix: string;
+  // SHA-256 of the full key; the key itself is only shown when it is issued
+  hash: string;
+  createdAt: Date;
+  // Set when a rotated key keeps working for a grace period
+  expiresAt?: Date;
+  revokedAt?: Date;
+}
+
+export type RoutingStrategy = 'fixed' | 'split' | 'lowest_cost' | 'default' | 'merchant_preference';
+
+// Which routing rule picked the preferred provider, and why
+export interface RoutingDecision {
+  ruleSetVersion: string;
+  ruleId: string | null;
+  strategy: RoutingStrategy;
+  provider: PaymentProvider;
+  reason: string;
+  estimatedFee?: number;
+}
+
+export interface TimelineEvent {
+  at: Date;
+  status: TransactionStatus;
+  note?: string;
+  // Who decided a manual review and why; kept out of `note` so only the admin key sees it
+  review?: ReviewDecision;
+}
+
+export interface CaptureRequest {
+  amount?: number;
 }
 
-export type PaymentProvider = 'stripe' | 'paypal';
\ No newline at end of file
+export interface ReviewDecision {
+  reviewer?: string;
+  note?: string;
+}
+
+export interface RefundRequest {
+  amount?: number;
+  reason?: string;
+}
+
+export interface Refund {
+  id: string;
+  transactionId: string;
+  amount: number;
+  status: 'succeeded' | 'failed';
+  reason?: string;
+  providerReference?: string;
+  errorCode?: string;
+  createdAt: Date;
+}
+
+export interface TransactionDetails extends Transaction {
+  refunds: Refund[];
+  refundableAmount: number;
+}
+
+export interface TransactionQuery {
+  status?: TransactionStatus;
+  provider?: string;
+  email?: string;
+  currency?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  minRiskScore?: number;
+  maxRiskScore?: number;
+  createdFrom?: Date;
+  createdTo?: Date;
+  // Set from the caller's API key, never from the query string
+  merchantId?: string;
+  limit: number;
+  cursor?: string;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: string | null;
+}
+
+// A provider id from the plugin registry, e.g. 'stripe' or 'adyen'
+export type PaymentProvider = string;
+
+export type ProviderOutcome = 'approved' | 'declined';
+
+export interface ProviderResult {
+  provider: PaymentProvider;
+  outcome: ProviderOutcome;
+  reference: string;
+  amount: number;
+  declineCode?: string;
+}
+
+export interface ProviderAttempt {
+  provider: PaymentProvider;
+  startedAt: Date;
+  latencyMs: number;
+  outcome: ProviderOutcome | 'error' | 'skipped';
+  errorCode?: string;
+  error?: string;
+}
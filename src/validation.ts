@@ -1,12 +1,216 @@
 import Joi from 'joi';
+import { TRANSACTION_STATUSES } from './transactionState';
+import { BUILT_IN_PROVIDER_IDS } from './providerRegistry';
+import { SUPPORTED_CURRENCIES } from './currencies';
+import { WEBHOOK_EVENT_TYPES } from './webhooks';
+import { CARD_TOKEN_PATTERN } from './vault';
 
 export const chargeRequestSchema = Joi.object({
   amount: Joi.number().integer().min(1).max(10000000).required(),
-  currency: Joi.string().length(3).pattern(/^[A-Z]{3}$/).uppercase().required(),
+  currency: Joi.string().length(3).pattern(/^[A-Z]{3}$/).uppercase().valid(...SUPPORTED_CURRENCIES).required(),
   source: Joi.string().min(1).max(100).required(),
-  email: Joi.string().email().required()
+  email: Joi.string().email().required(),
+  merchantId: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(100),
+  capture: Joi.boolean()
+});
+
+// Card numbers and CVCs never appear in error messages, which would otherwise echo the value back
+export const cardSchema = Joi.object({
+  number: Joi.string()
+    .replace(/[\s-]/g, '')
+    .pattern(/^\d{12,19}$/)
+    .required()
+    .messages({ 'string.pattern.base': '"number" must be 12 to 19 digits' }),
+  expMonth: Joi.number().integer().min(1).max(12).required(),
+  expYear: Joi.number().integer().min(2000).max(2100).required(),
+  cvc: Joi.string()
+    .pattern(/^\d{3,4}$/)
+    .required()
+    .messages({ 'string.pattern.base': '"cvc" must be 3 or 4 digits' })
+});
+
+export const captureRequestSchema = Joi.object({
+  amount: Joi.number().integer().min(1).max(10000000)
+});
+
+export const refundRequestSchema = Joi.object({
+  amount: Joi.number().integer().min(1).max(10000000),
+  reason: Joi.string().max(200)
+});
+
+export const approveReviewSchema = Joi.object({
+  reviewer: Joi.string().max(100),
+  note: Joi.string().max(500)
+});
+
+export const rejectReviewSchema = approveReviewSchema.keys({
+  note: Joi.string().max(500).required()
+});
+
+const RISK_LIST_NAMES = ['allow', 'deny'];
+const RISK_LIST_TYPES = ['email', 'domain', 'source'];
+
+export const riskListEntrySchema = Joi.object({
+  list: Joi.string().valid(...RISK_LIST_NAMES).required(),
+  type: Joi.string().valid(...RISK_LIST_TYPES).required(),
+  value: Joi.when('type', {
+    switch: [
+      { is: 'email', then: Joi.string().email().lowercase().required() },
+      { is: 'domain', then: Joi.string().domain().lowercase().required() },
+      // Charges are made with vault tokens, so anything else, a masked token included, would never match
+      {
+        is: 'source',
+        then: Joi.string()
+          .trim()
+          .lowercase()
+          .pattern(CARD_TOKEN_PATTERN)
+          .required()
+          .messages({ 'string.pattern.base': '"value" must be a full card token, such as tok_5f0c9a1e2b7d4c3a8e6f1b2d' })
+      }
+    ]
+  }),
+  reason: Joi.string().max(500),
+  expiresAt: Joi.date().iso().greater('now')
+});
+
+export const riskListQuerySchema = Joi.object({
+  list: Joi.string().valid(...RISK_LIST_NAMES),
+  type: Joi.string().valid(...RISK_LIST_TYPES),
+  includeExpired: Joi.boolean()
+});
+
+export const shadowReportQuerySchema = Joi.object({
+  version: Joi.string().max(100),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+export const webhookEndpointSchema = Joi.object({
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).max(2000).required(),
+  events: Joi.array().items(Joi.string().valid('*', ...WEBHOOK_EVENT_TYPES)).unique().min(1).required(),
+  merchantId: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(100),
+  description: Joi.string().max(500)
+});
+
+export const webhookDeliveryQuerySchema = Joi.object({
+  status: Joi.string().valid('pending', 'succeeded', 'dead'),
+  endpointId: Joi.string().max(100),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+export const providerEventQuerySchema = Joi.object({
+  status: Joi.string().valid('applied', 'parked', 'ignored'),
+  provider: Joi.string().max(50),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+export const merchantSchema = Joi.object({
+  id: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(100),
+  name: Joi.string().trim().min(1).max(200).required()
+});
+
+export const rotateApiKeySchema = Joi.object({
+  graceMs: Joi.number().integer().min(0).max(7 * 24 * 60 * 60 * 1000)
+});
+
+export const merchantSettingsSchema = Joi.object({
+  blockThreshold: Joi.number().min(0).max(1),
+  reviewThreshold: Joi.number()
+    .min(0)
+    .max(1)
+    .when('blockThreshold', { is: Joi.exist(), then: Joi.number().max(Joi.ref('blockThreshold')) }),
+  currencies: Joi.array()
+    .items(Joi.string().length(3).pattern(/^[A-Z]{3}$/).uppercase().valid(...SUPPORTED_CURRENCIES))
+    .min(1)
+    .unique(),
+  // Both in minor units of the FX base currency, whatever currency a charge is in
+  minAmount: Joi.number().integer().min(1),
+  maxAmount: Joi.number()
+    .integer()
+    .min(1)
+    .when('minAmount', { is: Joi.exist(), then: Joi.number().min(Joi.ref('minAmount')) }),
+  preferredProviders: Joi.array().items(Joi.string().max(50)).unique(),
+  llmExplanations: Joi.boolean()
+});
+
+export const transactionQuerySchema = Joi.object({
+  status: Joi.string().valid(...TRANSACTION_STATUSES),
+  provider: Joi.string().max(50),
+  email: Joi.string().email(),
+  currency: Joi.string().length(3).pattern(/^[A-Z]{3}$/).uppercase().valid(...SUPPORTED_CURRENCIES),
+  minAmount: Joi.number().integer().min(0),
+  maxAmount: Joi.number().integer().min(0),
+  minRiskScore: Joi.number().min(0).max(1),
+  maxRiskScore: Joi.number().min(0).max(1),
+  createdFrom: Joi.date().iso(),
+  createdTo: Joi.date().iso(),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  cursor: Joi.string().max(500)
 });
 
 export const validateChargeRequest = (data: any) => {
   return chargeRequestSchema.validate(data);
-};
\ No newline at end of file
+};
+
+export const validateCaptureRequest = (data: any) => {
+  return captureRequestSchema.validate(data ?? {});
+};
+
+export const validateRefundRequest = (data: any) => {
+  return refundRequestSchema.validate(data ?? {});
+};
+
+export const validateApproveReview = (data: any) => {
+  return approveReviewSchema.validate(data ?? {});
+};
+
+export const validateRejectReview = (data: any) => {
+  return rejectReviewSchema.validate(data ?? {});
+};
+
+export const validateRiskListEntry = (data: any) => {
+  return riskListEntrySchema.validate(data);
+};
+
+export const validateRiskListQuery = (data: any) => {
+  return riskListQuerySchema.validate(data);
+};
+
+export const validateShadowReportQuery = (data: any) => {
+  return shadowReportQuerySchema.validate(data);
+};
+
+export const validateWebhookEndpoint = (data: any) => {
+  return webhookEndpointSchema.validate(data);
+};
+
+export const validateWebhookDeliveryQuery = (data: any) => {
+  return webhookDeliveryQuerySchema.validate(data);
+};
+
+export const validateProviderEventQuery = (data: any) => {
+  return providerEventQuerySchema.validate(data);
+};
+
+export const validateMerchant = (data: any) => {
+  return merchantSchema.validate(data);
+};
+
+export const validateCard = (data: any) => {
+  return cardSchema.validate(data);
+};
+
+export const validateRotateApiKey = (data: any) => {
+  return rotateApiKeySchema.validate(data);
+};
+
+// `providers` is every enabled provider id
+export const validateMerchantSettings = (data: any, providers: string[] = BUILT_IN_PROVIDER_IDS) => {
+  return merchantSettingsSchema
+    .keys({ preferredProviders: Joi.array().items(Joi.string().valid(...providers)).unique() })
+    .validate(data);
+};
+
+// `providers` is every registered provider id, so history for disabled ones stays searchable
+export const validateTransactionQuery = (data: any, providers: string[] = BUILT_IN_PROVIDER_IDS) => {
+  return transactionQuerySchema.keys({ provider: Joi.string().valid(...providers) }).validate(data);
+};
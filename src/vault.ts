@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import { CardDetails, CardInput, CardToken, ChargeCard, VaultRecord } from './types';
+import { VaultRepository } from './vaultRepository';
+import { GatewayError } from './errors';
+import { binOf, detectBrand, isExpired, luhnValid } from './cards';
+
+const CIPHER = 'aes-256-gcm';
+
+// What `tokenize` hands out: `tok_` and 24 hex characters
+export const CARD_TOKEN_PATTERN = /^tok_[0-9a-f]{24}$/;
+
+// Refuses to start with anything but a full 256-bit key
+export const parseVaultKey = (hex: string): Buffer => {
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('VAULT_ENCRYPTION_KEY must be 64 hex characters (32 bytes)');
+  }
+  return Buffer.from(hex, 'hex');
+};
+
+const summarize = ({ fingerprint: _fingerprint, encryptedNumber: _encrypted, ...token }: VaultRecord): CardToken => token;
+
+const unknownToken = () => new GatewayError(422, 'invalid_card_token', 'No such card token');
+
+/**
+ * Card tokenization. Numbers are encrypted with AES-256-GCM under a local
+ * key, bound to their token id, and only decrypted to send a charge to a
+ * provider. CVCs are checked and dropped.
+ */
+export class CardVault {
+  private encryptionKey: Buffer;
+  private fingerprintKey: Buffer;
+
+  // Without a key one is generated, so tokens only last as long as the process
+  constructor(
+    private repository: VaultRepository,
+    key: Buffer = crypto.randomBytes(32)
+  ) {
+    // Separate keys for encrypting and fingerprinting, so neither use weakens the other
+    this.encryptionKey = Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), 'card-number', 32));
+    this.fingerprintKey = Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), 'card-fingerprint', 32));
+  }
+
+  async tokenize(merchantId: string, input: CardInput, now = new Date()): Promise<CardToken> {
+    const { number, expMonth, expYear, cvc } = input;
+    if (!luhnValid(number)) {
+      throw new GatewayError(422, 'invalid_card_number', 'The card number is not valid');
+    }
+    const range = detectBrand(number);
+    if (!range) {
+      throw new GatewayError(422, 'unsupported_card_brand', 'Cards of this brand are not accepted');
+    }
+    if (cvc.length !== range.cvcLength) {
+      throw new GatewayError(422, 'invalid_cvc', `A ${range.brand} card has a ${range.cvcLength}-digit CVC`);
+    }
+    if (isExpired(expMonth, expYear, now)) {
+      throw new GatewayError(422, 'card_expired', 'The card has expired');
+    }
+
+    // The same card gets the same token, so velocity checks and deny lists keep working on it
+    const fingerprint = crypto.createHmac('sha256', this.fingerprintKey).update(number).digest('hex');
+    const existing = await this.repository.findByFingerprint(merchantId, fingerprint);
+    if (existing) {
+      const renewed = { ...existing, expMonth, expYear };
+      await this.repository.save(renewed);
+      return summarize(renewed);
+    }
+
+    const id = `tok_${crypto.randomBytes(12).toString('hex')}`;
+    const record: VaultRecord = {
+      id,
+      merchantId,
+      brand: range.brand,
+      last4: number.slice(-4),
+      expMonth,
+      expYear,
+      createdAt: now,
+      fingerprint,
+      encryptedNumber: this.encrypt(id, number)
+    };
+    await this.repository.save(record);
+    return summarize(record);
+  }
+
+  // The card behind a token, to charge it. Another merchant's token is reported as unknown
+  async reveal(
+    id: string,
+    merchantId: string | undefined,
+    now = new Date()
+  ): Promise<{ card: CardDetails; summary: ChargeCard }> {
+    const record = await this.repository.find(id);
+    if (!record || record.merchantId !== merchantId) {
+      throw unknownToken();
+    }
+    if (isExpired(record.expMonth, record.expYear, now)) {
+      throw new GatewayError(422, 'card_expired', 'The card has expired');
+    }
+
+    let number: string;
+    try {
+      number = this.decrypt(id, record.encryptedNumber);
+    } catch {
+      throw new GatewayError(422, 'card_unreadable', 'This card was vaulted under another key; tokenize it again');
+    }
+    return {
+      card: { number, expMonth: record.expMonth, expYear: record.expYear },
+      summary: { brand: record.brand, last4: record.last4, bin: binOf(number) }
+    };
+  }
+
+  private encrypt(id: string, number: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(CIPHER, this.encryptionKey, iv).setAAD(Buffer.from(id));
+    const data = Buffer.concat([cipher.update(number, 'utf8'), cipher.final()]);
+    return ['v1', ...[iv, cipher.getAuthTag(), data].map(part => part.toString('base64'))].join('.');
+  }
+
+  private decrypt(id: string, encrypted: string): string {
+    const [, iv, tag, data] = encrypted.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv(CIPHER, this.encryptionKey, iv).setAAD(Buffer.from(id));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  }
+}
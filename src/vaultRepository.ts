@@ -0,0 +1,40 @@
+import { VaultRecord } from './types';
+import { GatewayConfig } from './config';
+import { SqliteVaultRepository } from './sqliteVaultRepository';
+
+/**
+ * Storage for vaulted cards. Records hold the card number encrypted only;
+ * the key to read it never reaches the repository.
+ */
+export interface VaultRepository {
+  save(record: VaultRecord): Promise<void>;
+  find(id: string): Promise<VaultRecord | undefined>;
+  findByFingerprint(merchantId: string, fingerprint: string): Promise<VaultRecord | undefined>;
+}
+
+export class InMemoryVaultRepository implements VaultRepository {
+  private records = new Map<string, VaultRecord>();
+
+  async save(record: VaultRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async find(id: string): Promise<VaultRecord | undefined> {
+    const record = this.records.get(id);
+    return record && structuredClone(record);
+  }
+
+  async findByFingerprint(merchantId: string, fingerprint: string): Promise<VaultRecord | undefined> {
+    const record = [...this.records.values()].find(
+      candidate => candidate.merchantId === merchantId && candidate.fingerprint === fingerprint
+    );
+    return record && structuredClone(record);
+  }
+}
+
+export const createVaultRepository = (config: GatewayConfig): VaultRepository => {
+  if (config.storage.driver === 'sqlite') {
+    return new SqliteVaultRepository(config.storage.sqlitePath);
+  }
+  return new InMemoryVaultRepository();
+};
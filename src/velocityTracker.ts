@@ -0,0 +1,107 @@
+import { ChargeRequest } from './types';
+
+// History-based inputs to the fraud rules, all measured over the tracker window
+export interface VelocitySignals {
+  emailChargeCount: number;
+  sourceChargeCount: number;
+  sourceEmailCount: number;
+  amountIncreaseRatio: number;
+  blockedRetryCount: number;
+}
+
+export const NO_VELOCITY: VelocitySignals = {
+  emailChargeCount: 0,
+  sourceChargeCount: 0,
+  sourceEmailCount: 0,
+  amountIncreaseRatio: 0,
+  blockedRetryCount: 0
+};
+
+interface ChargeEvent {
+  at: number;
+  amount: number;
+  email: string;
+  source: string;
+  blocked: boolean;
+}
+
+/**
+ * Remembers the charges seen in the last `windowMs`, indexed by email and by
+ * source token. Events are appended in time order, so expired ones are trimmed
+ * from the front of each list and a lookup only touches that key's recent events.
+ */
+export class VelocityTracker {
+  private byEmail = new Map<string, ChargeEvent[]>();
+  private bySource = new Map<string, ChargeEvent[]>();
+  private lastSweep = 0;
+
+  constructor(private windowMs: number) {}
+
+  record(request: ChargeRequest, blocked: boolean, now = Date.now()): void {
+    const event: ChargeEvent = {
+      at: now,
+      amount: request.amount,
+      email: request.email.toLowerCase(),
+      source: request.source,
+      blocked
+    };
+
+    this.append(this.byEmail, event.email, event);
+    this.append(this.bySource, event.source, event);
+
+    // Keys that are never looked up again would otherwise keep their events forever
+    if (now - this.lastSweep >= this.windowMs) {
+      this.sweep(now);
+    }
+  }
+
+  // Signals for a charge that has not been recorded yet
+  signals(request: ChargeRequest, now = Date.now()): VelocitySignals {
+    const email = request.email.toLowerCase();
+    const byEmail = this.recent(this.byEmail, email, now);
+    const bySource = this.recent(this.bySource, request.source, now);
+
+    const averageAmount = byEmail.reduce((sum, event) => sum + event.amount, 0) / (byEmail.length || 1);
+    const blockedHigher = new Set(
+      [...byEmail, ...bySource].filter(event => event.blocked && event.amount > request.amount)
+    );
+
+    return {
+      emailChargeCount: byEmail.length,
+      sourceChargeCount: bySource.length,
+      sourceEmailCount: new Set([email, ...bySource.map(event => event.email)]).size,
+      amountIncreaseRatio: byEmail.length ? request.amount / averageAmount : 0,
+      blockedRetryCount: blockedHigher.size
+    };
+  }
+
+  private append(index: Map<string, ChargeEvent[]>, key: string, event: ChargeEvent): void {
+    const events = this.recent(index, key, event.at);
+    events.push(event);
+    index.set(key, events);
+  }
+
+  private recent(index: Map<string, ChargeEvent[]>, key: string, now: number): ChargeEvent[] {
+    const events = index.get(key) ?? [];
+    const firstLive = events.findIndex(event => now - event.at < this.windowMs);
+
+    if (firstLive === -1) {
+      index.delete(key);
+      return [];
+    }
+
+    if (firstLive > 0) {
+      events.splice(0, firstLive);
+    }
+    return events;
+  }
+
+  private sweep(now: number): void {
+    for (const index of [this.byEmail, this.bySource]) {
+      for (const key of [...index.keys()]) {
+        this.recent(index, key, now);
+      }
+    }
+    this.lastSweep = now;
+  }
+}
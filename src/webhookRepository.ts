@@ -0,0 +1,82 @@
+import { WebhookDelivery, WebhookDeliveryQuery, WebhookEndpoint } from './types';
+import { GatewayConfig } from './config';
+import { SqliteWebhookRepository } from './sqliteWebhookRepository';
+
+/**
+ * Storage for registered webhook endpoints and the deliveries made to them.
+ * Deliveries outlive their endpoint so the dead-letter list stays complete.
+ */
+export interface WebhookRepository {
+  saveEndpoint(endpoint: WebhookEndpoint): Promise<void>;
+  findEndpoint(id: string): Promise<WebhookEndpoint | undefined>;
+  deleteEndpoint(id: string): Promise<void>;
+  // Oldest first
+  listEndpoints(): Promise<WebhookEndpoint[]>;
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+  findDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  // Pending deliveries whose next attempt is at or before `now`, earliest first
+  findDueDeliveries(now: Date): Promise<WebhookDelivery[]>;
+  // Newest first
+  listDeliveries(query: WebhookDeliveryQuery): Promise<WebhookDelivery[]>;
+}
+
+export class InMemoryWebhookRepository implements WebhookRepository {
+  private endpoints = new Map<string, WebhookEndpoint>();
+  private deliveries = new Map<string, WebhookDelivery>();
+
+  async saveEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    this.endpoints.set(endpoint.id, structuredClone(endpoint));
+  }
+
+  async findEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const endpoint = this.endpoints.get(id);
+    return endpoint && structuredClone(endpoint);
+  }
+
+  async deleteEndpoint(id: string): Promise<void> {
+    this.endpoints.delete(id);
+  }
+
+  async listEndpoints(): Promise<WebhookEndpoint[]> {
+    return [...this.endpoints.values()]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(endpoint => structuredClone(endpoint));
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, structuredClone(delivery));
+  }
+
+  async findDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const delivery = this.deliveries.get(id);
+    return delivery && structuredClone(delivery);
+  }
+
+  async findDueDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter(delivery => delivery.status === 'pending' && !!delivery.nextAttemptAt && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .map(delivery => structuredClone(delivery));
+  }
+
+  async listDeliveries(query: WebhookDeliveryQuery): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter(
+        delivery =>
+          (!query.status || delivery.status === query.status) &&
+          (!query.endpointId || delivery.endpointId === query.endpointId) &&
+          (!query.merchantId || delivery.merchantId === query.merchantId)
+      )
+      .reverse()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, query.limit)
+      .map(delivery => structuredClone(delivery));
+  }
+}
+
+export const createWebhookRepository = (config: GatewayConfig): WebhookRepository => {
+  if (config.storage.driver === 'sqlite') {
+    return new SqliteWebhookRepository(config.storage.sqlitePath);
+  }
+  return new InMemoryWebhookRepository();
+};
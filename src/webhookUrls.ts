@@ -0,0 +1,74 @@
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Where merchant webhook endpoints may point. The gateway POSTs to them from
+ * inside its own network and shows merchants the status codes and errors it
+ * got back, so an endpoint on a loopback, link-local or private address would
+ * let a merchant probe hosts only the gateway can reach.
+ */
+
+const INTERNAL = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16]
+] as const) {
+  INTERNAL.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10]
+] as const) {
+  INTERNAL.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isInternalAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host they embed
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) {
+    return INTERNAL.check(mapped, 'ipv4');
+  }
+  const family = net.isIP(address);
+  return family === 4 ? INTERNAL.check(address, 'ipv4') : family === 6 && INTERNAL.check(address, 'ipv6');
+};
+
+// Why a merchant may not register this URL, or undefined if they may
+export const endpointUrlProblem = (url: string): string | undefined => {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'https:') {
+    return 'Webhook endpoints must use https';
+  }
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || isInternalAddress(host)) {
+    return 'Webhook endpoints cannot point at loopback, link-local or private addresses';
+  }
+  return undefined;
+};
+
+/**
+ * Checks the URL again before each delivery, including every address its host
+ * resolves to now, so a name that has since been pointed inside is caught.
+ * fetch resolves the name again itself; a record that changes between the
+ * two lookups is not caught here.
+ */
+export const deliveryUrlProblem = async (url: string): Promise<string | undefined> => {
+  const problem = endpointUrlProblem(url);
+  if (problem) {
+    return problem;
+  }
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host)) {
+    return undefined;
+  }
+  const addresses = await dns.promises.lookup(host, { all: true }).catch(() => []);
+  return addresses.some(({ address }) => isInternalAddress(address))
+    ? `${host} resolves to a loopback, link-local or private address`
+    : undefined;
+};
@@ -0,0 +1,301 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Refund,
+  Transaction,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryQuery,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEvent,
+  WebhookEventType
+} from './types';
+import { WebhookRepository } from './webhookRepository';
+import { GatewayError } from './errors';
+import { redactEventObject } from './redaction';
+import { deliveryUrlProblem, endpointUrlProblem } from './webhookUrls';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'charge.succeeded',
+  'charge.authorized',
+  'charge.pending_review',
+  'charge.blocked',
+  'charge.declined',
+  'charge.failed',
+  'charge.captured',
+  'charge.voided',
+  'charge.expired',
+  'charge.disputed',
+  'charge.dispute_won',
+  'charge.charged_back',
+  'charge.settled',
+  'refund.created',
+  'refund.failed'
+];
+
+export interface WebhookDispatcherOptions {
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  timeoutMs: number;
+  // Lets merchant endpoints use plain http and internal hosts, e.g. a receiver on localhost in development
+  allowPrivateUrls?: boolean;
+}
+
+// Endpoints as shown after creation; the signing secret is only returned once
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret'>;
+
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * The `X-Webhook-Signature` value for a body: `v1=` followed by the hex
+ * HMAC-SHA256 of `${timestamp}.${body}`, keyed with the endpoint secret.
+ */
+export const signWebhook = (secret: string, timestamp: number, body: string): string =>
+  `v1=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// What a receiver does: check the signature and reject stale timestamps to stop replays
+export const verifyWebhookSignature = (
+  secret: string,
+  body: string,
+  timestamp: string,
+  signature: string,
+  now = Date.now(),
+  toleranceSeconds = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS
+): boolean => {
+  const seconds = Number(timestamp);
+  if (!Number.isInteger(seconds) || Math.abs(now / 1000 - seconds) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhook(secret, seconds, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const summarize = ({ secret: _secret, ...endpoint }: WebhookEndpoint): WebhookEndpointSummary => endpoint;
+
+// Merchants only see their own endpoints and deliveries; other merchants' ones are reported as missing
+const visibleTo = (record: { merchantId?: string }, merchantId?: string): boolean =>
+  !merchantId || record.merchantId === merchantId;
+
+const subscribes = (endpoint: WebhookEndpoint, type: WebhookEventType, merchantId?: string): boolean =>
+  (endpoint.events.includes('*') || endpoint.events.includes(type)) &&
+  (!endpoint.merchantId || endpoint.merchantId === merchantId);
+
+/**
+ * Sends signed transaction events to registered endpoints. The first attempt
+ * happens in the background as soon as an event is published; failures are
+ * retried with exponential backoff by `retryDue` until `maxAttempts`, after
+ * which the delivery is dead-lettered until someone redelivers it.
+ */
+export class WebhookDispatcher {
+  private inFlight = new Map<string, Promise<WebhookDelivery>>();
+
+  constructor(
+    private repository: WebhookRepository,
+    private options: WebhookDispatcherOptions
+  ) {}
+
+  // `trusted` endpoints, registered with the admin key, may use any http or https URL
+  async register(input: WebhookEndpointInput, trusted = false, now = new Date()): Promise<WebhookEndpoint> {
+    const problem = trusted || this.options.allowPrivateUrls ? undefined : endpointUrlProblem(input.url);
+    if (problem) {
+      throw new GatewayError(422, 'webhook_url_not_allowed', problem);
+    }
+    const endpoint: WebhookEndpoint = {
+      id: uuidv4(),
+      ...input,
+      ...(trusted && { trusted }),
+      secret: `whsec_${crypto.randomBytes(24).toString('hex')}`,
+      createdAt: now
+    };
+    await this.repository.saveEndpoint(endpoint);
+    return endpoint;
+  }
+
+  // `merchantId` limits the list to that merchant's endpoints; without it every endpoint is listed
+  async listEndpoints(merchantId?: string): Promise<WebhookEndpointSummary[]> {
+    return (await this.repository.listEndpoints()).filter(endpoint => visibleTo(endpoint, merchantId)).map(summarize);
+  }
+
+  async removeEndpoint(id: string, merchantId?: string): Promise<WebhookEndpointSummary> {
+    const endpoint = await this.repository.findEndpoint(id);
+    if (!endpoint || !visibleTo(endpoint, merchantId)) {
+      throw new GatewayError(404, 'webhook_endpoint_not_found', 'Webhook endpoint not found');
+    }
+    await this.repository.deleteEndpoint(id);
+    return summarize(endpoint);
+  }
+
+  listDeliveries(query: WebhookDeliveryQuery): Promise<WebhookDelivery[]> {
+    return this.repository.listDeliveries(query);
+  }
+
+  /**
+   * Records a delivery for every subscribed endpoint and starts sending them.
+   * Never throws: a webhook problem must not fail the payment that caused it.
+   */
+  async publish(type: WebhookEventType, object: Transaction | Refund, merchantId?: string, now = new Date()): Promise<void> {
+    try {
+      const endpoints = (await this.repository.listEndpoints()).filter(endpoint => subscribes(endpoint, type, merchantId));
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      const event: WebhookEvent = {
+        id: `evt_${uuidv4()}`,
+        type,
+        createdAt: now,
+        data: { object: redactEventObject(structuredClone(object)) }
+      };
+      for (const endpoint of endpoints) {
+        const delivery: WebhookDelivery = {
+          id: uuidv4(),
+          endpointId: endpoint.id,
+          event,
+          status: 'pending',
+          attempts: [],
+          nextAttemptAt: now,
+          ...(endpoint.merchantId && { merchantId: endpoint.merchantId }),
+          createdAt: now
+        };
+        await this.repository.saveDelivery(delivery);
+        this.track(delivery.id, () => this.attempt(delivery, false)).catch(err =>
+          console.error(`Webhook delivery ${delivery.id} failed unexpectedly`, err)
+        );
+      }
+    } catch (err) {
+      console.error(`Could not publish webhook event ${type}`, err);
+    }
+  }
+
+  // Retries pending deliveries whose backoff has elapsed; run periodically by the server
+  async retryDue(now = Date.now()): Promise<number> {
+    const due = await this.repository.findDueDeliveries(new Date(now));
+    let attempted = 0;
+
+    for (const { id } of due) {
+      if (this.inFlight.has(id)) {
+        continue;
+      }
+      // Re-read so an attempt that finished since the query is not repeated
+      const delivery = await this.repository.findDelivery(id);
+      if (delivery?.status !== 'pending' || !delivery.nextAttemptAt || delivery.nextAttemptAt.getTime() > now) {
+        continue;
+      }
+      await this.track(id, () => this.attempt(delivery, false));
+      attempted++;
+    }
+
+    return attempted;
+  }
+
+  // Sends a delivery again now, whatever its state; used to replay dead letters
+  async redeliver(id: string, merchantId?: string): Promise<WebhookDelivery> {
+    await this.inFlight.get(id);
+    const delivery = await this.repository.findDelivery(id);
+    if (!delivery || !visibleTo(delivery, merchantId)) {
+      throw new GatewayError(404, 'webhook_delivery_not_found', 'Webhook delivery not found');
+    }
+    return this.track(id, () => this.attempt(delivery, true));
+  }
+
+  // Resolves once every background attempt started so far has finished
+  async idle(): Promise<void> {
+    while (this.inFlight.size) {
+      await Promise.allSettled([...this.inFlight.values()]);
+    }
+  }
+
+  private track(id: string, operation: () => Promise<WebhookDelivery>): Promise<WebhookDelivery> {
+    const promise = operation().finally(() => this.inFlight.delete(id));
+    this.inFlight.set(id, promise);
+    return promise;
+  }
+
+  private async attempt(delivery: WebhookDelivery, manual: boolean): Promise<WebhookDelivery> {
+    const endpoint = await this.repository.findEndpoint(delivery.endpointId);
+    const startedAt = new Date();
+    const attempt: WebhookDeliveryAttempt = endpoint
+      ? await this.send(endpoint, delivery.event, startedAt)
+      : { at: startedAt, latencyMs: 0, error: 'Endpoint was removed' };
+    if (manual) {
+      attempt.manual = true;
+    }
+    delivery.attempts.push(attempt);
+
+    const succeeded = attempt.statusCode !== undefined && attempt.statusCode >= 200 && attempt.statusCode < 300;
+    // Manual redeliveries do not use up automatic retries
+    const automatic = delivery.attempts.filter(previous => !previous.manual).length;
+    // A failed manual redelivery of a finished delivery dead-letters it rather than restarting the backoff
+    const exhausted =
+      !endpoint || (manual && delivery.status !== 'pending') || automatic >= this.options.maxAttempts;
+
+    if (succeeded) {
+      delivery.status = 'succeeded';
+      delivery.nextAttemptAt = undefined;
+    } else if (exhausted) {
+      delivery.status = 'dead';
+      delivery.nextAttemptAt = undefined;
+    } else {
+      delivery.status = 'pending';
+      delivery.nextAttemptAt = new Date(startedAt.getTime() + this.backoff(Math.max(automatic, 1)));
+    }
+
+    await this.repository.saveDelivery(delivery);
+    return delivery;
+  }
+
+  // base, 2x base, 4x base, ... capped at backoffMaxMs
+  private backoff(attempts: number): number {
+    return Math.min(this.options.backoffBaseMs * 2 ** (attempts - 1), this.options.backoffMaxMs);
+  }
+
+  private async send(endpoint: WebhookEndpoint, event: WebhookEvent, at: Date): Promise<WebhookDeliveryAttempt> {
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(at.getTime() / 1000);
+
+    const problem = endpoint.trusted || this.options.allowPrivateUrls ? undefined : await deliveryUrlProblem(endpoint.url);
+    if (problem) {
+      return { at, latencyMs: 0, error: problem };
+    }
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': event.id,
+          'X-Webhook-Event': event.type,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhook(endpoint.secret, timestamp, body)
+        },
+        body,
+        // A redirect would be a way around the URL checks, so it counts as a failed delivery
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.options.timeoutMs)
+      });
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+
+      const attempt: WebhookDeliveryAttempt = {
+        at,
+        latencyMs: Date.now() - at.getTime(),
+        statusCode: response.status
+      };
+      if (!response.ok) {
+        attempt.error = `Endpoint responded with ${response.status}`;
+      }
+      return attempt;
+    } catch (err) {
+      const error = err as Error;
+      return {
+        at,
+        latencyMs: Date.now() - at.getTime(),
+        error: error.name === 'TimeoutError' ? `No response within ${this.options.timeoutMs}ms` : error.message
+      };
+    }
+  }
+}